@@ -0,0 +1,124 @@
+import { ExpressionContext, ExpressionNode } from "./parser";
+import { computeValueInObject, NodeEvents } from "./template";
+
+export type ActionStatus = 'executed' | 'skipped' | 'unsupported' | 'error';
+
+export type ActionLog = {
+    time: Date;
+    event: string;
+    nodeIndex: string;
+    action: string;
+    params?: any;
+    status: ActionStatus;
+    message?: string;
+}
+
+export interface ActionHost {
+    getState(): any;
+    setState(state: any): void;
+    alert(title: string, message: string): void;
+    log(entry: ActionLog): void;
+}
+
+/**
+ * 在预览中执行事件的 Action。`updateState`、`alert` 以及 `invoke`、`execute` 类型的 Action 会被执行，
+ * 其它 Action（如 `openUrl`、`runAction`、`postNotification`）只记录到日志
+ */
+export class ActionRunner {
+    constructor(private expVersion: number, private host: ActionHost) {}
+
+    public run(events: NodeEvents, event: string, nodeIndex: string, params: any = {}) {
+        let context = new ExpressionContext(this.expVersion);
+        context.pushDict(events.scope);
+        context.push('state', this.host.getState());
+        context.push('_event_', { sender: null, ...params });
+        try {
+            this.runAction(events.actions[event], context, event, nodeIndex);
+        }
+        catch (e) {
+            this.log(event, nodeIndex, event, null, 'error', e.message || String(e));
+        }
+    }
+
+    private compute(obj: any, context: ExpressionContext) {
+        return computeValueInObject(obj, context);
+    }
+
+    private log(event: string, nodeIndex: string, action: string, params: any, status: ActionStatus, message?: string) {
+        this.host.log({ time: new Date(), event, nodeIndex, action, params, status, message });
+    }
+
+    private runAction(action: any, context: ExpressionContext, event: string, nodeIndex: string) {
+        if (action instanceof ExpressionNode) {
+            action = this.compute(action, context);
+        }
+        if (action instanceof Array) {
+            action.forEach(a => this.runAction(a, context, event, nodeIndex));
+            return;
+        }
+        if (!action || typeof(action) !== 'object') {
+            return;
+        }
+        if ('type' in action) {
+            this.runTypedAction(action, context, event, nodeIndex);
+            return;
+        }
+        Object.keys(action).forEach(name => {
+            this.runNamedAction(name, this.compute(action[name], context), context, event, nodeIndex);
+        });
+    }
+
+    private runTypedAction(action: any, context: ExpressionContext, event: string, nodeIndex: string) {
+        let type = this.compute(action.type, context);
+        if ('if' in action && !this.compute(action.if, context)) {
+            this.log(event, nodeIndex, type, null, 'skipped', '`if` 为 false');
+            return;
+        }
+        // 参数会被一次计算
+        let params = this.compute(action.params, context);
+        switch (type) {
+            case 'invoke':
+                this.runAction(params, context, event, nodeIndex);
+                break;
+            case 'execute':
+                this.log(event, nodeIndex, type, params, 'executed');
+                break;
+            default:
+                this.log(event, nodeIndex, type, params, 'unsupported', '预览中不支持该 Action，按执行成功处理');
+                break;
+        }
+        let resultName = typeof(action.result) === 'string' ? action.result : '_result_';
+        context.push(resultName, null);
+        this.runAction(action.success, context, event, nodeIndex);
+        this.runAction(action.finish, context, event, nodeIndex);
+        context.pop(resultName);
+    }
+
+    private runNamedAction(name: string, params: any, context: ExpressionContext, event: string, nodeIndex: string) {
+        switch (name) {
+            case 'updateState':
+                if (!params || typeof(params) !== 'object' || params instanceof Array) {
+                    this.log(event, nodeIndex, name, params, 'error', '`updateState` 的值应该为字典');
+                    return;
+                }
+                // 只更新对应的 key，不替换整个状态
+                this.host.setState({ ...this.host.getState(), ...params });
+                context.set('state', this.host.getState());
+                this.log(event, nodeIndex, name, params, 'executed');
+                break;
+            case 'alert':
+                if (params && typeof(params) === 'object') {
+                    let message = params.message;
+                    this.host.alert(params.title ? String(params.title) : '', typeof(message) === 'string' ? message : message === null || message === undefined ? '' : JSON.stringify(message));
+                }
+                else {
+                    this.host.alert('', String(params));
+                }
+                this.log(event, nodeIndex, name, params, 'executed');
+                break;
+            default:
+                this.log(event, nodeIndex, name, params, 'unsupported');
+                break;
+        }
+    }
+}
@@ -52,3 +52,58 @@ export class ImageInfo {
         return null;
     }
 }
+
+/**
+ * 把布局中的图片名替换为图片文件路径，返回需要加载的图片文件。`prefix` 为图片路径的前缀
+ */
+export function resolveImageFiles(layout, images: ImageInfo[], scale: number, prefix: string): string[] {
+    var files = [];
+    let imageName = (value) => {
+        let image = ImageInfo.findImage(images, value, scale);
+        let ret = '';
+        if (image) {
+            ret += prefix;
+            ret += image.file;
+            if (image.scale !== scale) {
+                ret += '?' + image.scale;
+            }
+        }
+        return ret;
+    }
+    let _resolveImageFiles = (layout, files: string[]) => {
+        function convert(propertyName) {
+            var value = layout.style[propertyName];
+            if (value) {
+                if (typeof(value) === 'string') {
+                    layout.style[propertyName] = imageName(value);
+                    files.push(layout.style[propertyName]);
+                }
+                else if (typeof(value) === 'object' && value.constructor === Object) {
+                    for (var key in value) {
+                        value[key] = imageName(value[key]);
+                        files.push(value[key]);
+                    }
+                }
+            }
+        }
+        if (layout.style) {
+            convert('image');
+            convert('error-image');
+            convert('background-image');
+            if ("html-text" in layout.style) {
+                layout.style["html-text"] = layout.style["html-text"].replace(/src\s*=\s*['"](.*?)['"]/, (s, src) => {
+                    let image = ImageInfo.findImage(images, src, scale);
+                    if (image) files.push(image.file);
+                    return image ? `srcset="${prefix}${image.file} ${image.scale}x"` : '';
+                });
+            }
+        }
+        if (layout.children instanceof Array) {
+            for (let child of layout.children) {
+                _resolveImageFiles(child, files);
+            }
+        }
+    }
+    _resolveImageFiles(layout, files);
+    return files;
+}
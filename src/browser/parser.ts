@@ -35,7 +35,7 @@ let errors = [
     "unknown error",
 ]
 
-enum BinaryOp {
+export enum BinaryOp {
     None,
     Add,
     Sub,
@@ -64,7 +64,7 @@ let BIN_OP_PRIORITY: [number, number][] = [
     [3, 3], [3, 3], [3, 3], [3, 3], [3, 3], [3, 3], // ==  !=  >  <  >=  <=
 ];
 
-enum UnaryOp {
+export enum UnaryOp {
     None,
     Negative,
     Not,
@@ -415,7 +415,7 @@ class ObjectExpressionNode extends ExpressionNode {
     }
 }
 
-class ConditionalExpressionNode extends ExpressionNode {
+export class ConditionalExpressionNode extends ExpressionNode {
     condition: ExpressionNode;
     truePart?: ExpressionNode;
     falsePart: ExpressionNode;
@@ -470,7 +470,7 @@ class ConditionalExpressionNode extends ExpressionNode {
     }
 }
 
-class UnaryExpressionNode extends ExpressionNode {
+export class UnaryExpressionNode extends ExpressionNode {
     operator: UnaryOp;
     oprand: ExpressionNode;
 
@@ -557,7 +557,7 @@ class UnaryExpressionNode extends ExpressionNode {
     }
 }
 
-class BinaryExpressionNode extends ExpressionNode {
+export class BinaryExpressionNode extends ExpressionNode {
     operator: BinaryOp;
     oprand1: ExpressionNode;
     oprand2: ExpressionNode;
@@ -873,7 +873,7 @@ class BinaryExpressionNode extends ExpressionNode {
     }
 }
 
-class FunctionExpressionNode extends ExpressionNode {
+export class FunctionExpressionNode extends ExpressionNode {
     target?: ExpressionNode;
     action: IdentifierNode;
     parameters?: ExpressionNode[];
@@ -1112,7 +1112,7 @@ class FunctionExpressionNode extends ExpressionNode {
     }
 }
 
-class LambdaExpressionNode extends ExpressionNode {
+export class LambdaExpressionNode extends ExpressionNode {
     parameters: IdentifierNode[];
     expression: ExpressionNode;
 
@@ -1,34 +1,13 @@
-import Device from "./previewDevice";
+import Device, { DeviceProfile, PreviewEnvironment, allDevices, toggleDevice } from "./previewDevice";
 import * as flex from '../../lib/FlexLayout';
-import { render, postRender } from "./render";
-import { bindData } from "./template";
-import { ImageInfo } from "./image";
+import { render, postRender, resetPositions } from "./render";
+import { bindData, NodeTrace, ComponentResolver } from "./template";
+import { ActionRunner, ActionLog } from "./actions";
+import { ImageInfo, resolveImageFiles } from "./image";
+import { encodeMessage, decodeMessage } from "./protocol";
 
 declare const shortcut: any;
 
-const devices: Device[] = [
-    // new Device('iPhone 4', 'iOS', 320, 480, 2, 20, 44),
-    new Device('iPhone 5', 'iOS', 320, 568, 2, 20, 44),
-    new Device('iPhone 8', 'iOS', 375, 667, 2, 20, 44),
-    new Device('iPhone 8 Plus', 'iOS', 414, 736, 3, 20, 44),
-    new Device('iPhone X', 'iOS', 375, 812, 3, 44, 44, 39),
-    new Device('iPhone XS Max', 'iOS', 414, 896, 3, 44, 44, 39),
-    new Device('iPad', 'iOS', 768, 1024, 1, 20, 44),
-    new Device('iPad Air', 'iOS', 768, 1024, 2, 20, 44),
-    new Device('iPad Pro 10.5-inch', 'iOS', 834, 1112, 2, 20, 44),
-    new Device('iPad Pro 12.9-inch', 'iOS', 1024, 1366, 2, 20, 44),
-
-    new Device('Samsung Galaxy S7', 'Android', 360, 640, 4, 24, 48),
-    new Device('Samsung Galaxy S9', 'Android', 360, 740, 4, 24, 48),
-    new Device('Google Pixel', 'Android', 412, 732, 2.62, 24, 48),
-    new Device('Google Pixel 3', 'Android', 412, 824, 2.62, 24, 48),
-    new Device('Google Pixel 3 XL', 'Android', 412, 847, 3.495, 24, 48),
-    new Device('One Plus 3', 'Android', 480, 853, 2.25, 24, 48),
-    new Device('Nexus 7', 'Android', 600, 960, 2, 24, 48),
-    new Device('Nexus 9', 'Android', 768, 1024, 2, 24, 48),
-    new Device('Samsung Galaxy Tab 10', 'Android', 800, 1280, 1, 24, 48),
-    new Device('Chromebook Pixel', 'Android', 850, 1280, 1, 24, 48),
-];
 
 const scales = [
     { desc: '200%', scale: 2 },
@@ -39,6 +18,17 @@ const scales = [
     { desc: '33%', scale: 0.33333333333333 },
 ];
 
+// 系统字体大小，对应 iOS 设置中的字体大小档位
+const fontScales = [
+    { desc: '较小', scale: 0.82 },
+    { desc: '默认', scale: 1 },
+    { desc: '较大', scale: 1.12 },
+    { desc: '大', scale: 1.24 },
+    { desc: '辅助功能 - 大', scale: 1.65 },
+    { desc: '辅助功能 - 较大', scale: 2.35 },
+    { desc: '辅助功能 - 最大', scale: 3.12 },
+];
+
 class Dropdown {
     public readonly element: HTMLElement;
     private buttonElement: HTMLElement;
@@ -50,11 +40,7 @@ class Dropdown {
         return this.selectedIndex;
     }
 
-    constructor(private title: string, private items: {
-        name: string,
-        desc?: string,
-        callback?: () => void
-    }[], private emptyText = '<Empty>') {
+    constructor(private title: string, private items: DropdownItem[], private emptyText = '<Empty>') {
         this.element = this.elementFromHtml(
             `<div title="${title}" class="dropdown navi-item" id="device-dropdown">
                 <button type="button" class="btn dropdown-toggle" data-toggle="dropdown">
@@ -79,11 +65,10 @@ class Dropdown {
         if (item.callback) item.callback();
     }
 
-    public updateItems(items: {
-        name: string,
-        desc?: string,
-        callback?: () => void
-    }[]) {
+    /**
+     * 设置了 `checked` 的选项可以多选，点击时只调用 callback，不改变当前选项
+     */
+    public updateItems(items: DropdownItem[]) {
         this.items = items;
         while (this.listElement.childElementCount > 0) {
             this.listElement.children.item(0).remove();
@@ -102,12 +87,18 @@ class Dropdown {
         this.buttonElement.classList.remove('disabled');
 
         items.forEach((item, i) => {
+            let selected = item.checked !== undefined ? item.checked : i === this.selectedIndex;
             let el = this.elementFromHtml(
-                `<li role="presentation" class="${i === this.selectedIndex ? 'selected' : ''}">
+                `<li role="presentation" class="${selected ? 'selected' : ''}">
                     <a role="menuitem" tabindex="-1" style="cursor: pointer">${item.desc || item.name}</a>
                 </li>`);
             el.onclick = () => {
-                this.select(i);
+                if (item.checked !== undefined) {
+                    if (item.callback) item.callback();
+                }
+                else {
+                    this.select(i);
+                }
             }
             if (i === this.selectedIndex) {
                 this.nameElement.textContent = item.name;
@@ -116,6 +107,10 @@ class Dropdown {
         });
     }
 
+    public setName(name: string) {
+        this.nameElement.textContent = name;
+    }
+
     private elementFromHtml(html: string) {
         let div = document.createElement('div');
         div.innerHTML = html;
@@ -123,8 +118,53 @@ class Dropdown {
     }
 }
 
+type DropdownItem = {
+    name: string,
+    desc?: string,
+    checked?: boolean,
+    callback?: () => void
+};
+
 type ClientType = 'vscode' | 'browser-socket' | 'browser';
 
+function escapeHtml(text: string) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function formatValue(value: any) {
+    let text = value === undefined ? 'null' : JSON.stringify(value);
+    return text === undefined ? String(value) : text;
+}
+
+const ACTION_STATUS_NAMES = {
+    executed: '已执行',
+    skipped: '已跳过',
+    unsupported: '未支持',
+    error: '出错',
+};
+
+const MAX_ACTION_LOGS = 200;
+
+// 影响节点自身尺寸和位置的属性
+const NODE_LAYOUT_PROPERTIES = ['width', 'height', 'min-width', 'min-height', 'max-width', 'max-height', 'flex-grow', 'flex-shrink', 'flex-basis', 'align-self', 'fixed'];
+// 父节点中决定子节点排列方式的属性
+const CONTAINER_LAYOUT_PROPERTIES = ['direction', 'wrap', 'align-items', 'align-content', 'justify-content', 'spacing', 'line-spacing', 'lines', 'items-per-line'];
+
+// Feed 预览中的一个区块，模版找不到或编译失败时只有 error
+type FeedBlock = {
+    name: string;
+    data: any;
+    path?: string;
+    template?: any;
+    components?: { [path: string]: any };
+    imports?: { [from: string]: { [importPath: string]: string } };
+    images?: { name: string, files: { [scale: number]: string } }[];
+    error?: string;
+};
+
+type Edges = { top: number, left: number, bottom: number, right: number };
+type SourceRange = { start: { line: number, character: number }, end: { line: number, character: number } };
+
 class CancellationToken {
     private cancelled: boolean;
     public constructor(private onCancel: () => void = null) {}
@@ -137,14 +177,78 @@ class CancellationToken {
     }
 }
 
+// 多设备模式默认显示的设备
+const GRID_DEVICES = ['iPhone 5', 'iPhone X', 'Google Pixel 3', 'iPad'];
+
+/**
+ * 一个设备的预览屏幕，多设备模式下每个设备各有一个，状态栏和导航栏的高度取自设备
+ */
+class Screen {
+    public readonly element: HTMLElement;
+    public readonly main: HTMLElement;
+    public readonly framesOverlay: HTMLCanvasElement;
+    public bindedTemplate;
+    private screen: HTMLElement;
+
+    constructor(template: HTMLElement, public readonly device: Device) {
+        this.element = document.createElement('div');
+        this.element.classList.add('screen-frame');
+        let label = document.createElement('div');
+        label.classList.add('screen-label');
+        label.textContent = `${device.model} (${device.width} x ${device.height})`;
+        this.element.appendChild(label);
+        this.screen = <HTMLElement>template.cloneNode(true);
+        this.element.appendChild(this.screen);
+        this.main = <HTMLElement>this.screen.getElementsByClassName('mist-main').item(0);
+        this.framesOverlay = document.createElement('canvas');
+        this.framesOverlay.classList.add('overlay');
+    }
+
+    public update(scale: number, env: PreviewEnvironment) {
+        let screen = this.screen;
+        screen.classList.remove('hidden');
+        screen.classList.toggle('dark', !!env.darkMode);
+        screen.style.borderRadius = this.device.roundCorner ? this.device.roundCorner + 'px' : '';
+        screen.style.overflow = this.device.roundCorner ? 'hidden' : '';
+        screen.style.minWidth = this.device.width + 'px';
+        screen.style.height = this.device.height + 'px';
+        screen.style.transform = `scale(${scale})`;
+        // transform 不影响布局，用 margin 抵消缩放前后的尺寸差
+        screen.style.marginRight = this.device.width * (scale - 1) + 10 + 'px';
+        screen.style.marginBottom = this.device.height * (scale - 1) + 10 + 'px';
+
+        let status = <HTMLElement>screen.getElementsByClassName('screen-status').item(0);
+        status.style.height = this.device.statusBarHeight + 'px';
+
+        let navi = <HTMLElement>screen.getElementsByClassName('screen-navi').item(0);
+        navi.style.height = this.device.titleBarHeight + 'px';
+    }
+}
+
 class Client {
     private path: string;
     private socket: WebSocket;
     private timer;
     private template;
+    // 引用的组件，key 为组件路径
+    private components: { [path: string]: any } = {};
+    private imports: { [from: string]: { [importPath: string]: string } } = {};
+    // 模版和组件中每个节点的源码范围，key 为文件的 uri 和节点的 node-index
+    private sourceRanges: { [path: string]: { [index: string]: SourceRange } } = {};
+    // Feed 预览的区块，为 null 时预览单个模版
+    private feed: FeedBlock[] = null;
     private datas: { name: string, data: any }[];
     private dataName: string;
     private device: Device;
+    private devices: Device[] = allDevices();
+    private deviceProfilesJson: string;
+    private darkMode = false;
+    private fontScalesDropdown: Dropdown;
+    private gridMode = false;
+    private gridDevices: Device[];
+    private screens: Screen[] = [];
+    private screenTemplate: HTMLElement;
+    private screensElement: HTMLElement;
     private images: ImageInfo[];
     private datasDropdown: Dropdown;
     private devicesDropdown: Dropdown;
@@ -153,22 +257,34 @@ class Client {
     private inspecting: boolean;
     private showFrames: boolean;
     private hoverOverlay: HTMLElement;
-    private framesOverlay: HTMLCanvasElement;
-    private bindedTemplate;
     private nodeStyleWhileShowingFrames: HTMLStyleElement;
     private renderingTokens: CancellationToken[] = [];
+    private inspector: HTMLElement;
+    // 表达式面板中显示的节点，repeat 的节点通过 instance 区分是第几个元素，device 为节点所在的屏幕
+    private inspectedNode: { index: string, instance: number, device: Device };
+    // 预览中的当前状态，undefined 表示使用模版的初始状态
+    private state: any;
+    private initialStateJson: string;
+    // 重置状态后的第一次渲染触发 on-create 和 on-display
+    private fireDisplayEvents = true;
+    private firedOnceEvents = new Set<string>();
+    private actionLogs: ActionLog[] = [];
 
     constructor(
         private type: ClientType,
         private port: number = 0)
     {
         this.hoverOverlay = document.getElementById('mist-hover');
-        this.framesOverlay = document.createElement('canvas');
-        this.framesOverlay.classList.add('overlay');
+        this.inspector = document.getElementById('mist-inspector');
+        this.screenTemplate = <HTMLElement>document.getElementsByClassName('screen').item(0);
+        this.screenTemplate.remove();
+        this.screensElement = document.getElementById('screens');
         this.nodeStyleWhileShowingFrames = document.createElement('style');
         this.nodeStyleWhileShowingFrames.appendChild(document.createTextNode('.mist-node { pointer-events: none; }'));
-        this.device = devices[1];
+        this.device = this.devices.find(d => d.model === 'iPhone 8');
+        this.gridDevices = this.devices.filter(d => GRID_DEVICES.indexOf(d.model) >= 0);
         this.prepareButtons();
+        this.prepareActionLog();
         this.prepareNaviBar();
         this.prepareSocket();
         this.render();
@@ -177,6 +293,8 @@ class Client {
     private prepareButtons() {
         let inspectButton = document.getElementById('inspect-element');
         let framesButton = document.getElementById('show-frames');
+        let gridButton = document.getElementById('toggle-grid');
+        let darkModeButton = document.getElementById('toggle-dark-mode');
 
         let inspectButtonClicked = () => {
             inspectButton.classList.toggle('toggle');
@@ -202,11 +320,104 @@ class Client {
                 inspectButton.click();
             }
         }
+
+        gridButton.onclick = () => {
+            gridButton.classList.toggle('toggle');
+            this.gridMode = gridButton.classList.contains('toggle');
+            this.screensElement.classList.toggle('grid', this.gridMode);
+            this.updateDevicesDropdown();
+            this.render();
+        }
+
+        darkModeButton.onclick = () => {
+            darkModeButton.classList.toggle('toggle');
+            this.darkMode = darkModeButton.classList.contains('toggle');
+            this.render();
+        }
     }
 
-    private clearFrames() {
-        let context = this.framesOverlay.getContext('2d');
-        context.clearRect(0, 0, this.framesOverlay.width, this.framesOverlay.height);
+    private environment(): PreviewEnvironment {
+        return {
+            darkMode: this.darkMode,
+            fontScale: fontScales[this.fontScalesDropdown.index].scale
+        };
+    }
+
+    private prepareActionLog() {
+        let panel = document.getElementById('mist-action-log');
+        document.getElementById('show-action-log').onclick = () => panel.classList.toggle('hidden');
+        document.getElementById('close-action-log').onclick = () => panel.classList.add('hidden');
+        document.getElementById('clear-action-log').onclick = () => {
+            this.actionLogs = [];
+            this.updateActionLog();
+        };
+        document.getElementById('exit-feed').onclick = () => this.send('exitFeed');
+        document.getElementById('reset-state').onclick = () => {
+            this.resetState();
+            this.render();
+        };
+    }
+
+    private resetState() {
+        this.state = undefined;
+        this.fireDisplayEvents = true;
+        this.firedOnceEvents.clear();
+        resetPositions();
+    }
+
+    private appendActionLog(entry: ActionLog) {
+        this.actionLogs.push(entry);
+        if (this.actionLogs.length > MAX_ACTION_LOGS) {
+            this.actionLogs.splice(0, this.actionLogs.length - MAX_ACTION_LOGS);
+        }
+        document.getElementById('mist-action-log').classList.remove('hidden');
+        this.updateActionLog();
+    }
+
+    private updateActionLog() {
+        let list = document.getElementById('action-log-list');
+        list.innerHTML = this.actionLogs.map(log => {
+            let time = log.time.toTimeString().slice(0, 8);
+            let params = log.params !== null && log.params !== undefined ? formatValue(log.params) : '';
+            return `<div class="action-log-item action-${log.status}">
+                <span class="action-log-time">${time}</span>
+                <span class="action-log-event">${escapeHtml(log.event)}${log.nodeIndex ? ` (节点 ${escapeHtml(log.nodeIndex)})` : ''}</span>
+                <span class="action-log-name">${escapeHtml(log.action)}</span>
+                <span class="action-log-params" title="${escapeHtml(params)}">${escapeHtml(params)}</span>
+                <span class="action-log-status">${ACTION_STATUS_NAMES[log.status]}${log.message ? `：${escapeHtml(log.message)}` : ''}</span>
+            </div>`;
+        }).join('');
+        list.scrollTop = list.scrollHeight;
+    }
+
+    private fireEvent(node: any, event: string, params?: any) {
+        if (this.inspecting) return;
+        if ((event.startsWith('on-create') || event.startsWith('on-display')) && !this.fireDisplayEvents) return;
+        let nodeIndex: string = node['node-index'];
+        if (event.endsWith('-once')) {
+            let key = `${nodeIndex}:${event}`;
+            if (this.firedOnceEvents.has(key)) return;
+            this.firedOnceEvents.add(key);
+        }
+        let state = this.state;
+        let runner = new ActionRunner(this.template['exp-version'] || 1, {
+            getState: () => this.state,
+            setState: state => this.state = state,
+            alert: (title, message) => {
+                if (this.type === 'browser') {
+                    window.alert(title ? `${title}\n${message}` : message);
+                }
+                else {
+                    this.send('alert', { title, message });
+                }
+            },
+            log: entry => this.appendActionLog(entry)
+        });
+        runner.run(node.events, event, nodeIndex, params);
+        if (this.state !== state) {
+            // 事件可能在渲染过程中触发，渲染完成后再根据新的状态重新渲染
+            setTimeout(() => this.render(), 0);
+        }
     }
 
     private drawFrames() {
@@ -219,22 +430,27 @@ class Client {
                 this.nodeStyleWhileShowingFrames.remove();
         }
 
+        this.screens.forEach(screen => this.drawScreenFrames(screen));
+    }
+
+    private drawScreenFrames(screen: Screen) {
+        let overlay = screen.framesOverlay;
         let scale = window.devicePixelRatio;
-        this.framesOverlay.width = this.framesOverlay.clientWidth * scale;
-        this.framesOverlay.height = this.framesOverlay.clientHeight * scale;
-        let context = this.framesOverlay.getContext('2d');
-        context.clearRect(0, 0, this.framesOverlay.width, this.framesOverlay.height);
+        overlay.width = overlay.clientWidth * scale;
+        overlay.height = overlay.clientHeight * scale;
+        let context = overlay.getContext('2d');
+        context.clearRect(0, 0, overlay.width, overlay.height);
         if (!this.showFrames) return;
 
         context.scale(scale, scale);
         context.strokeStyle = 'rgba(112, 168, 218, 0.88)';
         context.fillStyle = 'rgba(112, 168, 218, 0.16)';
-        let nodes = document.getElementsByClassName('mist-node');
-        let s = scales[this.scalesDropdown.index].scale;
+        let nodes = screen.main.getElementsByClassName('mist-node');
+        let s = this.scale();
         let drawNode = (node: HTMLElement) => {
             let rect = node.getBoundingClientRect();
-            let l = (rect.left - this.framesOverlay.getBoundingClientRect().left) / s,
-                t = (rect.top - this.framesOverlay.getBoundingClientRect().top) / s,
+            let l = (rect.left - overlay.getBoundingClientRect().left) / s,
+                t = (rect.top - overlay.getBoundingClientRect().top) / s,
                 w = rect.width / s, h = rect.height / s;
             context.fillRect(l, t, w, h);
             context.strokeRect(l, t, w, h);
@@ -244,6 +460,10 @@ class Client {
         }
     }
 
+    private scale() {
+        return scales[this.scalesDropdown.index].scale;
+    }
+
     private getData() {
         if (this.datas && this.datas.length > 0) {
             let data = this.datas.find(d => d.name === this.dataName);
@@ -262,6 +482,7 @@ class Client {
                 name: d.name,
                 callback: () => {
                     this.dataName = d.name;
+                    this.resetState();
                     this.render();
                     this.send('selectData', { name: d.name, path: this.path })
                 }
@@ -269,38 +490,112 @@ class Client {
         }));
     }
 
+    /**
+     * 单设备模式下选择预览的设备，多设备模式下勾选同时预览的设备
+     */
+    private updateDevicesDropdown() {
+        if (!this.gridMode) {
+            this.devicesDropdown.updateItems(this.devices.map(d => {
+                return {
+                    name: d.model,
+                    desc: `${d.model} (${d.width} x ${d.height})`,
+                    callback: () => {
+                        this.device = d;
+                        this.render();
+                    }
+                }
+            }));
+            this.devicesDropdown.select(this.devices.indexOf(this.device));
+            this.devicesDropdown.setName(this.device.model);
+            return;
+        }
+
+        this.devicesDropdown.updateItems(this.devices.map(d => {
+            return {
+                name: d.model,
+                desc: `${d.model} (${d.width} x ${d.height})`,
+                checked: this.gridDevices.indexOf(d) >= 0,
+                callback: () => {
+                    let gridDevices = toggleDevice(this.gridDevices, d, this.devices);
+                    if (gridDevices === this.gridDevices) return;
+                    this.gridDevices = gridDevices;
+                    this.updateDevicesDropdown();
+                    this.render();
+                }
+            }
+        }));
+        this.devicesDropdown.setName(`${this.gridDevices.length} 个设备`);
+    }
+
+    /**
+     * 更新工作区设置中的自定义设备，当前选中的设备按名称保留
+     */
+    private updateDevices(profiles: DeviceProfile[]) {
+        let json = JSON.stringify(profiles || []);
+        if (json === this.deviceProfilesJson) return;
+        this.deviceProfilesJson = json;
+        this.devices = allDevices(profiles);
+        let find = (device: Device) => this.devices.find(d => d.model === device.model);
+        this.device = find(this.device) || this.devices[0];
+        this.gridDevices = this.gridDevices.map(find).filter(d => !!d);
+        if (this.gridDevices.length === 0) {
+            this.gridDevices = [this.device];
+        }
+        this.updateDevicesDropdown();
+    }
+
+    /**
+     * 按当前模式的设备创建或复用屏幕
+     */
+    private updateScreens() {
+        let activeDevices = this.gridMode ? this.gridDevices : [this.device];
+        let screens = activeDevices.map(device => this.screens.find(s => s.device === device) || new Screen(this.screenTemplate, device));
+        if (screens.length === this.screens.length && screens.every((s, i) => s === this.screens[i])) return;
+        this.screens.filter(s => screens.indexOf(s) < 0).forEach(s => s.element.remove());
+        screens.forEach(s => this.screensElement.appendChild(s.element));
+        this.screens = screens;
+    }
+
     private setErrorDesc(desc) {
         const footer = document.getElementById('footer');
         footer.classList.remove('hidden');
         footer.textContent = desc;
     }
+
+    private hideErrorDesc() {
+        document.getElementById('footer').classList.add('hidden');
+    }
     
     private prepareNaviBar() {
         let naviBar = document.getElementById('navi-bar');
         this.datasDropdown = new Dropdown('选择数据', [], '无数据');
         naviBar.appendChild(this.datasDropdown.element);
 
-        this.devicesDropdown = new Dropdown('选择设备', devices.map(d => {
-            return {
-                name: d.model,
-                desc: `${d.model} (${d.width} x ${d.height})`,
-                callback: () => {
-                    this.device = d;
-                    this.render();
-                }
-            }
-        }));
-        this.devicesDropdown.select(devices.indexOf(this.device))
+        this.devicesDropdown = new Dropdown('选择设备', []);
+        this.updateDevicesDropdown();
         naviBar.appendChild(this.devicesDropdown.element);
 
         this.scalesDropdown = new Dropdown('缩放', scales.map(s => {
             return {
                 name: s.desc, 
-                callback: () => (<HTMLElement>document.getElementsByClassName('screen')[0]).style.transform = `scale(${s.scale})`
+                callback: () => {
+                    this.screens.forEach(screen => screen.update(s.scale, this.environment()));
+                    this.drawFrames();
+                }
             };
         }));
         this.scalesDropdown.select(2);
         naviBar.appendChild(this.scalesDropdown.element);
+
+        this.fontScalesDropdown = new Dropdown('系统字体大小', fontScales.map(s => {
+            return {
+                name: `字体 ${Math.round(s.scale * 100)}%`,
+                desc: `${s.desc} (${Math.round(s.scale * 100)}%)`,
+                callback: () => this.render()
+            };
+        }));
+        this.fontScalesDropdown.select(1);
+        naviBar.appendChild(this.fontScalesDropdown.element);
     }
 
     private prepareSocket() {
@@ -318,7 +613,7 @@ class Client {
             }
             this.socket = new WebSocket(`ws://${host}:${this.port}`);
             this.socket.addEventListener("open", () => {
-                this.send('open');
+                this.send('hello', { kind: 'webview', name: this.type === 'vscode' ? 'VS Code 预览' : '浏览器预览' });
             });
             let error = false;
             this.socket.addEventListener("error", event => {
@@ -331,12 +626,19 @@ class Client {
                 if (!error) this.setErrorDesc('与宿主连接已断开');
             });
             this.socket.addEventListener("message", event => {
-                let data = JSON.parse(event.data);
+                let data: any;
+                try {
+                    data = decodeMessage(event.data);
+                }
+                catch (e) {
+                    this.setErrorDesc(e.message);
+                    return;
+                }
                 this.onMessage(data);
             });
             this.send = (type, params = {}) => {
                 if (this.socket && this.socket.readyState === WebSocket.OPEN) {
-                    this.socket.send(JSON.stringify({ type, ...params }));
+                    this.socket.send(encodeMessage(type, params));
                 }
             }
         }
@@ -361,31 +663,63 @@ class Client {
     private onMessage(data: any) {
         switch (data.type) {
             case 'select':
-                this.selectNode(data.index);
+                this.selectNode(data.index, data.path);
                 break;
-            case 'data':
+            case 'feed':
+                this.setFeed(data.blocks);
+                this.path = data.path;
+                this.inspectedNode = null;
+                this.updateDevices(data.devices);
+                this.datasDropdown.updateItems([]);
+                this.render();
+                break;
+            case 'config':
+                this.updateDevices(data.devices);
+                break;
+            case 'template':
+                this.setFeed(null);
+                this.hideErrorDesc();
+                let stateJson = JSON.stringify(data.template && data.template.state);
+                if (data.path !== this.path || stateJson !== this.initialStateJson) {
+                    this.initialStateJson = stateJson;
+                    this.resetState();
+                }
                 this.path = data.path;
                 this.template = data.template;
+                this.components = data.components || {};
+                this.imports = data.imports || {};
+                this.sourceRanges = data.sourceRanges || {};
+                break;
+            case 'images':
                 this.images = data.images.map(i => new ImageInfo(i.name, i.files));
+                break;
+            case 'data':
                 this.datas = data.datas;
                 this.updateDatasDropdown();
                 if (data.selectedData) {
                     this.selectData(data.selectedData);
                 }
+                break;
+            case 'refresh':
                 this.render();
                 break;
+            case 'error':
+                this.setErrorDesc(data.message);
+                break;
             case 'selectData':
                 this.selectData(data.name);
                 break;
         }
     }
 
-    private selectNode(indexes: string) {
+    private selectNode(indexes: string, path?: string) {
         var allNodes = document.getElementsByClassName('mist-node');
         var selectedNodes: HTMLElement[] = [];
+        // 在组件文件中选中时，选中预览中来自该组件的节点
+        var inComponent = path && path !== this.path;
         for (var i = 0; i < allNodes.length; i++) {
             let node: HTMLElement = <HTMLElement>allNodes.item(i);
-            if (node.dataset.nodeIndex === indexes) {
+            if (inComponent ? node.dataset.sourcePath === path && node.dataset.sourceIndex === indexes : node.dataset.nodeIndex === indexes) {
                 selectedNodes.push(node);
             }
         }
@@ -458,94 +792,186 @@ class Client {
         }
     }
 
-    private getBuiltinVars() {
-        let isX = this.device.width === 812;
-        return {
-            _width_: this.device.width,
-            _height_: this.device.height,
-            _mistitem_: {},
-            system: {
-                name: this.device.system,
-                // version: this.device.version,
-                deviceName: this.device.model
-            },
-            screen: {
-                width: this.device.width,
-                height: this.device.height,
-                scale: this.device.scale,
-                statusBarHeight: this.device.statusBarHeight,
-                isPlus: this.device.width > 400,
-                isSmall: this.device.width < 350,
-                isX: isX,
-                safeArea: isX ? { top: 44, left: 0, bottom: 34, right: 0 } : {},
-            },
-            app: {},
+    private nodeClicked(node: HTMLElement, screen: Screen) {
+        this.inspecting = false;
+        let inspectButton = document.getElementById('inspect-element');
+        inspectButton.classList.remove('toggle');
+        this.hoverOverlay.style.opacity = '0';
+        // 组件中的节点跳转到组件文件
+        this.send('select', {
+            path: node.dataset.sourcePath || this.path,
+            index: node.dataset.sourcePath ? node.dataset.sourceIndex : node.dataset.nodeIndex
+        });
+        this.inspectedNode = { index: node.dataset.nodeIndex, instance: this.nodeElements(node.dataset.nodeIndex, screen).indexOf(node), device: screen.device };
+        this.updateInspector();
+    }
 
-            UIScreen: { mainScreen: { scale: this.device.scale } }
+    private nodeElements(index: string, screen: Screen): HTMLElement[] {
+        let elements: HTMLElement[] = [];
+        let allNodes = screen.main.getElementsByClassName('mist-node');
+        for (let i = 0; i < allNodes.length; i++) {
+            let node = <HTMLElement>allNodes.item(i);
+            if (node.dataset.nodeIndex === index) {
+                elements.push(node);
+            }
         }
+        return elements;
     }
 
-    private resolveImageFiles(layout): string[] {
-        var files = [];
-        let imageName = (value) => {
-            let image = ImageInfo.findImage(this.images, value, this.device.scale);
-            let ret = '';
-            if (image) {
-                if (this.type === 'browser-socket') ret += 'getImage/';
-                ret += image.file;
-                if (image.scale !== this.device.scale) {
-                    ret += '?' + image.scale;
-                }
-            }
-            return ret;
+    // 模版中表达式的原始内容，组件中的节点从组件的模版中查找
+    private templateValueAt(index: string, path: (string | number)[], source?: { path: string, index: string }) {
+        let template = source ? this.components[source.path] : this.template;
+        if (source) {
+            index = source.index;
         }
-        let _resolveImageFiles = (layout, files: string[]) => {
-            function convert(propertyName) {
-                var value = layout.style[propertyName];
-                if (value) {
-                    if (typeof(value) === 'string') {
-                        layout.style[propertyName] = imageName(value);
-                        files.push(layout.style[propertyName]);
-                    }
-                    else if (typeof(value) === 'object' && value.constructor === Object) {
-                        for (var key in value) {
-                            value[key] = imageName(value[key]);
-                            files.push(value[key]);
-                        }
-                    }
-                }
+        let node = template && template.layout;
+        for (let i of index ? index.split(',') : []) {
+            node = node && node.children && node.children[parseInt(i)];
+        }
+        return path.reduce((p, c) => p && p[c], node);
+    }
+
+    /**
+     * 显示选中节点中每个表达式的计算结果，以及计算时的 vars、_item_、_index_ 和 state
+     */
+    private updateInspector() {
+        if (!this.inspectedNode) {
+            this.inspector.classList.add('hidden');
+            return;
+        }
+        let { index, instance, device } = this.inspectedNode;
+        // 切换设备后显示当前第一个屏幕中的节点
+        let screen = this.screens.find(s => s.device === device) || this.screens[0];
+        let traces: NodeTrace[] = screen && screen.bindedTemplate ? (screen.bindedTemplate.traces[index] || []).filter(t => !t.gone) : [];
+        let trace = traces[instance];
+        if (!trace) {
+            this.inspectedNode = null;
+            this.inspector.classList.add('hidden');
+            return;
+        }
+
+        let row = (name: string, value: any, source?: string) => {
+            let text = formatValue(value);
+            return `<tr>
+                <td class="inspector-name">${escapeHtml(name)}</td>
+                <td>${source ? `<div class="inspector-source">${escapeHtml(source)}</div>` : ''}<div class="inspector-value" title="${escapeHtml(text)}">${escapeHtml(text)}</div></td>
+            </tr>`;
+        };
+        let contextRows = [];
+        if (trace.index !== undefined) {
+            contextRows.push(row('_index_', trace.index), row('_item_', trace.item));
+        }
+        Object.keys(trace.vars).forEach(k => contextRows.push(row(k, trace.vars[k])));
+        contextRows.push(row('state', trace.state));
+        let expressionRows = trace.expressions.map(e => row(e.path.length > 0 ? e.path.join('.') : '(节点)', e.value, String(this.templateValueAt(index, e.path, trace.source))));
+        let sourcePath = trace.source ? trace.source.path : this.path;
+        let sourceIndex = trace.source ? trace.source.index : index;
+        let sourceRange = (this.sourceRanges[sourcePath] || {})[sourceIndex];
+        let layoutNode = this.findLayoutNode(screen.bindedTemplate.layout, index, instance);
+
+        this.inspector.innerHTML = `
+            <div class="inspector-header">
+                <span>${index ? `节点 ${escapeHtml(index)}` : '根节点'}${trace.source ? `<span class="inspector-source">（${escapeHtml(trace.source.path.split('/').pop())}）</span>` : ''}${this.gridMode ? `<span class="inspector-source"> - ${escapeHtml(screen.device.model)}</span>` : ''}</span>
+                ${traces.length > 1 ? `<span class="inspector-step">
+                    <a class="navi-icon" id="inspector-prev" title="上一个元素">‹</a>
+                    <span>${instance + 1} / ${traces.length}</span>
+                    <a class="navi-icon" id="inspector-next" title="下一个元素">›</a>
+                </span>` : ''}
+                <a class="navi-icon" id="inspector-close" title="关闭">×</a>
+            </div>
+            ${sourceRange ? `<div class="inspector-location"><a id="inspector-source-link" title="跳转到源码">${escapeHtml(sourcePath.split('/').pop())}:${sourceRange.start.line + 1}:${sourceRange.start.character + 1} - ${sourceRange.end.line + 1}:${sourceRange.end.character + 1}</a></div>` : ''}
+            ${layoutNode ? this.layoutHtml(layoutNode.node, layoutNode.parent, trace, screen.device.scale, row) : ''}
+            <div class="inspector-title">表达式</div>
+            <table>${expressionRows.length > 0 ? expressionRows.join('') : '<tr><td class="inspector-empty">没有表达式</td></tr>'}</table>
+            <div class="inspector-title">上下文</div>
+            <table>${contextRows.join('')}</table>`;
+        this.inspector.classList.remove('hidden');
+
+        let step = (delta: number) => {
+            let next = instance + delta;
+            if (next < 0 || next >= traces.length) return;
+            this.inspectedNode = { index, instance: next, device: screen.device };
+            this.updateInspector();
+            let element = this.nodeElements(index, screen)[next];
+            if (element) {
+                element.scrollIntoView({ block: 'nearest' });
+                this.nodeHovering(element);
+                setTimeout(() => this.nodeHovering(null), 500);
             }
-            if (layout.style) {
-                convert('image');
-                convert('error-image');
-                convert('background-image');
-                if ("html-text" in layout.style) {
-                    layout.style["html-text"] = layout.style["html-text"].replace(/src\s*=\s*['"](.*?)['"]/, (s, src) => {
-                        let image = ImageInfo.findImage(this.images, src, this.device.scale);
-                        if (image) files.push(image.file);
-                        return image ? `srcset="getImage/${image.file} ${image.scale}x"` : '';
-                    });
-                }
+        };
+        let button = (id: string) => document.getElementById(id) || <HTMLElement>{};
+        button('inspector-source-link').onclick = () => this.send('select', { path: sourcePath, index: sourceIndex });
+        button('inspector-prev').onclick = () => step(-1);
+        button('inspector-next').onclick = () => step(1);
+        button('inspector-close').onclick = () => {
+            this.inspectedNode = null;
+            this.updateInspector();
+        };
+    }
+
+    /**
+     * 布局结果中第 instance 个 node-index 为 index 的节点，以及它的父节点
+     */
+    private findLayoutNode(root: any, index: string, instance: number): { node: any, parent: any } {
+        let found: { node: any, parent: any }[] = [];
+        let visit = (node: any, parent: any) => {
+            if (!node || found.length > instance) return;
+            if (node['node-index'] === index) {
+                found.push({ node, parent });
             }
-            if (layout.children instanceof Array) {
-                for (let child of layout.children) {
-                    _resolveImageFiles(child, files);
-                }
+            if (node.children instanceof Array) {
+                node.children.forEach(c => visit(c, node));
             }
-        }
-        _resolveImageFiles(layout, files);
-        return files;
+        };
+        visit(root, null);
+        return found[instance] || null;
     }
 
-    private nodeClicked(node: HTMLElement) {
-        this.inspecting = false;
-        let inspectButton = document.getElementById('inspect-element');
-        inspectButton.classList.remove('toggle');
-        this.hoverOverlay.style.opacity = '0';
-        this.send('select', {
-            path: this.path,
-            index: node.dataset.nodeIndex
-        });
+    /**
+     * 节点的盒模型、影响布局的属性和 class 合并的样式，尺寸换算为 pt
+     */
+    private layoutHtml(node: any, parent: any, trace: NodeTrace, scale: number, row: (name: string, value: any) => string) {
+        let result = node.result;
+        if (!result) return '';
+        let pt = (value: number) => Math.round((value || 0) / scale * 100) / 100;
+        let edges = (e: Edges) => e ? { top: pt(e.top), left: pt(e.left), bottom: pt(e.bottom), right: pt(e.right) } : { top: 0, left: 0, bottom: 0, right: 0 };
+        let style = node.style || {};
+        let border = typeof(style['border-width']) === 'number' ? style['border-width'] : 0;
+        let edge = (value: number) => value ? String(value) : '-';
+        let box = (name: string, e: Edges, inner: string) => `<div class="box box-${name}">
+            <span class="box-label">${name}</span>
+            <div class="box-edge">${edge(e.top)}</div>
+            <div class="box-middle"><span class="box-edge">${edge(e.left)}</span>${inner}<span class="box-edge">${edge(e.right)}</span></div>
+            <div class="box-edge">${edge(e.bottom)}</div>
+        </div>`;
+        let content = `<div class="box box-content">${pt(result.width)} × ${pt(result.height)}</div>`;
+        let boxModel = box('margin', edges(result.margin), box('border', { top: border, left: border, bottom: border, right: border }, box('padding', edges(result.padding), content)));
+
+        let frameRows = [
+            row('frame', `${pt(result.left)}, ${pt(result.top)}, ${pt(result.width)} × ${pt(result.height)}`),
+            ...(result.visible ? [] : [row('visible', false)])
+        ];
+        let nodeRows = NODE_LAYOUT_PROPERTIES.filter(p => p in style).map(p => row(p, style[p]));
+        let parentStyle = parent && parent.style || {};
+        let containerRows = parent ? CONTAINER_LAYOUT_PROPERTIES.filter(p => p in parentStyle || p === 'direction').map(p => row(p, p in parentStyle ? parentStyle[p] : 'horizontal（默认）')) : [];
+
+        let classHtml = (trace.classes || []).map(c => {
+            let rows = c.style ? Object.keys(c.style).map(k => {
+                let text = formatValue(c.style[k]);
+                let overridden = c.overridden.indexOf(k) >= 0;
+                return `<tr class="${overridden ? 'inspector-overridden' : ''}" title="${overridden ? '已被覆盖' : ''}">
+                    <td class="inspector-name">${escapeHtml(k)}</td>
+                    <td><div class="inspector-value">${escapeHtml(text)}</div></td>
+                </tr>`;
+            }) : [`<tr><td class="inspector-empty">styles 中没有定义该样式</td></tr>`];
+            return `<div class="inspector-class">.${escapeHtml(c.name)}</div><table>${rows.join('')}</table>`;
+        }).join('');
+
+        return `<div class="inspector-title">布局</div>
+            <div class="box-model">${boxModel}</div>
+            <table>${frameRows.join('')}${nodeRows.join('')}</table>
+            ${containerRows.length > 0 ? `<div class="inspector-title">父节点的排列方式</div><table>${containerRows.join('')}</table>` : ''}
+            ${classHtml ? `<div class="inspector-title">class 样式</div>${classHtml}` : ''}`;
     }
 
     private nodeHovering(node: HTMLElement) {
@@ -572,118 +998,193 @@ class Client {
         let token = new CancellationToken();
         this.renderingTokens.push(token);
 
-        let div = document.getElementsByClassName('mist-main')[0];
-        this.bindedTemplate = bindData(this.template, this.getData(), this.getBuiltinVars());
-        let imageFiles = this.resolveImageFiles(this.bindedTemplate.layout);
+        this.updateScreens();
+        if (this.feed) {
+            (global as any).flex = await flex;
+            for (let screen of this.screens) {
+                let r = await this.renderFeed(screen, token);
+                if (token.isCancelled()) return;
+                this.mountScreen(screen, r);
+            }
+            this.drawFrames();
+            this.updateInspector();
+            return;
+        }
+
+        let resolveComponent = this.componentResolver(this.path, this.components, this.imports);
+        // 先同步绑定所有屏幕的数据，第一个屏幕确定初始状态
+        let rendering = this.screens.map((screen, i) => this.renderScreen(screen, i === 0, resolveComponent, token));
 
         (global as any).flex = await flex;
 
-        return render(this.bindedTemplate.layout, this.device.width, this.device.scale, imageFiles, token).then(r => {
-            if (token.isCancelled()) return;
+        let results = await Promise.all(rendering.map(r => r()));
+        if (token.isCancelled()) return;
+        this.fireDisplayEvents = false;
+        this.screens.forEach((screen, i) => this.attachScreen(screen, results[i], token));
+        if (token.isCancelled()) return;
+        this.drawFrames();
+        this.updateInspector();
+    }
 
-            r.onmouseleave = event => {
-                this.nodeHovering(null);
-            };
-    
-            function getMistNode(event) {
-                var node = event.target;
-                while (!node.classList.contains('mist-node')) {
-                    node = node.parentElement;
-                }
-                return node;
+    /**
+     * 绑定屏幕的数据，返回渲染该屏幕的函数。各屏幕共享状态，只有第一个屏幕触发 on-create 和 on-display
+     */
+    private renderScreen(screen: Screen, primary: boolean, resolveComponent: ComponentResolver, token: CancellationToken) {
+        let device = screen.device;
+        let env = this.environment();
+        screen.bindedTemplate = bindData(this.template, this.getData(), device.builtinVars(env), this.state, resolveComponent);
+        this.state = screen.bindedTemplate.state;
+        let imageFiles = resolveImageFiles(screen.bindedTemplate.layout, this.images, device.scale, this.type === 'browser-socket' ? 'getImage/' : '');
+
+        let eventHandler = (node, event: string, params?) => {
+            if (!primary && (event.startsWith('on-create') || event.startsWith('on-display'))) return;
+            this.fireEvent(node, event, params);
+        };
+        return (): Promise<HTMLElement> => render(screen.bindedTemplate.layout, device.width, device.scale, imageFiles, token, eventHandler, env.fontScale);
+    }
+
+    private attachScreen(screen: Screen, r: HTMLElement, token: CancellationToken) {
+        r.onmouseleave = event => {
+            this.nodeHovering(null);
+        };
+
+        function getMistNode(event) {
+            var node = event.target;
+            while (!node.classList.contains('mist-node')) {
+                node = node.parentElement;
             }
-        
-            r.onmousemove = event => {
-                if (!this.inspecting) return;
-                var node = getMistNode(event);
-                this.nodeHovering(node);
-            };
+            return node;
+        }
     
-            r.onmousedown = event => {
-                if (!this.inspecting) return;
-                var node = getMistNode(event);
-                this.nodeClicked(node);
+        r.onmousemove = event => {
+            if (!this.inspecting) return;
+            var node = getMistNode(event);
+            this.nodeHovering(node);
+        };
+
+        r.onmousedown = event => {
+            if (!this.inspecting) return;
+            var node = getMistNode(event);
+            this.nodeClicked(node, screen);
+        };
+
+        r.oncontextmenu = event => {
+            var node = getMistNode(event);
+            var overlay = document.createElement('div');
+            overlay.style.position = "absolute";
+            overlay.style.top = '0';
+            overlay.style.left = '0';
+            overlay.style.bottom = '0';
+            overlay.style.right = '0';
+            overlay.style.zIndex = '10000';
+            overlay.onmousedown = event => {
+                if (menu.contains(<Node>event.target)) return;
+                overlay.remove();
+            };
+            var menu = document.createElement('div');
+            menu.classList.add('dropdown-menu');
+            menu.style.left = "unset";
+            menu.style.display = "block";
+            overlay.appendChild(menu);
+            var inspectItem = document.createElement('div');
+            inspectItem.classList.add('context-item');
+            inspectItem.textContent = '检查元素';
+            inspectItem.style.padding = "3px 20px";
+            inspectItem.style.cursor = "pointer";
+            inspectItem.onclick = event => {
+                overlay.remove();
+                this.nodeClicked(node, screen);
             };
+            menu.appendChild(inspectItem);
 
-            r.oncontextmenu = event => {
-                var node = getMistNode(event);
-                var overlay = document.createElement('div');
-                overlay.style.position = "absolute";
-                overlay.style.top = '0';
-                overlay.style.left = '0';
-                overlay.style.bottom = '0';
-                overlay.style.right = '0';
-                overlay.style.zIndex = '10000';
-                overlay.onmousedown = event => {
-                    if (menu.contains(<Node>event.target)) return;
-                    overlay.remove();
-                };
-                var menu = document.createElement('div');
-                menu.classList.add('dropdown-menu');
-                menu.style.left = "unset";
-                menu.style.display = "block";
-                overlay.appendChild(menu);
-                var inspectItem = document.createElement('div');
-                inspectItem.classList.add('context-item');
-                inspectItem.textContent = '检查元素';
-                inspectItem.style.padding = "3px 20px";
-                inspectItem.style.cursor = "pointer";
-                inspectItem.onclick = event => {
-                    overlay.remove();
-                    this.nodeClicked(node);
-                };
-                menu.appendChild(inspectItem);
-
-                menu.style.position = "absolute";
-                document.body.appendChild(overlay);
-                if (event.x + menu.clientWidth > document.body.clientWidth) {
-                    menu.style.right = document.body.clientWidth - event.x + 'px';
-                    menu.style.left = event.x - menu.clientWidth + 'px';
-                }
-                else {
-                    menu.style.left = event.x + 'px';
-                }
-                if (event.y + menu.clientHeight > document.body.clientHeight) {
-                    menu.style.bottom = document.body.clientHeight - event.y + 'px';
-                    menu.style.top = event.y - menu.clientHeight + 'px';
-                }
-                else {
-                    menu.style.top = event.y + 'px';
-                }
-                
-                return false;
+            menu.style.position = "absolute";
+            document.body.appendChild(overlay);
+            if (event.x + menu.clientWidth > document.body.clientWidth) {
+                menu.style.right = document.body.clientWidth - event.x + 'px';
+                menu.style.left = event.x - menu.clientWidth + 'px';
             }
-
-            if (div.childElementCount === 0) {
-                div.appendChild(r);
-                div.appendChild(this.framesOverlay);
+            else {
+                menu.style.left = event.x + 'px';
+            }
+            if (event.y + menu.clientHeight > document.body.clientHeight) {
+                menu.style.bottom = document.body.clientHeight - event.y + 'px';
+                menu.style.top = event.y - menu.clientHeight + 'px';
             }
             else {
-                div.replaceChild(r, div.children.item(0));
+                menu.style.top = event.y + 'px';
             }
             
-            this.framesOverlay.style.minWidth = this.framesOverlay.style.width = div.clientWidth + 'px';
-            this.framesOverlay.style.minHeight = this.framesOverlay.style.height = r.clientHeight + 1 + 'px';
-            if (token.isCancelled()) return;
-            postRender(r);
-            if (token.isCancelled()) return;
-            this.drawFrames();
-            if (token.isCancelled()) return;
-            this.updateScreen();
-        });
+            return false;
+        }
+
+        this.mountScreen(screen, r);
     }
-    
-    private updateScreen() {
-        let screen = <HTMLElement>document.getElementsByClassName('screen').item(0);
-        screen.classList.remove('hidden');
-        screen.style.minWidth = this.device.width + 'px';
-        screen.style.height = this.device.height + 'px';
 
-        let status = <HTMLElement>document.getElementsByClassName('screen-status').item(0);
-        status.style.height = this.device.statusBarHeight + 'px';
+    private mountScreen(screen: Screen, r: HTMLElement) {
+        let div = screen.main;
+        if (div.childElementCount === 0) {
+            div.appendChild(r);
+            div.appendChild(screen.framesOverlay);
+        }
+        else {
+            div.replaceChild(r, div.children.item(0));
+        }
+        screen.update(this.scale(), this.environment());
+        
+        screen.framesOverlay.style.minWidth = screen.framesOverlay.style.width = div.clientWidth + 'px';
+        screen.framesOverlay.style.minHeight = screen.framesOverlay.style.height = r.clientHeight + 1 + 'px';
+        postRender(r);
+    }
 
-        let navi = <HTMLElement>document.getElementsByClassName('screen-navi').item(0);
-        navi.style.height = this.device.titleBarHeight + 'px';
+    private componentResolver(rootPath: string, components: { [path: string]: any }, imports: { [from: string]: { [importPath: string]: string } }): ComponentResolver {
+        return (importPath, from) => {
+            let map = imports[from || rootPath] || {};
+            let path = map[importPath];
+            return path && components[path] ? { path, template: components[path] } : null;
+        };
+    }
+
+    private setFeed(blocks: FeedBlock[]) {
+        if (!this.feed && !blocks) return;
+        this.feed = blocks;
+        document.getElementById('exit-feed').classList.toggle('hidden', !blocks);
+        this.resetState();
+    }
+
+    /**
+     * 按顺序渲染 Feed 中的所有区块，区块中的事件不会触发，点击区块打开对应的模版和数据
+     */
+    private async renderFeed(screen: Screen, token: CancellationToken): Promise<HTMLElement> {
+        let device = screen.device;
+        let env = this.environment();
+        let container = document.createElement('div');
+        container.classList.add('mist-feed');
+        for (let i = 0; i < this.feed.length; i++) {
+            let block = this.feed[i];
+            let el: HTMLElement;
+            try {
+                if (block.error) {
+                    throw new Error(block.error);
+                }
+                let binded = bindData(block.template, block.data, device.builtinVars(env), undefined, this.componentResolver(block.path, block.components || {}, block.imports || {}));
+                let images = (block.images || []).map(i => new ImageInfo(i.name, i.files));
+                let imageFiles = resolveImageFiles(binded.layout, images, device.scale, this.type === 'browser-socket' ? 'getImage/' : '');
+                el = await render(binded.layout, device.width, device.scale, imageFiles, token, undefined, env.fontScale);
+            }
+            catch (e) {
+                el = document.createElement('div');
+                el.classList.add('mist-feed-error');
+                el.textContent = e instanceof Error ? e.message : `${block.name}: ${e}`;
+            }
+            if (token.isCancelled()) return null;
+            let wrapper = document.createElement('div');
+            wrapper.classList.add('mist-feed-block');
+            wrapper.title = block.name;
+            wrapper.appendChild(el);
+            wrapper.onclick = () => this.send('openBlock', { index: i });
+            container.appendChild(wrapper);
+        }
+        return container;
     }
 
 }
@@ -1,3 +1,28 @@
+export type EdgeInsets = { top: number, left: number, bottom: number, right: number };
+
+/**
+ * 工作区设置 `mist.preview.devices` 中自定义的设备，未设置的字段按系统取默认值
+ */
+export type DeviceProfile = {
+    model: string;
+    system?: 'iOS' | 'Android';
+    width: number;
+    height: number;
+    scale?: number;
+    statusBarHeight?: number;
+    titleBarHeight?: number;
+    roundCorner?: number;
+    safeArea?: Partial<EdgeInsets>;
+}
+
+/**
+ * 预览时模拟的系统设置
+ */
+export type PreviewEnvironment = {
+    darkMode?: boolean;
+    // 系统字体的缩放比例，1 为默认字体大小
+    fontScale?: number;
+}
 
 export default class Device {
     constructor(
@@ -8,6 +33,110 @@ export default class Device {
         public scale: number,
         public statusBarHeight: number,
         public titleBarHeight: number,
-        public roundCorner?: number
+        public roundCorner?: number,
+        public safeArea?: EdgeInsets
     ) {}
+
+    /**
+     * 模版中可以访问的设备相关的内置变量
+     */
+    public builtinVars(env: PreviewEnvironment = {}) {
+        let isX = this.width === 812;
+        let safeArea = this.safeArea || (isX ? { top: 44, left: 0, bottom: 34, right: 0 } : {});
+        return {
+            _width_: this.width,
+            _height_: this.height,
+            _mistitem_: {},
+            system: {
+                name: this.system,
+                // version: this.version,
+                deviceName: this.model,
+                isDarkMode: !!env.darkMode,
+                fontScale: env.fontScale || 1,
+            },
+            screen: {
+                width: this.width,
+                height: this.height,
+                scale: this.scale,
+                statusBarHeight: this.statusBarHeight,
+                isPlus: this.width > 400,
+                isSmall: this.width < 350,
+                isX: isX,
+                safeArea,
+            },
+            app: {},
+
+            UIScreen: { mainScreen: { scale: this.scale } }
+        }
+    }
+}
+
+export const devices: Device[] = [
+    // new Device('iPhone 4', 'iOS', 320, 480, 2, 20, 44),
+    new Device('iPhone 5', 'iOS', 320, 568, 2, 20, 44),
+    new Device('iPhone 8', 'iOS', 375, 667, 2, 20, 44),
+    new Device('iPhone 8 Plus', 'iOS', 414, 736, 3, 20, 44),
+    new Device('iPhone X', 'iOS', 375, 812, 3, 44, 44, 39),
+    new Device('iPhone XS Max', 'iOS', 414, 896, 3, 44, 44, 39),
+    new Device('iPad', 'iOS', 768, 1024, 1, 20, 44),
+    new Device('iPad Air', 'iOS', 768, 1024, 2, 20, 44),
+    new Device('iPad Pro 10.5-inch', 'iOS', 834, 1112, 2, 20, 44),
+    new Device('iPad Pro 12.9-inch', 'iOS', 1024, 1366, 2, 20, 44),
+
+    new Device('Samsung Galaxy S7', 'Android', 360, 640, 4, 24, 48),
+    new Device('Samsung Galaxy S9', 'Android', 360, 740, 4, 24, 48),
+    new Device('Google Pixel', 'Android', 412, 732, 2.62, 24, 48),
+    new Device('Google Pixel 3', 'Android', 412, 824, 2.62, 24, 48),
+    new Device('Google Pixel 3 XL', 'Android', 412, 847, 3.495, 24, 48),
+    new Device('One Plus 3', 'Android', 480, 853, 2.25, 24, 48),
+    new Device('Nexus 7', 'Android', 600, 960, 2, 24, 48),
+    new Device('Nexus 9', 'Android', 768, 1024, 2, 24, 48),
+    new Device('Samsung Galaxy Tab 10', 'Android', 800, 1280, 1, 24, 48),
+    new Device('Chromebook Pixel', 'Android', 850, 1280, 1, 24, 48),
+];
+
+function isNumber(value: any) {
+    return typeof(value) === 'number' && value > 0;
+}
+
+/**
+ * 由自定义设备创建设备，缺少名称或尺寸时返回 null
+ */
+export function deviceFromProfile(profile: DeviceProfile): Device {
+    if (!profile || typeof(profile.model) !== 'string' || !isNumber(profile.width) || !isNumber(profile.height)) {
+        return null;
+    }
+    let system: 'iOS' | 'Android' = profile.system === 'Android' ? 'Android' : 'iOS';
+    let ios = system === 'iOS';
+    let safeArea = profile.safeArea ? { top: 0, left: 0, bottom: 0, right: 0, ...profile.safeArea } : undefined;
+    return new Device(
+        profile.model,
+        system,
+        profile.width,
+        profile.height,
+        isNumber(profile.scale) ? profile.scale : 2,
+        typeof(profile.statusBarHeight) === 'number' ? profile.statusBarHeight : safeArea && safeArea.top || (ios ? 20 : 24),
+        typeof(profile.titleBarHeight) === 'number' ? profile.titleBarHeight : ios ? 44 : 48,
+        profile.roundCorner,
+        safeArea
+    );
+}
+
+/**
+ * 自定义设备排在内置设备之前，与内置设备同名时替换内置设备
+ */
+export function allDevices(profiles: DeviceProfile[] = []): Device[] {
+    let custom = profiles.map(deviceFromProfile).filter(d => !!d);
+    return [...custom, ...devices.filter(d => !custom.some(c => c.model === d.model))];
+}
+
+/**
+ * 多设备模式中勾选或取消勾选设备，结果按 `all` 中的顺序排列。至少保留一个设备，无法取消时返回 `selected`
+ */
+export function toggleDevice(selected: Device[], device: Device, all: Device[]): Device[] {
+    let checked = selected.indexOf(device) >= 0;
+    if (checked && selected.length === 1) {
+        return selected;
+    }
+    return all.filter(d => d === device ? !checked : selected.indexOf(d) >= 0);
 }
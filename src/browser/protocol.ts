@@ -0,0 +1,115 @@
+/**
+ * 预览和真机调试共用的实时刷新协议。消息为 JSON 文本，都带有 `version` 和 `type` 字段，
+ * 客户端连接后先发送 `hello`，之后宿主在模版、数据或图片变化时主动推送，不需要轮询
+ */
+export const PROTOCOL_VERSION = 1;
+
+export type ClientKind = 'webview' | 'device';
+
+export type Platform = 'ios' | 'android';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type ImageFiles = { name: string, files: { [scale: number]: string } };
+
+/**
+ * 客户端发送的第一条消息，`templates` 为空时接收所有模版的推送
+ */
+export type HelloMessage = {
+    type: 'hello';
+    kind: ClientKind;
+    // 真机客户端需要指定平台，宿主按平台编译模版
+    platform?: Platform;
+    name?: string;
+    // 订阅的模版，为工作区中的相对路径
+    templates?: string[];
+}
+
+/**
+ * 模版变化时推送。真机收到的 `template` 为按平台编译后的字符串，预览收到的为 JSON 对象，并附带组件和源码范围
+ */
+export type TemplateMessage = {
+    type: 'template';
+    path: string;
+    template: any;
+    components?: { [path: string]: any };
+    imports?: { [from: string]: { [importPath: string]: string } };
+    sourceRanges?: { [path: string]: { [index: string]: any } };
+}
+
+export type DataMessage = {
+    type: 'data';
+    path: string;
+    datas: { name: string, data: any }[];
+    selectedData: string;
+}
+
+/**
+ * 模版使用的图片，真机收到的文件路径为调试服务器上的相对路径
+ */
+export type ImagesMessage = {
+    type: 'images';
+    path: string;
+    images: ImageFiles[];
+}
+
+/**
+ * 宿主发送时表示在编辑器中选中了节点，客户端发送时表示在预览中选中了节点
+ */
+export type SelectMessage = {
+    type: 'select';
+    path: string;
+    index: string;
+}
+
+/**
+ * 一次推送的 `template`、`data`、`images` 之后发送，客户端收到后使用最新的内容重新渲染
+ */
+export type RefreshMessage = {
+    type: 'refresh';
+    path: string;
+}
+
+/**
+ * 宿主发送时表示模版编译失败，客户端发送时表示渲染失败，可以附带 `nodePath` 和 `expression` 用于定位
+ */
+export type ErrorMessage = {
+    type: 'error';
+    path: string;
+    message: string;
+    nodePath?: string;
+    expression?: string;
+}
+
+/**
+ * 客户端上报的日志。`nodePath` 为出错的节点，可以是 `node-index`（如 `0,1`）或 `layout.children[0].children[1]` 形式的路径，
+ * `expression` 为出错的表达式，宿主用它们定位到模版源码
+ */
+export type LogMessage = {
+    type: 'log';
+    level: LogLevel;
+    path: string;
+    message: string;
+    nodePath?: string;
+    expression?: string;
+}
+
+export type ProtocolMessage = HelloMessage | TemplateMessage | DataMessage | ImagesMessage | SelectMessage | RefreshMessage | ErrorMessage | LogMessage;
+
+export function encodeMessage(type: string, params: {} = {}): string {
+    return JSON.stringify({ version: PROTOCOL_VERSION, type, ...params });
+}
+
+/**
+ * 解析收到的消息，格式错误或版本不兼容时抛出异常
+ */
+export function decodeMessage(text: string): { version: number, type: string, [key: string]: any } {
+    let message = JSON.parse(text);
+    if (!message || typeof(message.type) !== 'string') {
+        throw new Error('消息格式错误');
+    }
+    if (message.version !== PROTOCOL_VERSION) {
+        throw new Error(`不支持的协议版本 ${message.version}，当前版本为 ${PROTOCOL_VERSION}`);
+    }
+    return message;
+}
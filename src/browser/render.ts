@@ -6,6 +6,8 @@ declare const flex: any;
 var config = {
     scale: 1,
     screenWidth: 375,
+    // 模拟系统字体大小的缩放比例
+    fontScale: 1,
 };
 
 function length(obj) {
@@ -171,6 +173,10 @@ function convertLength(l) {
     return lengthStringHtml(length(l));
 }
 
+function fontSize(size) {
+    return length(size).value * config.fontScale + 'px';
+}
+
 function setBasicStyle(el: HTMLElement, style) {
     if (style["background-color"]) el.style.backgroundColor = convertColor(style["background-color"]);
     el.style.borderWidth = convertLength(style["border-width"] || 0);
@@ -215,13 +221,13 @@ function setTextStyle(el: HTMLElement, style) {
     el.textContent = text;
     if ("html-text" in style) el.innerHTML = fixHtml(style["html-text"]);
 
-    el.style.fontSize = convertLength(style['font-size'] || 14);
+    el.style.fontSize = fontSize(style['font-size'] || 14);
     if ("color" in style) el.style.color = convertColor(style.color);
     if ("font-name" in style) el.style.fontFamily = style["font-name"];
     if ("alignment" in style) el.style.textAlign = style["alignment"];
     if ("kern" in style) el.style.letterSpacing = style["kern"] * config.scale + "px";
     if (style['line-spacing']) {
-        el.style.lineHeight = (style['font-size'] || 14) * config.scale * 1.2 + style['line-spacing'] * config.scale + 'px';
+        el.style.lineHeight = (style['font-size'] || 14) * config.scale * config.fontScale * 1.2 + style['line-spacing'] * config.scale + 'px';
     }
     else {
         el.style.lineHeight = '1.2em';
@@ -253,6 +259,10 @@ function setTextStyle(el: HTMLElement, style) {
         el.style["display"] = "-webkit-box";
     }
     
+    setFontStyle(el, style);
+}
+
+function setFontStyle(el: HTMLElement, style) {
     switch (style["font-style"]) {
         case "ultra-light":
             el.style.fontWeight = "100";
@@ -395,7 +405,7 @@ function setButtonStyle(el: HTMLElement, style) {
         text.textContent = unwrap(style["title"]) || "";
         text.style.textAlign = "center";
         if ("title-color" in style) text.style.color = convertColor(unwrap(style["title-color"]));
-        text.style.fontSize = convertLength(style['font-size'] || 14);
+        text.style.fontSize = fontSize(style['font-size'] || 14);
         if ("font-name" in style) text.style.fontFamily = style["font-name"];
         el.appendChild(text);
     }
@@ -422,7 +432,7 @@ function setScrollStyle(el: HTMLElement, style, result) {
     el.appendChild(blank);
 }
 
-function setPagingIndicator(el: HTMLElement, style, childrenCount) {
+function setPagingIndicator(el: HTMLElement, style, childrenCount, current: number, onSelect: (index: number) => void): (current: number) => void {
     if (style['page-control'] && childrenCount > 0) {
         const dotSize = 7;
         const spaceSize = 9;
@@ -437,19 +447,21 @@ function setPagingIndicator(el: HTMLElement, style, childrenCount) {
         dotContainer.style.marginRight = 'page-control-margin-right' in style ? style['page-control-margin-right'] * config.scale + 'px' : 'auto';
         dotContainer.style.marginTop = 'page-control-margin-top' in style ? style['page-control-margin-top'] * config.scale + 'px' : 'auto';
         dotContainer.style.marginBottom = 'page-control-margin-bottom' in style ? style['page-control-margin-bottom'] * config.scale + 'px' : 'auto';
+        dotContainer.style.pointerEvents = 'auto';
 
-        for (var i = 0; i < childrenCount; i++) {
+        let dots: HTMLElement[] = [];
+        for (let i = 0; i < childrenCount; i++) {
             let dot = document.createElement('div');
             dot.style.width = size + 'px';
             dot.style.height = size + 'px';
             dot.style.borderRadius = (size / 2) + 'px';
-            if (i === 0) {
-                dot.style.backgroundColor = convertColor(style['page-control-selected-color']) || 'rgba(255,255,255,1)';
-            }
-            else {
-                dot.style.backgroundColor = convertColor(style['page-control-color']) || 'rgba(255,255,255,0.5)';
-            }
+            dot.style.cursor = 'pointer';
+            dot.addEventListener('click', event => {
+                event['mistHandled'] = true;
+                onSelect(i);
+            });
             dotContainer.appendChild(dot);
+            dots.push(dot);
         }
 
         let flexContainer = document.createElement('div');
@@ -459,11 +471,528 @@ function setPagingIndicator(el: HTMLElement, style, childrenCount) {
         flexContainer.style.top = '0';
         flexContainer.style.right = '0';
         flexContainer.style.bottom = '0';
+        // 只有圆点响应点击，不影响拖动翻页
+        flexContainer.style.pointerEvents = 'none';
         flexContainer.appendChild(dotContainer);
         el.appendChild(flexContainer);
+
+        let update = (current: number) => {
+            dots.forEach((dot, i) => {
+                if (i === current) {
+                    dot.style.backgroundColor = convertColor(style['page-control-selected-color']) || 'rgba(255,255,255,1)';
+                }
+                else {
+                    dot.style.backgroundColor = convertColor(style['page-control-color']) || 'rgba(255,255,255,0.5)';
+                }
+            });
+        };
+        update(current);
+        return update;
+    }
+    return () => {};
+}
+
+// 重新渲染时保持 paging 的当前页和 scroll 的滚动位置，key 为 node-index
+var pagingPositions: {[index: string]: number} = {};
+var scrollPositions: {[index: string]: { left: number, top: number }} = {};
+
+export function resetPositions() {
+    pagingPositions = {};
+    scrollPositions = {};
+}
+
+const DRAG_THRESHOLD = 5;
+
+/**
+ * 切换到第 `index` 页时实际显示的页，循环滚动时首尾相连，否则限制在页数范围内
+ */
+export function normalizePageIndex(index: number, count: number, loop: boolean) {
+    if (loop) {
+        index = (index + count) % count;
+    }
+    return Math.max(0, Math.min(count - 1, index));
+}
+
+/**
+ * 拖动结束后显示的页，拖动距离超过页面大小的 1/5 时切换到相邻的页
+ */
+export function pageAfterDrag(current: number, distance: number, pageSize: number) {
+    return Math.abs(distance) > pageSize / 5 ? current + (distance < 0 ? 1 : -1) : current;
+}
+
+/**
+ * 用鼠标拖动模拟手势，`onMove` 和 `onEnd` 的参数为拖动距离（已换算为布局的坐标）
+ */
+function bindDrag(el: HTMLElement, onMove: (dx: number, dy: number) => void, onEnd: (dx: number, dy: number) => void) {
+    let dragged = false;
+    el.addEventListener('mousedown', event => {
+        // 嵌套的可拖动元素只由最内层的元素处理
+        if (event.button !== 0 || event['mistDragHandled']) return;
+        event['mistDragHandled'] = true;
+        let startX = event.clientX;
+        let startY = event.clientY;
+        dragged = false;
+        let distance = (e: MouseEvent) => [(e.clientX - startX) * config.scale, (e.clientY - startY) * config.scale];
+        let move = (e: MouseEvent) => {
+            let [dx, dy] = distance(e);
+            if (!dragged && Math.abs(dx) < DRAG_THRESHOLD && Math.abs(dy) < DRAG_THRESHOLD) return;
+            dragged = true;
+            e.preventDefault();
+            onMove(dx, dy);
+        };
+        let up = (e: MouseEvent) => {
+            window.removeEventListener('mousemove', move);
+            window.removeEventListener('mouseup', up);
+            if (dragged) {
+                let [dx, dy] = distance(e);
+                onEnd(dx, dy);
+            }
+        };
+        window.addEventListener('mousemove', move);
+        window.addEventListener('mouseup', up);
+    });
+    // 拖动结束时不触发点击
+    el.addEventListener('click', event => {
+        if (dragged) {
+            dragged = false;
+            event.stopPropagation();
+        }
+    }, true);
+}
+
+function setupPaging(el: HTMLElement, l, pages: HTMLElement[], handler: EventHandler) {
+    let style = l.style || {};
+    let vertical = style['direction'] === 'vertical';
+    let pageSize = vertical ? l.result.height : l.result.width;
+    let count = pages.length;
+    let loop = !!style['infinite-loop'];
+    let duration = 'animation-duration' in style ? style['animation-duration'] : 0.3;
+    let key = l['node-index'];
+    let current = Math.min(pagingPositions[key] || 0, Math.max(count - 1, 0));
+
+    el.style.overflow = 'hidden';
+    let track = document.createElement('div');
+    track.style.position = 'absolute';
+    track.style.left = '0';
+    track.style.top = '0';
+    pages.forEach((page, i) => {
+        page.style.position = 'absolute';
+        page.style.left = vertical ? '0' : i * pageSize + 'px';
+        page.style.top = vertical ? i * pageSize + 'px' : '0';
+        page.style.width = l.result.width + 'px';
+        page.style.height = l.result.height + 'px';
+        track.appendChild(page);
+    });
+    el.insertBefore(track, el.firstChild);
+
+    let translate = (offset: number, animated: boolean) => {
+        track.style.transition = animated ? `transform ${duration}s ease-out` : '';
+        track.style.transform = vertical ? `translateY(${offset}px)` : `translateX(${offset}px)`;
+    };
+    translate(-current * pageSize, false);
+
+    let updateIndicator: (current: number) => void;
+    let switchTo = (index: number) => {
+        index = normalizePageIndex(index, count, loop);
+        translate(-index * pageSize, true);
+        if (index !== current) {
+            current = index;
+            pagingPositions[key] = current;
+            updateIndicator(current);
+            fireNodeEvent(l, handler, 'on-switch', { detail: { current } });
+        }
+    };
+    let scrollEnabled = style['scroll-enabled'] !== false;
+    updateIndicator = setPagingIndicator(el, style, count, current, index => {
+        if (scrollEnabled) switchTo(index);
+    });
+
+    if (scrollEnabled && count > 1) {
+        bindDrag(el, (dx, dy) => {
+            translate(-current * pageSize + (vertical ? dy : dx), false);
+        }, (dx, dy) => {
+            let index = pageAfterDrag(current, vertical ? dy : dx, pageSize);
+            if (index !== current) {
+                switchTo(index);
+            }
+            else {
+                translate(-current * pageSize, true);
+            }
+        });
+    }
+
+    let interval = style['auto-scroll'];
+    if (typeof(interval) === 'number' && interval > 0 && count > 1) {
+        let timer = setInterval(() => {
+            // 重新渲染后旧的元素已经移除
+            if (!document.body.contains(el)) {
+                clearInterval(timer);
+                return;
+            }
+            switchTo(current + 1 < count || loop ? current + 1 : 0);
+        }, interval * 1000);
+    }
+}
+
+function setupScroll(el: HTMLElement, l, handler: EventHandler) {
+    let style = l.style || {};
+    let key = l['node-index'];
+    el.classList.add('mist-scroll');
+    el.setAttribute('data-scroll-key', key);
+    if (style['scroll-direction'] === 'none' || style['scroll-enabled'] === false) {
+        el.style.overflow = 'hidden';
+    }
+    let pending = false;
+    el.addEventListener('scroll', () => {
+        scrollPositions[key] = { left: el.scrollLeft, top: el.scrollTop };
+        if (pending) return;
+        pending = true;
+        requestAnimationFrame(() => {
+            pending = false;
+            fireNodeEvent(l, handler, 'on-scroll', {
+                detail: {
+                    scrollLeft: el.scrollLeft / config.scale,
+                    scrollTop: el.scrollTop / config.scale,
+                    scrollWidth: el.scrollWidth / config.scale,
+                    scrollHeight: el.scrollHeight / config.scale,
+                }
+            });
+        });
+    });
+    if (style['scroll-direction'] !== 'none' && style['scroll-enabled'] !== false) {
+        let start = { left: 0, top: 0 };
+        el.addEventListener('mousedown', () => start = { left: el.scrollLeft, top: el.scrollTop });
+        bindDrag(el, (dx, dy) => {
+            el.scrollLeft = start.left - dx;
+            el.scrollTop = start.top - dy;
+        }, () => {});
+    }
+}
+
+const SWITCH_SIZE = { width: 51, height: 31 };
+const INDICATOR_SIZE = 20;
+const SEGMENT_HEIGHT = 28;
+const PICKER_HEIGHT = 216;
+const PICKER_ROW_HEIGHT = 32;
+const TINT_COLOR = '#007aff';
+
+function setIndicatorStyle(el: HTMLElement, style) {
+    el.style.display = 'flex';
+    el.style.alignItems = 'center';
+    el.style.justifyContent = 'center';
+    var spinner = document.createElement('div');
+    spinner.className = 'mist-indicator';
+    spinner.style.width = spinner.style.height = INDICATOR_SIZE * config.scale + 'px';
+    spinner.style.borderWidth = 2 * config.scale + 'px';
+    spinner.style.color = convertColor(style['color']) || 'white';
+    el.appendChild(spinner);
+}
+
+function setTextInputStyle(el: HTMLInputElement | HTMLTextAreaElement, style, multiline: boolean) {
+    el.classList.add('mist-text-input');
+    el.value = style['text'] !== undefined ? String(style['text']) : '';
+    if ('placeholder' in style) el.placeholder = String(style['placeholder']);
+    if ('placeholder-color' in style) el.style.setProperty('--placeholder-color', convertColor(style['placeholder-color']));
+    el.style.fontSize = fontSize(style['font-size'] || (multiline ? 12 : 17));
+    if ('color' in style) el.style.color = convertColor(style['color']);
+    if ('font-name' in style) el.style.fontFamily = style['font-name'];
+    if ('alignment' in style) el.style.textAlign = style['alignment'];
+    setFontStyle(el, style);
+    if (typeof(style['max-length']) === 'number' && style['max-length'] >= 0) el.maxLength = style['max-length'];
+    el.readOnly = style['editable'] === false;
+    if (!multiline && style['password-mode']) {
+        (<HTMLInputElement>el).type = 'password';
+    }
+    var inputMode = {
+        'number': 'numeric',
+        'number-punctuation': 'numeric',
+        'decimal': 'decimal',
+        'phone': 'tel',
+        'name-phone': 'tel',
+        'email': 'email',
+        'url': 'url',
+        'web': 'url',
+    }[style['keyboard-type']];
+    if (inputMode) el.setAttribute('inputmode', inputMode);
+}
+
+function setSwitchState(el: HTMLElement, style, on: boolean) {
+    var thumb = <HTMLElement>el.firstElementChild;
+    el.setAttribute('data-on', on ? 'true' : 'false');
+    el.style.backgroundColor = on ? convertColor(style['color']) || '#4cd964' : '#e5e5ea';
+    thumb.style.transform = on ? `translateX(${(SWITCH_SIZE.width - SWITCH_SIZE.height) * config.scale}px)` : '';
+}
+
+function setSwitchStyle(el: HTMLElement, style) {
+    el.classList.add('mist-switch');
+    el.style.borderRadius = SWITCH_SIZE.height / 2 * config.scale + 'px';
+    var thumb = document.createElement('div');
+    var thumbSize = (SWITCH_SIZE.height - 4) * config.scale;
+    thumb.style.width = thumb.style.height = thumbSize + 'px';
+    thumb.style.borderRadius = thumbSize / 2 + 'px';
+    thumb.style.margin = 2 * config.scale + 'px';
+    thumb.style.backgroundColor = convertColor(style['thumb-color']) || 'white';
+    el.appendChild(thumb);
+    if (style['enabled'] === false) el.style.opacity = '0.5';
+    setSwitchState(el, style, !!style['on']);
+}
+
+function setSelectedIndex(el: HTMLElement, index: number) {
+    el.setAttribute('data-selected-index', index + '');
+    for (var i = 0; i < el.children.length; i++) {
+        el.children.item(i).classList.toggle('selected', i === index);
+    }
+}
+
+function setSegmentedControlStyle(el: HTMLElement, style) {
+    el.classList.add('mist-segmented-control');
+    el.style.fontSize = 13 * config.scale + 'px';
+    el.style.borderRadius = 4 * config.scale + 'px';
+    el.style.setProperty('--tint-color', TINT_COLOR);
+    var items: any[] = style['items'] instanceof Array ? style['items'] : [];
+    items.forEach(item => {
+        var segment = document.createElement('div');
+        segment.textContent = item + '';
+        segment.style.padding = `0 ${8 * config.scale}px`;
+        el.appendChild(segment);
+    });
+    if (style['enabled'] === false) el.style.opacity = '0.5';
+    setSelectedIndex(el, typeof(style['selected-index']) === 'number' ? style['selected-index'] : -1);
+}
+
+function setPickerIndex(el: HTMLElement, index: number) {
+    var list = <HTMLElement>el.firstElementChild;
+    setSelectedIndex(list, index);
+    list.style.transform = `translateY(${-(index + 0.5) * PICKER_ROW_HEIGHT * config.scale}px)`;
+}
+
+function setPickerStyle(el: HTMLElement, style) {
+    el.classList.add('mist-picker');
+    el.style.fontSize = 21 * config.scale + 'px';
+    var list = document.createElement('div');
+    var items: any[] = style['items'] instanceof Array ? style['items'] : [];
+    items.forEach(item => {
+        var row = document.createElement('div');
+        row.textContent = item + '';
+        row.style.height = row.style.lineHeight = PICKER_ROW_HEIGHT * config.scale + 'px';
+        list.appendChild(row);
+    });
+    el.appendChild(list);
+    setPickerIndex(el, typeof(style['selected-index']) === 'number' ? style['selected-index'] : 0);
+}
+
+function setWebViewStyle(el: HTMLElement, style) {
+    var source = style['source'] || {};
+    if (!source.html && !source.url) {
+        el.classList.add('mist-placeholder');
+        el.textContent = 'web-view';
+        return;
+    }
+    var frame = document.createElement('iframe');
+    frame.style.width = '100%';
+    frame.style.height = '100%';
+    frame.style.border = 'none';
+    frame.setAttribute('sandbox', 'allow-scripts');
+    if (source.html) {
+        var base = source.baseUrl ? `<base href="${source.baseUrl}">` : '';
+        frame.srcdoc = base + source.html;
+    }
+    else {
+        frame.src = source.url;
+    }
+    el.appendChild(frame);
+}
+
+function setMapStyle(el: HTMLElement, style) {
+    el.classList.add('mist-map');
+    if (style['map-type'] === 'satellite' || style['map-type'] === 'hybrid') {
+        el.classList.add('mist-map-satellite');
+    }
+    el.style.overflow = 'hidden';
+    var region = style['region'];
+    var annotations: any[] = style['annotations'] instanceof Array ? style['annotations'] : [];
+    if (!region || !region['latitude-delta'] || !region['longitude-delta']) {
+        return;
+    }
+    // 按 region 把经纬度换算为元素中的位置
+    var position = (latitude: number, longitude: number) => ({
+        x: (longitude - region.longitude) / region['longitude-delta'] + 0.5,
+        y: (region.latitude - latitude) / region['latitude-delta'] + 0.5,
+    });
+    annotations.forEach(a => {
+        var p = position(a.latitude, a.longitude);
+        if (p.x < 0 || p.x > 1 || p.y < 0 || p.y > 1) return;
+        var pin = document.createElement('div');
+        pin.className = 'mist-map-annotation';
+        pin.style.left = p.x * 100 + '%';
+        pin.style.top = p.y * 100 + '%';
+        pin.style.fontSize = 12 * config.scale + 'px';
+        pin.textContent = '📍';
+        pin.title = [a.title, a.subtitle].filter(t => !!t).join('\n');
+        if (style['shows-annotation-callouts'] && a.title) {
+            var callout = document.createElement('div');
+            callout.className = 'mist-map-callout';
+            callout.textContent = a.title;
+            pin.appendChild(callout);
+        }
+        el.appendChild(pin);
+    });
+}
+
+const GRADIENT_DIRECTIONS = {
+    'to-right': 'to right',
+    'to-left': 'to left',
+    'to-top': 'to top',
+    'to-bottom': 'to bottom',
+    'to-top-left': 'to top left',
+    'to-bottom-left': 'to bottom left',
+    'to-top-right': 'to top right',
+    'to-bottom-right': 'to bottom right',
+};
+
+/**
+ * `linear-gradient` 元素的 CSS 渐变，没有设置颜色时返回 null
+ */
+export function linearGradient(style): string {
+    var colors: string[] = (style['colors'] instanceof Array ? style['colors'] : []).map(c => convertColor(c) || 'transparent');
+    if (colors.length === 0) return null;
+    if (colors.length === 1) colors.push(colors[0]);
+    var direction = GRADIENT_DIRECTIONS[style['direction']] || 'to right';
+    var start = style['start-point'];
+    var end = style['end-point'];
+    if (start instanceof Array && end instanceof Array) {
+        // CSS 中 0deg 为向上，顺时针旋转
+        var angle = Math.atan2(end[0] - start[0], start[1] - end[1]) * 180 / Math.PI;
+        direction = angle + 'deg';
+    }
+    var factors = style['factors'];
+    var stops = colors.map((c, i) => factors instanceof Array && factors.length === colors.length ? `${c} ${factors[i] * 100}%` : c);
+    return `linear-gradient(${direction}, ${stops.join(', ')})`;
+}
+
+function setLinearGradientStyle(el: HTMLElement, style) {
+    var gradient = linearGradient(style);
+    if (gradient) el.style.backgroundImage = gradient;
+}
+
+function setSlotStyle(el: HTMLElement, layout) {
+    if (!(layout.children instanceof Array) || layout.children.length === 0) {
+        el.classList.add('mist-placeholder');
+        el.textContent = layout.name ? `slot: ${layout.name}` : 'slot';
+    }
+}
+
+/**
+ * 表单类元素在预览中的交互，交互后触发对应的事件
+ */
+function setupControl(el: HTMLElement, l, handler: EventHandler) {
+    var style = l.style || {};
+    var fire = (name: string, params?: any) => fireNodeEvent(l, handler, name, params);
+    switch (l.type) {
+        case 'text-field':
+        case 'text-view': {
+            var input = <HTMLInputElement | HTMLTextAreaElement>el;
+            input.addEventListener('focus', () => fire('on-focus'));
+            input.addEventListener('blur', () => fire('on-blur'));
+            input.addEventListener('input', () => fire('on-change', { detail: { text: input.value } }));
+            input.addEventListener('keydown', (event: KeyboardEvent) => {
+                if (event.key !== 'Enter' || (l.type === 'text-view' && !style['return-key-type'])) return;
+                event.preventDefault();
+                fire('on-submit', { detail: { text: input.value } });
+                if (style['blur-on-submit'] !== false) input.blur();
+            });
+            if (l.type === 'text-view') {
+                input.addEventListener('scroll', () => fire('on-scroll', { detail: { scrollTop: input.scrollTop / config.scale } }));
+            }
+            break;
+        }
+        case 'switch':
+            if (style['enabled'] === false) break;
+            el.style.cursor = 'pointer';
+            el.addEventListener('click', () => {
+                var on = el.getAttribute('data-on') !== 'true';
+                setSwitchState(el, style, on);
+                fire('on-change', { detail: { on } });
+            });
+            break;
+        case 'segmented-control':
+            if (style['enabled'] === false) break;
+            Array.prototype.forEach.call(el.children, (segment: HTMLElement, index: number) => {
+                segment.style.cursor = 'pointer';
+                segment.addEventListener('click', () => {
+                    if (el.getAttribute('data-selected-index') === index + '') return;
+                    setSelectedIndex(el, index);
+                    fire('on-change', { detail: { selectedIndex: index } });
+                });
+            });
+            break;
+        case 'picker':
+            Array.prototype.forEach.call(el.firstElementChild.children, (row: HTMLElement, index: number) => {
+                row.style.cursor = 'pointer';
+                row.addEventListener('click', () => {
+                    if (el.firstElementChild.getAttribute('data-selected-index') === index + '') return;
+                    setPickerIndex(el, index);
+                    fire('on-change', { detail: { selectedIndex: index } });
+                });
+            });
+            break;
     }
 }
 
+/**
+ * 预览中触发节点事件，`node` 为绑定数据后的节点
+ */
+export type EventHandler = (node: any, event: string, params?: any) => void;
+
+const LONG_PRESS_DURATION = 500;
+
+function fireNodeEvent(l, handler: EventHandler, name: string, params?: any) {
+    if (!handler || !l.events) return;
+    [name, name + '-once'].filter(e => e in l.events.actions).forEach(e => handler(l, e, params));
+}
+
+function bindEvents(el: HTMLElement, l, handler: EventHandler) {
+    let actions = l.events.actions;
+    let has = (name: string) => (name in actions) || ((name + '-once') in actions);
+    let fire = (name: string, params?: any) => fireNodeEvent(l, handler, name, params);
+    // 嵌套的元素只由最内层的元素处理，不阻止事件冒泡，以免影响预览中的检查元素
+    let handled = (event: Event) => {
+        if (event['mistHandled']) return true;
+        event['mistHandled'] = true;
+        return false;
+    };
+    let longPressed = false;
+    if (has('on-tap')) {
+        el.style.cursor = 'pointer';
+        el.addEventListener('click', event => {
+            if (handled(event) || longPressed) return;
+            fire('on-tap');
+        });
+    }
+    if (has('on-long-press')) {
+        let timer = null;
+        el.addEventListener('mousedown', event => {
+            if (handled(event)) return;
+            longPressed = false;
+            timer = setTimeout(() => {
+                timer = null;
+                longPressed = true;
+                fire('on-long-press');
+            }, LONG_PRESS_DURATION);
+        });
+        let cancel = () => {
+            if (timer) {
+                clearTimeout(timer);
+                timer = null;
+            }
+        };
+        el.addEventListener('mouseup', cancel);
+        el.addEventListener('mouseleave', cancel);
+    }
+    fire('on-create');
+    fire('on-display');
+}
+
 function elementFromLayout(layout): HTMLElement {
     var type = layout.type;
     var tag;
@@ -473,6 +1002,12 @@ function elementFromLayout(layout): HTMLElement {
     else if (type === 'line') {
         tag = "canvas";
     }
+    else if (type === 'text-field') {
+        tag = 'input';
+    }
+    else if (type === 'text-view') {
+        tag = 'textarea';
+    }
     else {
         tag = 'div';
     }
@@ -505,6 +1040,33 @@ function elementFromLayout(layout): HTMLElement {
     }
     else if (type === 'paging') {
         
+    }
+    else if (type === 'indicator') {
+        setIndicatorStyle(el, style);
+    }
+    else if (type === 'text-field' || type === 'text-view') {
+        setTextInputStyle(<HTMLInputElement | HTMLTextAreaElement>el, style, type === 'text-view');
+    }
+    else if (type === 'switch') {
+        setSwitchStyle(el, style);
+    }
+    else if (type === 'segmented-control') {
+        setSegmentedControlStyle(el, style);
+    }
+    else if (type === 'picker') {
+        setPickerStyle(el, style);
+    }
+    else if (type === 'web-view') {
+        setWebViewStyle(el, style);
+    }
+    else if (type === 'map') {
+        setMapStyle(el, style);
+    }
+    else if (type === 'linear-gradient') {
+        setLinearGradientStyle(el, style);
+    }
+    else if (type === 'slot') {
+        setSlotStyle(el, layout);
     }
     else {
         el.textContent = type;
@@ -670,6 +1232,27 @@ var measureFuncs: { [type: string]: MeasureFunc } = {
     button: function (layout, constrainedSize) {
         return measureElement(elementFromLayout(layout), constrainedSize);
     },
+    indicator: function (layout, constrainedSize) {
+        return new flex.Size(INDICATOR_SIZE * config.scale, INDICATOR_SIZE * config.scale);
+    },
+    switch: function (layout, constrainedSize) {
+        return new flex.Size(SWITCH_SIZE.width * config.scale, SWITCH_SIZE.height * config.scale);
+    },
+    'segmented-control': function (layout, constrainedSize) {
+        let size = measureElement(elementFromLayout(layout), constrainedSize);
+        return new flex.Size(size.width, SEGMENT_HEIGHT * config.scale);
+    },
+    picker: function (layout, constrainedSize) {
+        let width = isFinite(constrainedSize.width) ? constrainedSize.width : config.screenWidth * config.scale;
+        return new flex.Size(width, PICKER_HEIGHT * config.scale);
+    },
+    'text-field': function (layout, constrainedSize) {
+        let size = measureElement(elementFromLayout(layout), constrainedSize);
+        return new flex.Size(Math.min(size.width, constrainedSize.width), size.height);
+    },
+    slot: function (layout, constrainedSize) {
+        return measureElement(elementFromLayout(layout), constrainedSize);
+    },
 };
 
 var baselineFuncs: Record<string, BaselineFunc> = {
@@ -689,6 +1272,9 @@ function didLayout(layout) {
         "width": node.resultWidth,
         "height": node.resultHeight,
     };
+    // 布局检查器中显示的盒模型
+    layout.result.margin = { top: node.resultMarginTop, left: node.resultMarginLeft, bottom: node.resultMarginBottom, right: node.resultMarginRight };
+    layout.result.padding = { top: node.resultPaddingTop, left: node.resultPaddingLeft, bottom: node.resultPaddingBottom, right: node.resultPaddingRight };
     if (layout.type && layout.type === 'text') {
         Object.assign(layout.result, {
             "paddingLeft": node.resultPaddingLeft,
@@ -707,6 +1293,8 @@ function nodeFromLayout(l) {
     l.node = node;
     if ('type' in l) {
         var measure = measureFuncs[l.type];
+        // 有子元素的 slot 由子元素决定尺寸
+        if (l.children instanceof Array && l.children.length > 0) measure = null;
         if (measure) node.setMeasure(function(constrainedSize) { return measure(l, constrainedSize); });
 
         var baseline = baselineFuncs[l.type];
@@ -824,11 +1412,17 @@ function layout(layout, width: number, height: number) {
     layout.didLayout();
 }
 
-export function render(_layout, clientWidth: number, scale: number, images: string[], cancellationToken: { isCancelled(): boolean }) {
+export function render(_layout, clientWidth: number, scale: number, images: string[], cancellationToken: { isCancelled(): boolean }, eventHandler?: EventHandler, fontScale = 1) {
     if (!_layout) return Promise.reject('empty layout');
-    config.scale = scale;
-    config.screenWidth = clientWidth;
+    let setConfig = () => {
+        config.scale = scale;
+        config.screenWidth = clientWidth;
+        config.fontScale = fontScale;
+    };
+    setConfig();
     return Promise.all(loadImages(images)).then(function() {
+        // 多个设备同时渲染时，加载图片期间配置可能已被修改
+        setConfig();
         layout(_layout, clientWidth, NaN);
         if (cancellationToken.isCancelled()) return;
         function _render(l) {
@@ -838,7 +1432,15 @@ export function render(_layout, clientWidth: number, scale: number, images: stri
             el.style.position = "absolute";
             el.classList.add('mist-node');
             el.setAttribute('data-node-index', l['node-index']);
+            if (l['node-source']) {
+                el.setAttribute('data-source-path', l['node-source'].path);
+                el.setAttribute('data-source-index', l['node-source'].index);
+            }
             setResult(el, l.result);
+            if (eventHandler && l.events) {
+                bindEvents(el, l, eventHandler);
+            }
+            setupControl(el, l, eventHandler);
             if (l.type && l.type === 'text') {
                 var style = l.style || {};
                 if (style["line-spacing"]) {
@@ -849,11 +1451,7 @@ export function render(_layout, clientWidth: number, scale: number, images: stri
             }
             if (l.children instanceof Array) {
                 var style = l.style || {};
-                let childrenCount = (l.children || []).length;
-                // TODO
-                if (l.type === 'paging' && l.children && l.children.length > 1) {
-                    l.children = l.children.slice(0, 1);
-                }
+                let pages: HTMLElement[] = [];
                 for (var i in l.children) {
                     // 避免 border 占据空间
                     if (style['border-width']) {
@@ -862,14 +1460,25 @@ export function render(_layout, clientWidth: number, scale: number, images: stri
                         l.children[i].result.top -= borderWidth;
                     }
                     const child = _render(l.children[i])
-                    if (child) {
+                    if (l.type === 'paging') {
+                        // 每个子元素作为一页，不显示的子元素也占一页
+                        let page = document.createElement('div');
+                        if (child) {
+                            page.appendChild(child);
+                        }
+                        pages.push(page);
+                    }
+                    else if (child) {
                         el.appendChild(child);
                     }
                 }
                 if (l.type === 'paging') {
-                    setPagingIndicator(el, style, childrenCount);
+                    setupPaging(el, l, pages, eventHandler);
                 }
             }
+            if (l.type === 'scroll') {
+                setupScroll(el, l, eventHandler);
+            }
             return el;
         }
         let result = _render(_layout);
@@ -884,6 +1493,17 @@ export function render(_layout, clientWidth: number, scale: number, images: stri
 }
 
 export function postRender(el: HTMLElement) {
+    // 元素加入文档后才能设置滚动位置
+    var scrolls = el.getElementsByClassName('mist-scroll');
+    for (var i = 0; i < scrolls.length; i++) {
+        var scroll = <HTMLElement>scrolls.item(i);
+        var position = scrollPositions[scroll.getAttribute('data-scroll-key')];
+        if (position) {
+            scroll.scrollLeft = position.left;
+            scroll.scrollTop = position.top;
+        }
+    }
+
     var lines = el.getElementsByClassName('line');
     for (var i = 0; i < lines.length; i++) {
         var canvas = <HTMLCanvasElement>lines.item(i);
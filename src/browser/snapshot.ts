@@ -0,0 +1,117 @@
+import { DeviceProfile, deviceFromProfile } from "./previewDevice";
+import * as flex from '../../lib/FlexLayout';
+import { render, postRender } from "./render";
+import { bindData, ComponentResolver } from "./template";
+import { ImageInfo, resolveImageFiles } from "./image";
+
+/**
+ * 生成快照时渲染一个模版需要的数据
+ */
+export type SnapshotPayload = {
+    path: string;
+    template: any;
+    data: any;
+    components: { [path: string]: any };
+    imports: { [from: string]: { [importPath: string]: string } };
+    images: { name: string, files: { [scale: number]: string } }[];
+    device: DeviceProfile;
+}
+
+export type SnapshotDiff = {
+    width: number;
+    height: number;
+    changedPixels: number;
+    // 标出变化像素的图片，data url
+    image: string;
+}
+
+// 像素的颜色差异超过该比例时认为发生了变化，忽略抗锯齿带来的细微差别
+const COLOR_THRESHOLD = 0.1;
+
+async function renderSnapshot(payload: SnapshotPayload): Promise<{ width: number, height: number }> {
+    let device = deviceFromProfile(payload.device);
+    if (!device) {
+        throw new Error(`invalid device '${JSON.stringify(payload.device)}'`);
+    }
+    let resolveComponent: ComponentResolver = (importPath, from) => {
+        let imports = payload.imports[from || payload.path] || {};
+        let path = imports[importPath];
+        return path && payload.components[path] ? { path, template: payload.components[path] } : null;
+    };
+    let binded = bindData(payload.template, payload.data, device.builtinVars(), undefined, resolveComponent);
+    let images = payload.images.map(i => new ImageInfo(i.name, i.files));
+    let imageFiles = resolveImageFiles(binded.layout, images, device.scale, '');
+
+    (window as any).flex = await flex;
+
+    let root = document.getElementById('snapshot');
+    root.innerHTML = '';
+    root.style.width = device.width + 'px';
+    let el: HTMLElement = await render(binded.layout, device.width, device.scale, imageFiles, { isCancelled: () => false });
+    root.appendChild(el);
+    postRender(el);
+    await (document as any).fonts.ready;
+    let rect = root.getBoundingClientRect();
+    return { width: Math.ceil(rect.width), height: Math.ceil(rect.height) };
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        let image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('failed to load image'));
+        image.src = url;
+    });
+}
+
+function imagePixels(image: HTMLImageElement, width: number, height: number) {
+    let canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    let context = canvas.getContext('2d');
+    context.drawImage(image, 0, 0);
+    return context.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * 比较两张图片，变化的像素标为红色，其余像素为淡化的基准图片。尺寸不同时超出的部分都算作变化
+ */
+async function diffImages(baseline: string, current: string): Promise<SnapshotDiff> {
+    let [a, b] = await Promise.all([loadImage(baseline), loadImage(current)]);
+    let width = Math.max(a.width, b.width);
+    let height = Math.max(a.height, b.height);
+    let pa = imagePixels(a, width, height);
+    let pb = imagePixels(b, width, height);
+
+    let canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    let context = canvas.getContext('2d');
+    let output = context.createImageData(width, height);
+    let changedPixels = 0;
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            let i = (y * width + x) * 4;
+            let outside = x >= a.width || y >= a.height || x >= b.width || y >= b.height;
+            let delta = 0;
+            for (let c = 0; c < 4; c++) {
+                delta = Math.max(delta, Math.abs(pa[i + c] - pb[i + c]) / 255);
+            }
+            if (outside || delta > COLOR_THRESHOLD) {
+                changedPixels++;
+                output.data.set([255, 0, 0, 255], i);
+            }
+            else {
+                let gray = (pa[i] * 0.299 + pa[i + 1] * 0.587 + pa[i + 2] * 0.114) * 0.3 + 255 * 0.7;
+                output.data.set([gray, gray, gray, 255], i);
+            }
+        }
+    }
+    context.putImageData(output, 0, 0);
+    return { width, height, changedPixels, image: canvas.toDataURL('image/png') };
+}
+
+(window as any).mistSnapshot = {
+    render: renderSnapshot,
+    diff: diffImages,
+};
@@ -341,31 +341,134 @@ export function parseExpressionInObject(obj: any) {
     return obj;
 }
 
-export function bindData(template: any, data: any, builtin: any) {
-    if (!template) return { layout: {} };
+/**
+ * 计算对象中的所有表达式，值为 null 的 key 会被去掉
+ */
+export function computeValueInObject(obj: any, context: ExpressionContext) {
+    if (obj instanceof ExpressionNode) {
+        let value = obj.computeValue(context);
+        if (value === None || value === undefined) value = null;
+        return value;
+    }
+    else if (obj instanceof Array) {
+        return obj.map(o => computeValueInObject(o, context));
+    }
+    else if (obj && obj !== None && typeof(obj) === 'object') {
+        let values = Object.keys(obj).map(k => computeValueInObject(obj[k], context));
+        return Object.keys(obj).reduce((p, c, i) => { if (values[i] !== null) p[c] = values[i]; return p; }, {});
+    }
+    return obj;
+}
+
+export type ExpressionRecord = {
+    // 表达式在模版节点中的路径，如 `['style', 'text']`
+    path: (string | number)[];
+    value: any;
+}
+
+/**
+ * 节点的一次绑定过程，`repeat` 的节点每个元素对应一次
+ */
+export type NodeTrace = {
+    vars: { [name: string]: any };
+    // 绑定节点属性时可以访问的所有变量
+    scope: { [name: string]: any };
+    item?: any;
+    index?: number;
+    state: any;
+    // `gone` 为 true 时节点不会被渲染
+    gone: boolean;
+    expressions: ExpressionRecord[];
+    // 节点来自引用的组件时，对应组件文件中的节点
+    source?: NodeSource;
+    // 节点的 `class` 按顺序合并的样式
+    classes?: ClassStyle[];
+}
+
+/**
+ * `class` 中的一个样式，`overridden` 为被后面的样式或节点自身的 `style` 覆盖的属性
+ */
+export type ClassStyle = {
+    name: string;
+    // 在 `styles` 中找不到时为 null
+    style: any;
+    overridden: string[];
+}
+
+/**
+ * 组件中的节点在组件文件中的位置
+ */
+export type NodeSource = {
+    path: string;
+    index: string;
+}
+
+export type ComponentTemplate = {
+    path: string;
+    template: any;
+}
+
+/**
+ * 查找 `import` 的组件，`from` 为引用组件的模版路径，在预览的模版中引用时为 null
+ */
+export type ComponentResolver = (importPath: string, from: string) => ComponentTemplate;
+
+type ComponentBinding = {
+    path: string;
+    params: { [name: string]: any };
+    // 传入的子元素，按插槽名称分组，默认插槽为空字符串
+    slots: { [name: string]: any[] };
+    // 正在绑定的组件路径，用于避免循环引用
+    stack: string[];
+}
+
+/**
+ * 节点的事件，事件触发时才计算
+ */
+export type NodeEvents = {
+    // 绑定节点时可以访问的变量
+    scope: { [name: string]: any };
+    actions: { [event: string]: any };
+}
+
+/**
+ * 绑定数据，`state` 不为 undefined 时代替模版中的初始状态。提供 `resolveComponent` 时 `import` 的组件会被展开
+ */
+export function bindData(template: any, data: any, builtin: any, state?: any, resolveComponent?: ComponentResolver) {
+    return bindTemplate(template, data, builtin, state, resolveComponent, null);
+}
+
+function bindTemplate(template: any, data: any, builtin: any, state: any, resolveComponent: ComponentResolver, component: ComponentBinding) {
+    if (!template) return { layout: {}, traces: {}, state: null };
     let parsedTemplate = parseExpressionInObject(template);
     let valueContext = new ExpressionContext(template['exp-version'] || 1);
-    let compute = obj => {
+    let traces: { [nodeIndex: string]: NodeTrace[] } = {};
+    // 当前正在绑定的节点的表达式记录
+    let records: ExpressionRecord[] = null;
+    let compute = (obj, path: (string | number)[] = null) => {
         if (obj instanceof ExpressionNode) {
             let value = obj.computeValue(valueContext);
             if (value === None || value === undefined) value = null;
+            if (records && path) {
+                records.push({ path, value });
+            }
             return value;
         }
         else if (obj instanceof Array) {
-            return obj.map(o => compute(o));
+            return obj.map((o, i) => compute(o, path && [...path, i]));
         }
         else if (obj && obj !== None && typeof(obj) === 'object') {
-            let values = Object.keys(obj).map(k => compute(obj[k]));
+            let values = Object.keys(obj).map(k => compute(obj[k], path && [...path, k]));
             return Object.keys(obj).reduce((p, c, i) => { if (values[i] !== null) p[c] = values[i]; return p; }, {});
         }
         return obj;
     }
-    function extract<T = any> (obj: any, defaultValue: T = null, blacklist: string[] = null): T {
+    function extract<T = any> (obj: any, defaultValue: T = null, blacklist: string[] = null, path: (string | number)[] = null): T {
         if (blacklist) {
             obj = Object.assign({}, obj);
             blacklist.forEach(k => delete obj[k]);
         }
-        let value = compute(obj);
+        let value = compute(obj, path);
         if (value === null || value === undefined) {
             value = defaultValue;
         }
@@ -386,54 +489,147 @@ export function bindData(template: any, data: any, builtin: any) {
             valueContext.push('_data_', data);
         }
     }
-    if ('state' in parsedTemplate) {
-        let state = parsedTemplate.state;
-        if (state && state instanceof (Object)) {
-            let computed = extract(state);
-            valueContext.push('state', computed);
+    if (state === undefined) {
+        state = null;
+        if (parsedTemplate.state && parsedTemplate.state instanceof (Object)) {
+            state = extract(parsedTemplate.state);
         }
     }
+    if (state !== null) {
+        valueContext.push('state', state);
+    }
+    if (component && isObject(parsedTemplate.params)) {
+        // 没有传入的参数使用声明的默认值
+        let params = Object.keys(parsedTemplate.params).reduce((p, name) => {
+            let declaration = parsedTemplate.params[name];
+            if (name in component.params) {
+                p[name] = component.params[name];
+            }
+            else if (isObject(declaration) && 'default' in declaration) {
+                p[name] = extract(declaration.default);
+            }
+            else {
+                p[name] = null;
+            }
+            return p;
+        }, {});
+        valueContext.pushDict(params);
+    }
+    let path = component ? component.path : null;
+    let stack = component ? component.stack : [];
+    let bindComponent = (node: any, index: string) => {
+        let resolved = resolveComponent(node.import, path);
+        if (!resolved || stack.indexOf(resolved.path) >= 0) return null;
+        let slots: { [name: string]: any[] } = {};
+        let injected = new Set<any>(node.children || []);
+        (node.children || []).forEach(c => {
+            let name = typeof(c.slot) === 'string' ? c.slot : '';
+            (slots[name] = slots[name] || []).push(c);
+        });
+        let result = bindTemplate(resolved.template, {}, builtin, undefined, resolveComponent, {
+            path: resolved.path,
+            params: node.params || {},
+            slots,
+            stack: [...stack, resolved.path]
+        });
+        if (!result.layout) return null;
+        // 组件中的节点使用 `import` 节点的索引作为前缀，并记录在组件文件中的位置。传入插槽的子元素属于当前模版，保持不变
+        let globalIndex = (relative: string) => relative ? `${index}|${relative}` : index;
+        let visit = (n: any) => {
+            if (!n || injected.has(n)) return;
+            let relative: string = n['node-index'];
+            n['node-index'] = globalIndex(relative);
+            n['node-source'] = n['node-source'] || { path: resolved.path, index: relative };
+            (n.children || []).forEach(visit);
+        };
+        visit(result.layout);
+        // `import` 节点本身不会被渲染，由组件的根节点代替
+        traces[index].pop();
+        Object.keys(result.traces).forEach(relative => {
+            let list = traces[globalIndex(relative)] = traces[globalIndex(relative)] || [];
+            result.traces[relative].forEach(t => list.push({ ...t, source: t.source || { path: resolved.path, index: relative } }));
+        });
+        return result.layout;
+    };
     let rootNode = parsedTemplate.layout;
-    let computeNode = (node: any, index) => {
+    let computeNode = (node: any, index, parentVars: { [name: string]: any }, nodeRecords: ExpressionRecord[] = []) => {
         if (!node) return null;
 
         node['node-index'] = index;
 
+        let trace: NodeTrace = {
+            vars: {...parentVars},
+            scope: null,
+            state: valueContext.get('state'),
+            gone: false,
+            expressions: nodeRecords
+        };
+        if (valueContext.has('_index_')) {
+            trace.item = valueContext.get('_item_');
+            trace.index = valueContext.get('_index_');
+        }
+        (traces[index] = traces[index] || []).push(trace);
+        records = nodeRecords;
+
         let vars: any[] = node.vars;
-        if (isObject(vars)) {
+        let singleVars = isObject(vars);
+        if (singleVars) {
             vars = [vars];
         }
         let pushed: any[] = [];
         let popAll = () => pushed.forEach(k => valueContext.pop(k));
         if (vars instanceof Array) {
-            vars.forEach(vs => {
-                valueContext.pushDict(extract(vs));
+            vars.forEach((vs, i) => {
+                let computed = extract(vs, null, null, singleVars ? ['vars'] : ['vars', i]);
+                valueContext.pushDict(computed);
+                Object.assign(trace.vars, computed);
                 pushed.push(...Object.keys(vs));
             });
         }
+        trace.scope = valueContext.getAll();
 
-        if (extract(node.gone)) {
+        if (extract(node.gone, null, null, ['gone'])) {
+            trace.gone = true;
+            records = null;
             popAll();
             return null;
         }
 
-        let classes = extract(node.class, '').split(' ').filter(s => s.length > 0);
+        let classes = extract(node.class, '', null, ['class']).split(' ').filter(s => s.length > 0);
         if (classes.length > 0) {
+            let ownStyle = isObject(node.style) ? node.style : {};
+            trace.classes = classes.map((name, i) => {
+                let style = isObject(styles[name]) ? styles[name] : null;
+                let overridden = style ? Object.keys(style).filter(k => k in ownStyle || classes.slice(i + 1).some(c => isObject(styles[c]) && k in styles[c])) : [];
+                return { name, style, overridden };
+            });
             let style = classes.map(c => styles[c]).filter(c => c).reduce((p, c) => { return { ...p, ...c } }, {});
             node.style = { ...style, ...node.style };
         }
 
         let children = node.children;
-        node = extract(node, null, ['vars', 'gone', 'class', 'repeat', 'children']);
+        let eventNames = Object.keys(node).filter(k => k.startsWith('on-'));
+        let events: NodeEvents = eventNames.length > 0 ? {
+            scope: trace.scope,
+            actions: eventNames.reduce((p, c) => { p[c] = node[c]; return p; }, {})
+        } : null;
+        node = extract(node, null, ['vars', 'gone', 'class', 'repeat', 'children', ...eventNames], []);
+        if (events) {
+            node.events = events;
+        }
         if (children instanceof Array) {
             let list = [];
             children.forEach((c, nodeIndex) => {
+                let childIndex = (index ? index + ',' : '') + nodeIndex;
+                let childRecords: ExpressionRecord[] = [];
                 if (c instanceof ExpressionNode) {
-                    c = extract(c);
+                    records = childRecords;
+                    c = extract(c, null, null, []);
                 }
                 if (typeof(c) === 'object') {
                     if (c.repeat) {
-                        let repeat = extract(c.repeat);
+                        records = childRecords;
+                        let repeat = extract(c.repeat, null, null, ['repeat']);
                         let count = 1;
                         let items: any[];
                         if (typeof(repeat) === 'number') {
@@ -447,22 +643,31 @@ export function bindData(template: any, data: any, builtin: any) {
                         for (var i = 0; i < count; i++) {
                             valueContext.push('_index_', i);
                             valueContext.push('_item_', items ? items[i] : null);
-                            list.push(computeNode({...c}, (index ? index + ',' : '') + nodeIndex));
+                            list.push(computeNode({...c}, childIndex, trace.vars, [...childRecords]));
                             valueContext.pop('_index_');
                             valueContext.pop('_item_');
                         }
                     }
                     else {
-                        list.push(computeNode(c, (index ? index + ',' : '') + nodeIndex));
+                        list.push(computeNode(c, childIndex, trace.vars, childRecords));
                     }
                 }
             });
-            node.children = list.filter(c => c);
+            // 插槽会被展开为多个节点
+            node.children = [].concat(...list).filter(c => c);
         }
+        records = null;
         popAll();
+        if (component && node.type === 'slot') {
+            let name = typeof(node.name) === 'string' ? node.name : '';
+            return component.slots[name] || node.children || [];
+        }
+        if (resolveComponent && typeof(node.import) === 'string') {
+            return bindComponent(node, index) || node;
+        }
         return node;
     };
 
-    let node = computeNode(rootNode, "");
-    return { layout: node };
-}
\ No newline at end of file
+    let node = computeNode(rootNode, "", {});
+    return { layout: node, traces, state };
+}
@@ -770,6 +770,10 @@ export class ObjectType extends IType {
         return this.required;
     }
 
+    public getIndexType() {
+        return this.indexType;
+    }
+
     public getProperty(name: string): Property {
         if (name in this.map) {
             return new Property(this.map[name]);
@@ -1,6 +1,9 @@
-import { commands, ExtensionContext, window, workspace, Uri, ViewColumn} from 'vscode';
+import { commands, ExtensionContext, window, workspace, Uri, ViewColumn, ProgressLocation, OutputChannel } from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
+import { buildResourcePackage, PackageResult } from './resourcePackage';
+
+let output: OutputChannel;
 
 export function registerMistTemplate(context: ExtensionContext) {
     registerMistUpload(context)
@@ -23,77 +26,133 @@ function registerMistUpload(context: ExtensionContext) {
         return;
     }
     commands.executeCommand('setContext', 'mist:hasConfig', true);
-    // context.subscriptions.push(commands.registerCommand('mist.compileUploadAll', uri => {
-    //     execTemplate(undefined);
-    // }));
-    context.subscriptions.push(commands.registerCommand('mist.compileUpload', (...args) => {
-        let result = new Array();
-        for ( const { fsPath } of args[1]) {
-            if (fsPath.indexOf('mist') > 0) {
-                result.push(fsPath);
-            }
-        }
-        if (result.length == 0) {
+    context.subscriptions.push(commands.registerCommand('mist.compileUpload', async (uri?: Uri, uris?: Uri[]) => {
+        let selected = uris && uris.length > 0 ? uris : uri ? [uri] : [];
+        let templates = selected.reduce((files, u) => files.concat(findTemplates(u.fsPath)), [] as string[]);
+        if (selected.length > 0 && templates.length == 0) {
             window.showErrorMessage("请选择需要编译的mist文件");
             return;
-       }
-       let templates = '';
-       for (const template of result) {
-            templates += `${path.basename(template)},`
-       }
-       templates = templates.substring(0, templates.length - 1);
-       execTemplate(templates);
+        }
+        await packTemplates(templates);
     }));
+}
+
+/**
+ * 文件夹中的所有模版
+ */
+function findTemplates(file: string): string[] {
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+    if (fs.statSync(file).isDirectory()) {
+        return fs.readdirSync(file).filter(f => f !== 'node_modules' && !f.startsWith('.')).reduce((files, f) => files.concat(findTemplates(path.join(file, f))), [] as string[]);
+    }
+    return file.endsWith('.mist') ? [file] : [];
+}
+
+function readConfig(configFile: string): any {
+    try {
+        return JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+    }
+    catch (e) {
+        return null;
+    }
+}
+
+/**
+ * `config.json` 中 `templates` 配置的模版，可以只写模版名称
+ */
+async function configuredTemplates(config: any): Promise<string[]> {
+    let names: string[] = config.templates || [];
+    let files: string[] = [];
+    for (let name of names) {
+        let found = await workspace.findFiles(`**/${name.endsWith('.mist') ? name : name + '.mist'}`, '**/node_modules/**', 1);
+        if (found.length === 0) {
+            window.showErrorMessage(`找不到 config.json 中配置的模版 ${name}`);
+            return null;
+        }
+        files.push(found[0].fsPath);
+    }
+    return files;
+}
 
+function defaultVersion() {
+    let date = new Date();
+    let pad = (n: number) => (n < 10 ? '0' : '') + n;
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}`;
 }
 
-function execTemplate(tpls) {
+/**
+ * 生成资源包，未选择模版时使用 `config.json` 中的 `templates`。版本号使用 `config.json` 中的 `version`，没有配置时询问
+ */
+async function packTemplates(templates: string[]) {
     let workingDir = workspace.rootPath;
-    const file = path.join(workingDir, 'config.json')
-    if (!fs.existsSync(file)) {
+    const configFile = path.join(workingDir, 'config.json')
+    let config = readConfig(configFile);
+    if (!config) {
+        window.showErrorMessage('请确保config.json文件内容格式为JSON。');
+        window.showTextDocument(Uri.file(configFile), { viewColumn: ViewColumn.Two });
         return;
     }
-    let content = fs.readFileSync(file, 'utf-8')
-    if (!content) {
+    if (templates.length === 0) {
+        if (!config.templates || config.templates.length === 0) {
+            window.showErrorMessage("请配置templates");
+            window.showTextDocument(Uri.file(configFile), { viewColumn: ViewColumn.Two });
+            return;
+        }
+        templates = await configuredTemplates(config);
+        if (!templates) return;
+    }
+
+    let version: string = config.version ? String(config.version) : await window.showInputBox({ prompt: '资源包版本号', value: defaultVersion() });
+    if (!version) return;
+    let name = config.bizCode || path.basename(workingDir);
+    let outputFile = path.join(workingDir, config.outputDir || 'build', `${name}-${version}.zip`);
+
+    let result: PackageResult;
+    try {
+        result = await window.withProgress({ location: ProgressLocation.Notification, title: '生成资源包', cancellable: true }, (progress, token) => {
+            let lastDone = 0;
+            return buildResourcePackage({
+                rootDir: workingDir,
+                templates,
+                version,
+                output: outputFile,
+                bizCode: config.noBizCode ? null : config.bizCode,
+            }, (message, done, total) => {
+                progress.report({ message, increment: (done - lastDone) / total * 100 });
+                lastDone = done;
+            }, () => token.isCancellationRequested);
+        });
+    }
+    catch (e) {
+        window.showErrorMessage(e.message || String(e));
         return;
     }
-    let jsonResult = JSON.parse(content);
-    let {templates: tplsArr} = jsonResult;
-    let templates;
-    if (tpls) {
-        templates = tpls;
-    } else if (tplsArr && tplsArr.length > 0) {
-        templates = '';
-        for ( const tpl of tplsArr) {
-            templates += `${tpl},`
+
+    if (!output) {
+        output = window.createOutputChannel('Mist Package');
+    }
+    output.clear();
+    if (result.errors.length > 0) {
+        result.errors.forEach(e => output.appendLine(`${path.relative(workingDir, e.file)}${e.platform ? ` (${e.platform})` : ''}: ${e.message}`));
+        let failed = result.errors.map(e => e.file).filter((f, i, files) => files.indexOf(f) === i);
+        let choice = await window.showErrorMessage(`${failed.length} 个模版编译失败，未生成资源包`, '查看错误', '打开模版');
+        if (choice === '查看错误') {
+            output.show();
         }
-        templates = templates.substring(0, templates.length - 1);
-    } else {
-        window.showErrorMessage("请配置templates");
-        const options = {
-            // 显示在第二个编辑器
-            viewColumn: ViewColumn.Two
+        else if (choice === '打开模版') {
+            window.showTextDocument(Uri.file(failed[0]));
         }
-        window.showTextDocument(Uri.file('config.json'), options)
         return;
     }
-    
-    let mTml = window.createTerminal("");
-    mTml.show(false);
-    mTml.sendText(`./Scripts/ziptemplate.sh ${templates}`);
-    // const git = simplegit(workspace.rootPath);
-    // git.status().then((status) => {
-    //     console.log(status);
-    //     if (status.modified.length > 0 || status.ahead > 0) {
-    //         window.showWarningMessage("当前有未提交代码，请先完成提交再操作", "确定").then(result => {
-                
-    //         })
-    //     } else {
-    //         git.pull().then((result) => {
-    //             let mTml = window.createTerminal("");
-    //             mTml.show(false);
-    //             mTml.sendText(`./Scripts/ziptemplate.sh ${templates} ${platform} ${needPreset} ${needCompress} ${clientVersion} ${iosPath} ${androidPath}`);
-    //         })
-    //     }
-    // })
-}
\ No newline at end of file
+    result.manifest.templates.forEach(t => output.appendLine(`${t.source} -> ${Object.keys(t.files).map(p => t.files[p].path).join(', ')}${t.images.length > 0 ? `，图片 ${t.images.length} 个` : ''}`));
+    output.appendLine(`> ${path.relative(workingDir, outputFile)}（版本 ${version}）`);
+    let choice = await window.showInformationMessage(`资源包已生成：${path.relative(workingDir, outputFile)}`, '在文件夹中显示', '查看详情');
+    if (choice === '在文件夹中显示') {
+        commands.executeCommand('revealFileInOS', Uri.file(outputFile));
+    }
+    else if (choice === '查看详情') {
+        output.show();
+    }
+}
@@ -1,20 +1,35 @@
 import { ExtensionContext } from "vscode"
 import * as vscode from "vscode"
 import * as fs from 'fs'
-import { compile } from "mistc"
+import { TextDocument } from 'vscode-languageserver-types'
+import { MistDocument } from './mistDocument'
+import { TemplateSourceMap, compileWithSourceMap, compileErrorRange } from './sourceMap'
 
 class CompiledPreviewDocumentProvider implements vscode.TextDocumentContentProvider {
   onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
   onDidChange = this.onDidChangeEmitter.event;
+  // key 为编译结果的 uri
+  sourceMaps: { [uri: string]: TemplateSourceMap } = {}
+  diagnostics = vscode.languages.createDiagnosticCollection('mist-compile')
 
   async provideTextDocumentContent(uri: vscode.Uri) {
     const fileName = uri.fragment
     const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(fileName))
     const content = doc.getText()
     try {
-      return await compile(fileName, { minify: false }, content) as string
+      const { output, sourceMap } = await compileWithSourceMap(fileName, content, { minify: false })
+      this.sourceMaps[uri.toString()] = sourceMap
+      this.diagnostics.delete(doc.uri)
+      return output
     } catch (error) {
-      return '编译失败：\n' + error
+      delete this.sourceMaps[uri.toString()]
+      const mistDoc = MistDocument.getDocumentByUri(doc.uri.toString())
+      const range = compileErrorRange(error, mistDoc ? mistDoc.document : TextDocument.create(doc.uri.toString(), 'mist', 0, content))
+      const vsRange = range ? new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character) : new vscode.Range(0, 0, 0, 0)
+      const diagnostic = new vscode.Diagnostic(vsRange, `模板编译错误：${error.message || error}`, vscode.DiagnosticSeverity.Error)
+      diagnostic.source = 'mistc'
+      this.diagnostics.set(doc.uri, [diagnostic])
+      return `编译失败${range ? `（第 ${range.start.line + 1} 行）` : ''}：\n` + error
     }
   }
 }
@@ -22,6 +37,7 @@ class CompiledPreviewDocumentProvider implements vscode.TextDocumentContentProvi
 export function registerCompiledPreview(context: ExtensionContext) {
   const documentProvider = new CompiledPreviewDocumentProvider()
   context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider('mist-compile', documentProvider))
+  context.subscriptions.push(documentProvider.diagnostics)
 
   context.subscriptions.push(vscode.commands.registerCommand("mist.compiledPreview", async () => {
     const fileName = vscode.window.activeTextEditor && vscode.window.activeTextEditor.document.fileName
@@ -39,8 +55,28 @@ export function registerCompiledPreview(context: ExtensionContext) {
   context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(e => {
     documentProvider.onDidChangeEmitter.fire(generateUri(e.document.fileName))
   }))
+
+  // 在编译结果中点击时，在源码中选中对应的位置
+  context.subscriptions.push(vscode.window.onDidChangeTextEditorSelection(e => {
+    const doc = e.textEditor.document
+    if (doc.uri.scheme !== 'mist-compile' || e.kind !== vscode.TextEditorSelectionChangeKind.Mouse) return
+    const sourceMap = documentProvider.sourceMaps[doc.uri.toString()]
+    const location = sourceMap && sourceMap.sourceAt(doc.offsetAt(e.selections[0].active))
+    if (location) {
+      revealSource(location.uri, new vscode.Range(location.range.start.line, location.range.start.character, location.range.end.line, location.range.end.character))
+    }
+  }))
+}
+
+async function revealSource(uri: string, range: vscode.Range) {
+  const editor = vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === uri)
+  const doc = editor ? editor.document : await vscode.workspace.openTextDocument(vscode.Uri.parse(uri))
+  const sourceEditor = await vscode.window.showTextDocument(doc, { viewColumn: editor ? editor.viewColumn : vscode.ViewColumn.One, preserveFocus: true })
+  // 节点等跨多行的范围只移动光标
+  sourceEditor.selection = range.isSingleLine ? new vscode.Selection(range.start, range.end) : new vscode.Selection(range.start, range.start)
+  sourceEditor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport)
 }
 
 function generateUri(fileName: string) {
   return vscode.Uri.parse(`mist-compile:${fileName.slice(0, -5)} (preview).mist#${fileName}`)
-}
\ No newline at end of file
+}
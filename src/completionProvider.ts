@@ -1,22 +1,18 @@
-
 'use strict';
 
 import * as vscode from 'vscode';
-import { MistDocument } from './mistDocument';
 
-export default class MistCompletionProvider implements vscode.CompletionItemProvider, vscode.HoverProvider, vscode.DefinitionProvider {
-    provideDefinition(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Definition> {
-        return MistDocument.getDocumentByUri(document.uri).provideDefinition(position, token);
-    }
-    
-    provideHover(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
-        return MistDocument.getDocumentByUri(document.uri).provideHover(position, token);
+/**
+ * 补全由语言服务提供，这里只负责在合适的时机自动弹出补全列表
+ */
+export default class MistCompletionProvider {
+    async triggerSuggest(document: vscode.TextDocument, position: vscode.Position) {
+        let list = await vscode.commands.executeCommand<vscode.CompletionList>('vscode.executeCompletionItemProvider', document.uri, position);
+        if (list && list.items.length > 0) {
+            vscode.commands.executeCommand("editor.action.triggerSuggest");
+        }
     }
 
-    provideCompletionItems(document: vscode.TextDocument, position: vscode.Position, token: vscode.CancellationToken) {
-        return MistDocument.getDocumentByUri(document.uri).provideCompletionItems(position, token);
-    }
-    
     selectionDidChange(textEditor: vscode.TextEditor) {
         if (textEditor.selection.start.compareTo(textEditor.selection.end) !== 0) {
             return;
@@ -42,12 +38,7 @@ export default class MistCompletionProvider implements vscode.CompletionItemProv
         if (!this.isTriggerCharacter(change.text)) {
             return;
         }
-        
-        let doc = textEditor.document;
-        let sel = textEditor.selection.start.translate(0, 1);
-        let items = this.provideCompletionItems(doc, sel, null);
-        if (items && items.length > 0) {
-            vscode.commands.executeCommand("editor.action.triggerSuggest");
-        }
+
+        this.triggerSuggest(textEditor.document, textEditor.selection.start.translate(0, 1));
     }
 }
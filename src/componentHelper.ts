@@ -0,0 +1,245 @@
+import * as json from 'jsonc-parser'
+import * as fs from 'fs';
+import * as path from 'path';
+import URI from 'vscode-uri';
+import { MistDocument } from './mistDocument';
+import { parseJson, getPropertyNode, getNodeValue } from './utils/json';
+
+export type ComponentParam = {
+    name: string;
+    type?: string;
+    description?: string;
+    hasDefault: boolean;
+}
+
+export type ComponentInfo = {
+    file: string;
+    params: ComponentParam[];
+    // 组件中的插槽名称，默认插槽为空字符串
+    slots: string[];
+    rootNode: json.Node;
+}
+
+function tryReadDirSync(dir: string) {
+    try {
+        return fs.readdirSync(dir)
+    }
+    catch (e) {
+        return [];
+    }
+}
+
+// 失效的符号链接等无法读取的文件不算目录
+function isDirectory(file: string) {
+    try {
+        return fs.statSync(file).isDirectory();
+    }
+    catch (e) {
+        return false;
+    }
+}
+
+function readTemplateText(file: string) {
+    let mistDoc = MistDocument.getDocumentByUri(URI.file(file).toString());
+    if (mistDoc) {
+        return mistDoc.document.getText();
+    }
+    try {
+        return fs.readFileSync(file, 'utf-8');
+    }
+    catch (e) {
+        return null;
+    }
+}
+
+function findSlots(node: json.Node, slots: string[]) {
+    if (!node || node.type !== 'object') return;
+    let typeNode = getPropertyNode(node, 'type');
+    if (typeNode && typeNode.value === 'slot') {
+        let nameNode = getPropertyNode(node, 'name');
+        slots.push(nameNode && typeof(nameNode.value) === 'string' ? nameNode.value : '');
+    }
+    let childrenNode = getPropertyNode(node, 'children');
+    if (childrenNode && childrenNode.type === 'array') {
+        childrenNode.children.forEach(c => findSlots(c, slots));
+    }
+}
+
+// 布局中所有 `import` 的路径节点，忽略使用表达式的路径
+function findImportNodes(node: json.Node, nodes: json.Node[]) {
+    if (!node || node.type !== 'object') return;
+    let importNode = getPropertyNode(node, 'import');
+    if (importNode && importNode.type === 'string' && importNode.value.indexOf('${') < 0) {
+        nodes.push(importNode);
+    }
+    let childrenNode = getPropertyNode(node, 'children');
+    if (childrenNode && childrenNode.type === 'array') {
+        childrenNode.children.forEach(c => findImportNodes(c, nodes));
+    }
+}
+
+export class ComponentHelper {
+    // 各目录下模板的 `import` 关系，key 为目录，值为每个模板直接引用的组件
+    private static importGraphs: { [dir: string]: Map<string, string[]> } = {};
+
+    /**
+     * 解析 `import` 的组件路径，先相对于当前模板目录查找，再相对于工作区根目录查找，可省略 `.mist` 后缀
+     */
+    public static resolve(importPath: string, dir: string): string {
+        if (!importPath) {
+            return null;
+        }
+        let names = importPath.endsWith('.mist') ? [importPath] : [importPath + '.mist', importPath];
+        let dirs = [dir, MistDocument.rootPath].filter(d => !!d);
+        for (let d of dirs) {
+            for (let name of names) {
+                let file = path.resolve(d, name);
+                if (fs.existsSync(file) && fs.statSync(file).isFile()) {
+                    return file;
+                }
+            }
+        }
+        return null;
+    }
+
+    public static getComponent(file: string): ComponentInfo {
+        let text = readTemplateText(file);
+        if (text === null) {
+            return null;
+        }
+        let rootNode = parseJson(text);
+        if (!rootNode || rootNode.type !== 'object') {
+            return null;
+        }
+
+        let params: ComponentParam[] = [];
+        let paramsNode = getPropertyNode(rootNode, 'params');
+        if (paramsNode && paramsNode.type === 'object') {
+            paramsNode.children.forEach(c => {
+                if (c.children.length !== 2) return;
+                let value = getNodeValue(c.children[1]);
+                value = value && typeof(value) === 'object' ? value : {};
+                params.push({
+                    name: c.children[0].value,
+                    type: typeof(value.type) === 'string' ? value.type : undefined,
+                    description: value.description,
+                    hasDefault: 'default' in value
+                });
+            });
+        }
+
+        let slots: string[] = [];
+        findSlots(getPropertyNode(rootNode, 'layout'), slots);
+
+        return { file, params, slots, rootNode };
+    }
+
+    /**
+     * 模板直接引用的组件文件，找不到的组件会被忽略
+     */
+    public static getImports(file: string): string[] {
+        let text = readTemplateText(file);
+        if (text === null) {
+            return [];
+        }
+        let rootNode = parseJson(text);
+        let nodes: json.Node[] = [];
+        findImportNodes(rootNode && getPropertyNode(rootNode, 'layout'), nodes);
+        let files = nodes.map(n => ComponentHelper.resolve(n.value, path.dirname(file))).filter(f => !!f);
+        return files.filter((f, i) => files.indexOf(f) === i);
+    }
+
+    /**
+     * 目录下直接引用了该组件的模板
+     */
+    public static getImporters(file: string, dir: string): string[] {
+        let imports = ComponentHelper.importGraph(dir);
+        return Array.from(imports.keys()).filter(f => imports.get(f).indexOf(file) >= 0);
+    }
+
+    /**
+     * 修改该组件后受影响的所有模板，即直接或间接引用了该组件的模板
+     */
+    public static getAffectedTemplates(file: string, dir: string): string[] {
+        let imports = ComponentHelper.importGraph(dir);
+        let files = Array.from(imports.keys());
+        let affected: string[] = [];
+        let queue = [file];
+        while (queue.length > 0) {
+            let current = queue.shift();
+            files.filter(f => imports.get(f).indexOf(current) >= 0 && f !== file && affected.indexOf(f) < 0).forEach(f => {
+                affected.push(f);
+                queue.push(f);
+            });
+        }
+        return affected;
+    }
+
+    /**
+     * 目录下所有模板的 `import` 关系，第一次使用时扫描目录，之后使用缓存，文件变化时需调用 `invalidateImportGraph`
+     */
+    private static importGraph(dir: string): Map<string, string[]> {
+        let imports = ComponentHelper.importGraphs[dir];
+        if (!imports) {
+            imports = new Map(ComponentHelper.findTemplateFiles(dir).map(f => [f, ComponentHelper.getImports(f)] as [string, string[]]));
+            ComponentHelper.importGraphs[dir] = imports;
+        }
+        return imports;
+    }
+
+    /**
+     * 模板修改后只重新解析该模板；新增、删除文件时组件路径的解析结果可能变化，不传 `file` 清空全部缓存
+     */
+    public static invalidateImportGraph(file?: string) {
+        if (!file) {
+            ComponentHelper.importGraphs = {};
+            return;
+        }
+        Object.keys(ComponentHelper.importGraphs).forEach(dir => {
+            let imports = ComponentHelper.importGraphs[dir];
+            if (imports.has(file)) {
+                imports.set(file, ComponentHelper.getImports(file));
+            }
+        });
+    }
+
+    /**
+     * 查找从 `from` 出发经过 `import` 回到 `target` 的引用路径，不存在时返回 null
+     */
+    public static findImportCycle(from: string, target: string, visited: string[] = []): string[] {
+        if (from === target) {
+            return [from];
+        }
+        if (visited.indexOf(from) >= 0) {
+            return null;
+        }
+        visited.push(from);
+        for (let file of ComponentHelper.getImports(from)) {
+            let cycle = ComponentHelper.findImportCycle(file, target, visited);
+            if (cycle) {
+                return [from, ...cycle];
+            }
+        }
+        return null;
+    }
+
+    /**
+     * 目录下的所有模板文件，忽略隐藏目录和 node_modules
+     */
+    public static findTemplateFiles(dir: string): string[] {
+        let files: string[] = [];
+        tryReadDirSync(dir).forEach(name => {
+            if (name.startsWith('.') || name === 'node_modules') {
+                return;
+            }
+            let file = path.join(dir, name);
+            if (name.endsWith('.mist')) {
+                files.push(file);
+            }
+            else if (isDirectory(file)) {
+                files.push(...ComponentHelper.findTemplateFiles(file));
+            }
+        });
+        return files;
+    }
+}
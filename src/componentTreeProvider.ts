@@ -0,0 +1,85 @@
+'use strict';
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ComponentHelper } from './componentHelper';
+
+type ComponentTreeNode = {
+    // 分组节点没有文件
+    file?: string;
+    label?: string;
+    direction: 'imports' | 'importers';
+    // 从根节点到当前节点经过的文件，用于发现循环引用
+    ancestors: string[];
+}
+
+/**
+ * 当前模板的组件依赖关系，包括引用的组件及引用了当前模板的模板
+ */
+export default class MistComponentTreeProvider implements vscode.TreeDataProvider<ComponentTreeNode> {
+    readonly onDidChangeTreeData: vscode.Event<ComponentTreeNode | null>;
+
+    private _onDidChangeTreeData: vscode.EventEmitter<ComponentTreeNode | null> = new vscode.EventEmitter<ComponentTreeNode | null>();
+    private file: string;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.onDidChangeTreeData = this._onDidChangeTreeData.event;
+        this.file = this.activeFile();
+    }
+
+    update() {
+        this.file = this.activeFile();
+        this._onDidChangeTreeData.fire();
+    }
+
+    getChildren(node?: ComponentTreeNode): Thenable<ComponentTreeNode[]> {
+        if (!this.file) {
+            return Promise.resolve([]);
+        }
+        if (!node) {
+            return Promise.resolve([
+                { label: '引用的组件', direction: 'imports', ancestors: [this.file] },
+                { label: '被以下模板引用', direction: 'importers', ancestors: [this.file] }
+            ] as ComponentTreeNode[]);
+        }
+        let file = node.file || this.file;
+        if (node.file && node.ancestors.indexOf(node.file) >= 0) {
+            return Promise.resolve([]);
+        }
+        let files = node.direction === 'imports' ? ComponentHelper.getImports(file) : ComponentHelper.getImporters(file, this.rootPath());
+        let ancestors = node.file ? [...node.ancestors, node.file] : node.ancestors;
+        return Promise.resolve(files.map(f => ({ file: f, direction: node.direction, ancestors })));
+    }
+
+    getTreeItem(node: ComponentTreeNode): vscode.TreeItem {
+        if (!node.file) {
+            return new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+        }
+        let isCycle = node.ancestors.indexOf(node.file) >= 0;
+        let label = path.relative(this.rootPath(), node.file).split(path.sep).join('/').replace(/\.mist$/, '');
+        let treeItem = new vscode.TreeItem(isCycle ? `${label} (循环引用)` : label, isCycle ? vscode.TreeItemCollapsibleState.None : vscode.TreeItemCollapsibleState.Collapsed);
+        treeItem.tooltip = node.file;
+        treeItem.command = {
+            command: 'vscode.open',
+            title: '',
+            arguments: [vscode.Uri.file(node.file)]
+        };
+        treeItem.iconPath = {
+            light: this.context.asAbsolutePath(path.join('media', 'light', 'import.svg')),
+            dark: this.context.asAbsolutePath(path.join('media', 'dark', 'import.svg'))
+        };
+        return treeItem;
+    }
+
+    rootPath() {
+        return vscode.workspace.rootPath || path.dirname(this.file);
+    }
+
+    private activeFile(): string {
+        let editor = vscode.window.activeTextEditor;
+        if (editor && editor.document.languageId === 'mist' && editor.document.uri.scheme === 'file') {
+            return editor.document.fileName;
+        }
+        return this.file;
+    }
+}
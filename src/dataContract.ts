@@ -0,0 +1,315 @@
+import * as json from 'jsonc-parser'
+import * as fs from 'fs';
+import * as path from 'path';
+import { SchemaObject, parseSchema, getSchemaType } from './schema';
+import { ObjectType } from './browser/type';
+import { getNodeValue } from './utils/json';
+
+export type DataContractError = {
+    message: string;
+    // 在模板文档中的位置
+    offset: number;
+    length: number;
+}
+
+/**
+ * 模板顶层 `data-type` 声明的数据结构
+ */
+export type DataContract = {
+    schema: SchemaObject;
+    type: ObjectType;
+    errors: DataContractError[];
+}
+
+type Token = {
+    kind: 'identifier' | 'string' | 'number' | 'punctuation' | 'eof';
+    value: string;
+    offset: number;
+}
+
+class TypeSyntaxError {
+    constructor(public message: string, public offset: number, public length: number) {}
+}
+
+const PRIMITIVE_TYPES: { [name: string]: SchemaObject } = {
+    'string': { type: 'string' },
+    'number': { type: 'number' },
+    'boolean': { type: 'boolean' },
+    'null': { type: 'null' },
+    'any': {},
+    'object': { type: 'object', additionalProperties: true },
+};
+
+function tokenize(source: string): Token[] {
+    let tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        let c = source[i];
+        if (/\s/.test(c)) {
+            i++;
+        }
+        else if (/[A-Za-z_$]/.test(c)) {
+            let match = source.slice(i).match(/^[\w$]+/)[0];
+            tokens.push({ kind: 'identifier', value: match, offset: i });
+            i += match.length;
+        }
+        else if (/[\d-]/.test(c)) {
+            let match = source.slice(i).match(/^-?\d+(\.\d+)?/);
+            if (!match) {
+                throw new TypeSyntaxError(`意外的字符 \`${c}\``, i, 1);
+            }
+            tokens.push({ kind: 'number', value: match[0], offset: i });
+            i += match[0].length;
+        }
+        else if (c === '"' || c === "'") {
+            let end = source.indexOf(c, i + 1);
+            if (end < 0) {
+                throw new TypeSyntaxError('字符串没有结束', i, source.length - i);
+            }
+            tokens.push({ kind: 'string', value: source.slice(i + 1, end), offset: i });
+            i = end + 1;
+        }
+        else if ('{}[]()<>:;,?|'.indexOf(c) >= 0) {
+            tokens.push({ kind: 'punctuation', value: c, offset: i });
+            i++;
+        }
+        else {
+            throw new TypeSyntaxError(`意外的字符 \`${c}\``, i, 1);
+        }
+    }
+    tokens.push({ kind: 'eof', value: '', offset: source.length });
+    return tokens;
+}
+
+function literalSchema(value: any): SchemaObject {
+    return { type: value === null ? 'null' : typeof(value), enum: [value], enumOnly: true };
+}
+
+/**
+ * 解析类似 TypeScript 的类型声明，支持基本类型、字面量、对象、数组及联合类型，例如
+ * `{ title: string; items: { name: string, price?: number }[]; status: 'on' | 'off' }`
+ */
+class TypeParser {
+    private tokens: Token[];
+    private index = 0;
+
+    constructor(source: string) {
+        this.tokens = tokenize(source);
+    }
+
+    parse(): SchemaObject {
+        let schema = this.parseUnion();
+        this.expectEnd();
+        return schema;
+    }
+
+    private get current() {
+        return this.tokens[this.index];
+    }
+
+    private accept(value: string) {
+        if (this.current.kind === 'punctuation' && this.current.value === value) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private expect(value: string) {
+        if (!this.accept(value)) {
+            throw this.error(`需要 \`${value}\``);
+        }
+    }
+
+    private expectEnd() {
+        if (this.current.kind !== 'eof') {
+            throw this.error(`意外的 \`${this.current.value}\``);
+        }
+    }
+
+    private error(message: string) {
+        let token = this.current;
+        return new TypeSyntaxError(message, token.offset, Math.max(token.value.length, 1));
+    }
+
+    private parseUnion(): SchemaObject {
+        this.accept('|');
+        let schemas = [this.parseArray()];
+        while (this.accept('|')) {
+            schemas.push(this.parseArray());
+        }
+        if (schemas.length === 1) {
+            return schemas[0];
+        }
+        // 字面量的联合类型作为枚举
+        if (schemas.every(s => s.enumOnly)) {
+            let values = [].concat(...schemas.map(s => s.enum));
+            let types = schemas.map(s => s.type).filter((t, i, arr) => arr.indexOf(t) === i);
+            return { type: types.length === 1 ? types[0] : undefined, enum: values, enumOnly: true };
+        }
+        return { oneOf: schemas };
+    }
+
+    private parseArray(): SchemaObject {
+        let schema = this.parsePrimary();
+        while (this.accept('[')) {
+            this.expect(']');
+            schema = { type: 'array', items: schema };
+        }
+        return schema;
+    }
+
+    private parsePrimary(): SchemaObject {
+        let token = this.current;
+        if (this.accept('(')) {
+            let schema = this.parseUnion();
+            this.expect(')');
+            return schema;
+        }
+        if (this.accept('{')) {
+            return this.parseObject();
+        }
+        switch (token.kind) {
+            case 'string':
+                this.index++;
+                return literalSchema(token.value);
+            case 'number':
+                this.index++;
+                return literalSchema(parseFloat(token.value));
+            case 'identifier':
+                this.index++;
+                if (token.value === 'true' || token.value === 'false') {
+                    return literalSchema(token.value === 'true');
+                }
+                if (token.value === 'Array') {
+                    this.expect('<');
+                    let items = this.parseUnion();
+                    this.expect('>');
+                    return { type: 'array', items };
+                }
+                if (token.value in PRIMITIVE_TYPES) {
+                    return { ...PRIMITIVE_TYPES[token.value] };
+                }
+                throw new TypeSyntaxError(`未知的类型 \`${token.value}\``, token.offset, token.value.length);
+            default:
+                throw this.error('需要类型');
+        }
+    }
+
+    private parseObject(): SchemaObject {
+        let schema: SchemaObject = { type: 'object', properties: {} };
+        let required: string[] = [];
+        while (!this.accept('}')) {
+            let token = this.current;
+            if (this.accept('[')) {
+                // 索引签名 `[key: string]: T`
+                if (this.current.kind !== 'identifier') {
+                    throw this.error('需要索引名称');
+                }
+                this.index++;
+                this.expect(':');
+                if (this.current.value !== 'string') {
+                    throw this.error('索引类型只能为 `string`');
+                }
+                this.index++;
+                this.expect(']');
+                this.expect(':');
+                schema.additionalProperties = this.parseUnion();
+            }
+            else if (token.kind === 'identifier' || token.kind === 'string' || token.kind === 'number') {
+                this.index++;
+                let optional = this.accept('?');
+                this.expect(':');
+                schema.properties[token.value] = this.parseUnion();
+                if (!optional) {
+                    required.push(token.value);
+                }
+            }
+            else {
+                throw this.error(token.kind === 'eof' ? '需要 `}`' : '需要属性名称');
+            }
+            if (!this.accept(';') && !this.accept(',') && !(this.current.kind === 'punctuation' && this.current.value === '}')) {
+                throw this.error('需要 `;`');
+            }
+        }
+        if (required.length > 0) {
+            schema.required = required;
+        }
+        return schema;
+    }
+}
+
+export function parseTypeDeclaration(source: string): { schema?: SchemaObject, error?: { message: string, offset: number, length: number } } {
+    try {
+        return { schema: new TypeParser(source).parse() };
+    }
+    catch (e) {
+        if (e instanceof TypeSyntaxError) {
+            return { error: { message: e.message, offset: e.offset, length: e.length } };
+        }
+        throw e;
+    }
+}
+
+export class DataContractHelper {
+    /**
+     * 读取 `data-type` 的值，可以是类型声明字符串、JSON Schema 文件路径（以 `.json` 结尾，相对于模板目录或工作区根目录）或 JSON Schema 对象。
+     * `offsetAt` 把类型声明中的位置转换为文档中的位置，字符串中有转义字符时需要传入
+     */
+    public static load(node: json.Node, dirs: string[], offsetAt = (offset: number) => node.offset + 1 + offset): DataContract {
+        let errors: DataContractError[] = [];
+        let nodeError = (message: string) => errors.push({ message, offset: node.offset, length: node.length });
+        let schema: SchemaObject;
+        if (node.type === 'string' && node.value.trim().endsWith('.json')) {
+            schema = DataContractHelper.readSchemaFile(node.value.trim(), dirs, nodeError);
+        }
+        else if (node.type === 'string') {
+            let result = parseTypeDeclaration(node.value);
+            if (result.error) {
+                let start = offsetAt(result.error.offset);
+                errors.push({ ...result.error, offset: start, length: offsetAt(result.error.offset + result.error.length) - start });
+            }
+            schema = result.schema;
+        }
+        else if (node.type === 'object') {
+            schema = parseSchema(getNodeValue(node)) as SchemaObject;
+        }
+        // JSON Schema 中有 `properties` 时可以省略 `"type": "object"`
+        if (schema && schema.type === undefined && schema.properties) {
+            schema = { ...schema, type: 'object' };
+        }
+        if (schema && schema.type !== 'object') {
+            nodeError('数据类型必须为对象');
+            schema = null;
+        }
+        return schema || errors.length > 0 ? { schema, type: schema ? getSchemaType(schema) as ObjectType : null, errors } : null;
+    }
+
+    /**
+     * `data-type` 引用的 JSON Schema 文件，不是文件路径或者找不到文件时返回 null
+     */
+    public static schemaFile(node: json.Node, dirs: string[]): string {
+        if (node.type !== 'string' || !node.value.trim().endsWith('.json')) {
+            return null;
+        }
+        return DataContractHelper.findFile(node.value.trim(), dirs);
+    }
+
+    private static findFile(file: string, dirs: string[]): string {
+        return dirs.filter(d => !!d).map(d => path.resolve(d, file)).find(f => fs.existsSync(f)) || null;
+    }
+
+    private static readSchemaFile(file: string, dirs: string[], error: (message: string) => void): SchemaObject {
+        let found = DataContractHelper.findFile(file, dirs);
+        if (!found) {
+            error(`找不到数据类型定义文件 \`${file}\``);
+            return null;
+        }
+        let schema = json.parse(fs.readFileSync(found, 'utf-8'));
+        if (!schema || typeof(schema) !== 'object') {
+            error(`\`${file}\` 不是有效的 JSON Schema`);
+            return null;
+        }
+        return parseSchema(schema) as SchemaObject;
+    }
+}
@@ -0,0 +1,87 @@
+import { TextDocument, Range } from 'vscode-languageserver-types';
+import { LogLevel } from './browser/protocol';
+import { nodeRanges } from './previewTemplate';
+import { lineRange } from './utils/document';
+
+export type DeviceReport = {
+    level: LogLevel;
+    path: string;
+    message: string;
+    nodePath?: string;
+    expression?: string;
+}
+
+function escapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 把客户端上报的日志和运行时错误定位到模版源码
+ */
+export class DeviceLogHelper {
+    /**
+     * 把上报中的节点路径转换为 `node-index`，支持 `0,1,2`、`layout.children[0].children[1]`、`children/0/children/1` 等形式，
+     * 根节点为空字符串，无法识别时返回 null
+     */
+    public static nodeIndex(nodePath: string): string {
+        if (typeof(nodePath) !== 'string') {
+            return null;
+        }
+        nodePath = nodePath.replace(/\s/g, '');
+        if (/^(\d+(,\d+)*)?$/.test(nodePath)) {
+            return nodePath;
+        }
+        let indexes: string[] = [];
+        let re = /children\W*(\d+)/g;
+        let match: RegExpExecArray;
+        while (match = re.exec(nodePath)) {
+            indexes.push(match[1]);
+        }
+        if (indexes.length === 0 && !/^\W*layout\W*$/.test(nodePath)) {
+            return null;
+        }
+        return indexes.join(',');
+    }
+
+    /**
+     * 在指定范围内查找表达式，忽略空白字符的差异，`${}` 可有可无
+     */
+    public static findExpression(text: string, expression: string, start = 0, end = text.length): { offset: number, length: number } {
+        let inner = expression.trim().replace(/^\$\{([\s\S]*)\}$/, '$1').replace(/\s/g, '');
+        if (!inner) {
+            return null;
+        }
+        let re = new RegExp(inner.split('').map(escapeRegExp).join('\\s*'), 'g');
+        re.lastIndex = start;
+        let match = re.exec(text);
+        if (!match || match.index + match[0].length > end) {
+            return null;
+        }
+        return { offset: match.index, length: match[0].length };
+    }
+
+    /**
+     * 上报对应的源码范围。有表达式时优先定位到节点中的表达式，否则定位到节点的第一行，都找不到时返回 null。
+     * 已经通过编译结果的映射找到节点时传入 `nodeRange`，否则按源码中的 `node-index` 查找
+     */
+    public static rangeOf(document: TextDocument, report: DeviceReport, nodeRange?: Range): Range {
+        let text = document.getText();
+        if (nodeRange === undefined) {
+            let index = DeviceLogHelper.nodeIndex(report.nodePath);
+            nodeRange = index !== null ? nodeRanges(document)[index] : null;
+        }
+        if (report.expression) {
+            let found = nodeRange ? DeviceLogHelper.findExpression(text, report.expression, document.offsetAt(nodeRange.start), document.offsetAt(nodeRange.end)) : null;
+            // 表达式可能来自节点之外，如 `data`、`state` 或 `vars`
+            found = found || DeviceLogHelper.findExpression(text, report.expression);
+            if (found) {
+                return Range.create(document.positionAt(found.offset), document.positionAt(found.offset + found.length));
+            }
+        }
+        if (!nodeRange) {
+            return null;
+        }
+        let line = lineRange(document, nodeRange.start.line);
+        return Range.create(nodeRange.start, nodeRange.start.line === nodeRange.end.line ? nodeRange.end : line.end);
+    }
+}
@@ -1,52 +1,56 @@
 'use strict';
 
-import * as vscode from 'vscode';
+import { TextDocument, Diagnostic, DiagnosticSeverity, Position, Range } from 'vscode-languageserver-types';
 import * as json from 'jsonc-parser'
+import * as path from 'path';
 import { MistDocument, JsonString } from './mistDocument';
 import { NodeSchema } from './template_schema';
+import { translate, lineText, getFileName } from './utils/document';
+import { MistRules, RuleId } from './rules';
+import { MockDataHelper } from './mockDataHelper';
 
 export default class MistDiagnosticProvider {
-    private diagnosticCollection: vscode.DiagnosticCollection;
-    private _waiting = false;
+    private _waiting: Set<string> = new Set();
     private ignoreMap: Map<number, boolean> = new Map()
 
-    constructor(private context: vscode.ExtensionContext) {
-        this.diagnosticCollection = vscode.languages.createDiagnosticCollection('mist');
-        vscode.workspace.textDocuments.forEach(d => this.validate(d));
+    constructor(private publish: (uri: string, diagnostics: Diagnostic[]) => void = () => {}) {
     }
 
-    dispose() {
-        this.diagnosticCollection.dispose();
-    }
-
-    public async validate(document: vscode.TextDocument) {
+    public async validate(document: TextDocument): Promise<Diagnostic[]> {
+        if (MockDataHelper.isMockFile(document.uri)) {
+            await NodeSchema.setCurrentDir(path.dirname(getFileName(document.uri)));
+            return MistRules.applySeverities(MockDataHelper.validate(document), NodeSchema.getRulesConfig().rules);
+        }
         if (document.languageId !== 'mist') {
-            return;
+            return [];
         }
 
         let mistDoc = MistDocument.getDocumentByUri(document.uri);
+        if (!mistDoc) {
+            return [];
+        }
         await NodeSchema.setCurrentDir(mistDoc.dir());
 
-        let errors: vscode.Diagnostic[] = [];
+        let errors: Diagnostic[] = [];
         let objectStack = [];
         let currentProperty: string;
         let range = (offset, length) => {
             let start = document.positionAt(offset);
-            return new vscode.Range(start, start.translate(0, length));
+            return Range.create(start, translate(start, 0, length));
         }
 
         function checkString(offset: number, length: number) {
             let jsonString = new JsonString(document.getText().substr(offset + 1, length - 2));
             if (jsonString.errors.length > 0) {
                 jsonString.errors.forEach(e => {
-                    errors.push(new vscode.Diagnostic(range(offset + e.offset + 1, e.length), e.description, vscode.DiagnosticSeverity.Error));
+                    errors.push(Diagnostic.create(range(offset + e.offset + 1, e.length), e.description, DiagnosticSeverity.Error, RuleId.StringEscape));
                 });
             }
         }
 
         json.visit(document.getText(), {
             onError(error: json.ParseErrorCode, offset: number, length: number) {
-                errors.push(new vscode.Diagnostic(range(offset, length), json.getParseErrorMessage(error), vscode.DiagnosticSeverity.Error));
+                errors.push(Diagnostic.create(range(offset, length), json.getParseErrorMessage(error), DiagnosticSeverity.Error, RuleId.JsonSyntax));
             },
             onObjectBegin (offset: number, length: number) {
                 objectStack.push([]);
@@ -60,7 +64,7 @@ export default class MistDiagnosticProvider {
                 currentProperty = property;
                 let object: string[] = objectStack[objectStack.length - 1];
                 if (object.indexOf(property) >= 0) {
-                    errors.push(new vscode.Diagnostic(range(offset, length), `Duplicate object key '${property}'`, vscode.DiagnosticSeverity.Warning));
+                    errors.push(Diagnostic.create(range(offset, length), `Duplicate object key '${property}'`, DiagnosticSeverity.Warning, RuleId.DuplicateKey));
                 }
                 object.push(property);
             },
@@ -70,43 +74,67 @@ export default class MistDiagnosticProvider {
 
                     let match = value.match(/\$\{(?:[^}]|[\r\n])*/m);
                     if (match && match[0].length === value.length) {
-                        errors.push(new vscode.Diagnostic(range(offset + length - 1, 1), 'unclosed expression', vscode.DiagnosticSeverity.Error));
+                        errors.push(Diagnostic.create(range(offset + length - 1, 1), 'unclosed expression', DiagnosticSeverity.Error, RuleId.UnclosedExpression));
                     }
                 }
             }
         });
 
-        let expAnalyseErrors = mistDoc ? mistDoc.validate() : [];
+        let { rules, customRules } = NodeSchema.getRulesConfig();
+        let expAnalyseErrors = [...mistDoc.validate(), ...MistRules.runCustomRules(mistDoc, customRules)];
 
-        expAnalyseErrors = expAnalyseErrors.filter(e => !this.hasIgnore(document, e.range.start))
+        expAnalyseErrors = expAnalyseErrors.filter(e => !this.hasIgnore(document, e.range.start, e.code as string))
 
-        const diagnostics = [...errors, ...expAnalyseErrors]
-        this.diagnosticCollection.set(document.uri, diagnostics);
+        return MistRules.applySeverities([...errors, ...expAnalyseErrors], rules)
     }
 
-    hasIgnore(document: vscode.TextDocument, position: vscode.Position) {
+    /**
+     * 按 `// @ignore` 注释和规则配置过滤模板检查的结果，与显示的诊断信息一致，需要先设置 `NodeSchema` 的当前目录
+     */
+    filter(document: TextDocument, diagnostics: Diagnostic[]): Diagnostic[] {
+        let { rules } = NodeSchema.getRulesConfig();
+        return MistRules.applySeverities(diagnostics.filter(d => !this.hasIgnore(document, d.range.start, d.code as string)), rules)
+    }
+
+    /**
+     * 上一行的 `// @ignore` 注释忽略该行的所有问题，`// @ignore rule-a, rule-b` 只忽略指定的规则
+     */
+    hasIgnore(document: TextDocument, position: Position, code?: string) {
         if (position.line === 0) return false
 
-        const text = document.lineAt(position.line - 1).text
+        const text = lineText(document, position.line - 1)
         const scanner = json.createScanner(text, false)
         let type: json.SyntaxKind
         do {
             type = scanner.scan()
             if (type === json.SyntaxKind.LineCommentTrivia) {
                 const comment = scanner.getTokenValue().trim()
-                return comment.match(/^\/\/\s*@ignore\b/)
+                const match = comment.match(/^\/\/\s*@ignore\b(.*)$/)
+                if (!match) return false
+                // 注释后面可能是说明文字，不包含规则 id 格式的文字时才忽略所有问题
+                const ids = match[1].split(/[\s,]+/).filter(id => MistRules.looksLikeRuleId(id))
+                return ids.length === 0 || ids.indexOf(code) >= 0
             }
         } while (type !== json.SyntaxKind.EOF)
 
         return false
     }
 
-    onChange(document: vscode.TextDocument) {
-        if (!this._waiting) {
-            this._waiting = true;
-            setTimeout(() => {
-                this._waiting = false;
-                this.validate(document);
+    onChange(document: TextDocument) {
+        if (!this._waiting.has(document.uri)) {
+            this._waiting.add(document.uri);
+            setTimeout(async () => {
+                this._waiting.delete(document.uri);
+                // 等待期间文档可能已经关闭，关闭时已经清除了诊断信息
+                if (document.languageId === 'mist' && !MistDocument.getDocumentByUri(document.uri)) {
+                    return;
+                }
+                try {
+                    this.publish(document.uri, await this.validate(document));
+                }
+                catch (e) {
+                    console.error(`validate '${document.uri}' failed: ${e}`);
+                }
             }, 200);
         }
     }
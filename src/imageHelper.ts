@@ -1,6 +1,6 @@
 import * as json from 'jsonc-parser'
-import * as vscode from 'vscode'
-import { MistDocument } from './mistDocument';
+import { CompletionItemKind } from 'vscode-languageserver-types'
+import { MistDocument, completionItem } from './mistDocument';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ImageInfo } from './browser/image';
@@ -173,19 +173,19 @@ function getImageFiles(dir: string): ImageInfo[] {
 }
 
 export class ImageHelper {
-    public static getImageFiles(document: vscode.TextDocument) {
-        let dir = document.fileName ? path.dirname(document.fileName) : vscode.workspace.rootPath;
+    public static getImageFiles(document: MistDocument) {
+        let dir = document.dir();
         if (!dir) {
             return [];
         }
         return getImageFiles(dir);
     }
 
-    public static imageUriWithName(document: vscode.TextDocument, name: string, scale: number): {
+    public static imageUriWithName(document: MistDocument, name: string, scale: number): {
         scale: number,
         file: string
     } {
-        let dir = document.fileName ? path.dirname(document.fileName) : vscode.workspace.rootPath;
+        let dir = document.dir();
         if (!dir) {
             return null;
         }
@@ -193,14 +193,14 @@ export class ImageHelper {
         return ImageInfo.findImage(images, name, scale);
     }
 
-    public static provideCompletionItems(document: MistDocument, token: vscode.CancellationToken) {
+    public static provideCompletionItems(document: MistDocument) {
         let dir = document.dir();
         if (!dir) {
             return [];
         }
         let images = getImageFiles(dir);
         return images.map(info => {
-            let item = new vscode.CompletionItem(info.name, vscode.CompletionItemKind.File);
+            let item = completionItem(info.name, CompletionItemKind.File);
             item.detail = info.name;
             item.documentation = Object.keys(info.files).map(k => info.files[k]).join('\n');
             return item;
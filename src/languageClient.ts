@@ -0,0 +1,86 @@
+'use strict';
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ExtensionContext } from 'vscode';
+import { LanguageClient, LanguageClientOptions, ServerOptions, TransportKind } from 'vscode-languageclient';
+import { MistDocument } from './mistDocument';
+
+export let languageClient: LanguageClient
+
+const TRUST_CUSTOM_RULES_KEY = 'mist.trustCustomRules';
+
+export function registerLanguageClient(context: ExtensionContext) {
+    const serverModule = context.asAbsolutePath(path.join('out', 'src', 'languageServer.js'));
+    const serverOptions: ServerOptions = {
+        run: { module: serverModule, transport: TransportKind.stdio },
+        debug: { module: serverModule, transport: TransportKind.stdio, options: { execArgv: ['--nolazy', '--inspect=6009'] } }
+    };
+    const clientOptions: LanguageClientOptions = {
+        initializationOptions: {
+            trustCustomRules: context.workspaceState.get(TRUST_CUSTOM_RULES_KEY) === true
+        },
+        documentSelector: [
+            { scheme: 'file', language: 'mist' },
+            { scheme: 'untitled', language: 'mist' },
+            { scheme: 'file', pattern: '**/*.mock.json' }
+        ],
+        synchronize: {
+            configurationSection: 'mist',
+            fileEvents: vscode.workspace.createFileSystemWatcher('**/*.json')
+        }
+    };
+
+    languageClient = new LanguageClient('mist', 'Mist Language Server', serverOptions, clientOptions);
+    context.subscriptions.push(languageClient.start());
+
+    languageClient.onReady().then(() => {
+        languageClient.onNotification('mist/dataChanged', () => vscode.commands.executeCommand('mist.updateInlineValues'));
+        languageClient.onNotification('mist/untrustedCustomRules', (params: { files: string[] }) => {
+            // 已经选择过不信任时不再询问，可以通过命令重新选择
+            if (context.workspaceState.get(TRUST_CUSTOM_RULES_KEY) === undefined) {
+                confirmTrustCustomRules(context, params.files);
+            }
+        });
+    });
+    context.subscriptions.push(vscode.commands.registerCommand('mist.trustCustomRules', () => confirmTrustCustomRules(context)));
+}
+
+/**
+ * 询问是否信任 mist-extension.json 中配置的自定义规则，选择保存在工作区状态中
+ */
+async function confirmTrustCustomRules(context: ExtensionContext, files?: string[]) {
+    let names = files ? files.map(f => vscode.workspace.asRelativePath(f)).join(', ') : 'mist-extension.json 中配置的自定义规则';
+    let choice = await vscode.window.showWarningMessage(`自定义规则 ${names} 会在插件中执行工作区中的代码，是否信任并启用？`, '信任', '不信任');
+    if (!choice) return;
+    let trusted = choice === '信任';
+    await context.workspaceState.update(TRUST_CUSTOM_RULES_KEY, trusted);
+    languageClient.sendNotification('mist/trustCustomRules', { trusted });
+}
+
+/**
+ * 通知语言服务当前模板选择的数据
+ */
+export function notifyDataSelected(doc: MistDocument) {
+    let data = doc.getData();
+    if (!languageClient || !data) return;
+    languageClient.onReady().then(() => {
+        languageClient.sendNotification('mist/selectData', { uri: doc.document.uri, file: data.file, index: data.index || 0 });
+    });
+}
+
+/**
+ * 使用模板当前选择的数据计算的表达式的值，`offset` 为表达式结束的位置
+ */
+export async function getExpressionValues(uri: string, builtin: any): Promise<{ offset: number, value: any }[]> {
+    await languageClient.onReady();
+    return languageClient.sendRequest<{ offset: number, value: any }[]>('mist/expressionValues', { uri, builtin });
+}
+
+/**
+ * 检查工作区中的所有模板，返回检查的文件数
+ */
+export async function validateWorkspace(): Promise<number> {
+    await languageClient.onReady();
+    return languageClient.sendRequest<number>('mist/validateWorkspace');
+}
@@ -0,0 +1,234 @@
+'use strict';
+
+import { createConnection, ProposedFeatures, TextDocuments, TextDocumentSyncKind, TextDocument, FileChangeType, ResponseError, ErrorCodes, CodeActionKind } from 'vscode-languageserver';
+import URI from 'vscode-uri';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MistDocument, MistData, FIX_ALL_ACTION_KIND } from './mistDocument';
+import MistDiagnosticProvider from './diagnosticProvider';
+import { getFileName, readTextDocument } from './utils/document';
+import { MistRules } from './rules';
+import { MockDataHelper } from './mockDataHelper';
+import { NodeSchema } from './template_schema';
+
+const connection = createConnection(ProposedFeatures.all);
+const documents = new TextDocuments();
+
+// stdout 被用作通信通道，日志需要转发到客户端
+console.log = connection.console.log.bind(connection.console);
+console.info = connection.console.info.bind(connection.console);
+console.warn = connection.console.warn.bind(connection.console);
+console.error = connection.console.error.bind(connection.console);
+
+const diagnosticProvider = new MistDiagnosticProvider((uri, diagnostics) => {
+    connection.sendDiagnostics({ uri, diagnostics });
+});
+
+function mistDocumentAt(uri: string) {
+    return MistDocument.getDocumentByUri(uri);
+}
+
+// MistDocument 通过异常说明请求无法完成的原因，需要转为错误响应展示给用户
+function tryRequest<T>(request: () => T): T | ResponseError<void> {
+    try {
+        return request();
+    }
+    catch (e) {
+        return new ResponseError<void>(ErrorCodes.InvalidRequest, e.message);
+    }
+}
+
+connection.onInitialize(params => {
+    let rootPath = params.rootUri ? getFileName(params.rootUri) : params.rootPath;
+    MistDocument.initialize(rootPath);
+    MistRules.setTrusted(!!(params.initializationOptions && params.initializationOptions.trustCustomRules));
+
+    return {
+        capabilities: {
+            textDocumentSync: TextDocumentSyncKind.Full,
+            completionProvider: {
+                resolveProvider: false
+            },
+            hoverProvider: true,
+            definitionProvider: true,
+            signatureHelpProvider: {
+                triggerCharacters: ['(', ',']
+            },
+            referencesProvider: true,
+            documentHighlightProvider: true,
+            renameProvider: {
+                prepareProvider: true
+            },
+            codeActionProvider: {
+                codeActionKinds: [CodeActionKind.QuickFix, FIX_ALL_ACTION_KIND]
+            }
+        }
+    };
+});
+
+documents.onDidOpen(event => {
+    MistDocument.onDidOpenTextDocument(event.document);
+    diagnosticProvider.onChange(event.document);
+});
+
+documents.onDidClose(event => {
+    MistDocument.onDidCloseTextDocument(event.document);
+    connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+});
+
+documents.onDidChangeContent(event => {
+    MistDocument.onDidChangeTextDocument(event.document);
+    diagnosticProvider.onChange(event.document);
+    // mock 数据的检查依赖模板中的表达式
+    if (event.document.languageId === 'mist') {
+        documents.all().filter(d => MockDataHelper.isMockFile(d.uri)).forEach(d => diagnosticProvider.onChange(d));
+    }
+});
+
+documents.onDidSave(event => {
+    // 保存的模板可能被其他模板作为组件引用，需要重新检查所有打开的模板
+    documents.all().forEach(document => diagnosticProvider.onChange(document));
+});
+
+connection.onDidChangeWatchedFiles(params => {
+    let changed = params.changes.filter(c => c.type !== FileChangeType.Deleted && c.uri.endsWith('.json'));
+    if (changed.length === 0) {
+        return;
+    }
+    changed.forEach(c => MistData.openFile(getFileName(c.uri)));
+    Object.keys(MistDocument.documents).forEach(uri => {
+        let mistDoc = MistDocument.documents[uri];
+        if (mistDoc) {
+            diagnosticProvider.onChange(mistDoc.document);
+        }
+    });
+    // 客户端显示的表达式的值依赖数据文件
+    connection.sendNotification('mist/dataChanged');
+});
+
+// 每次启动只询问一次是否信任自定义规则
+let untrustedNotified = false;
+MistRules.onUntrusted(files => {
+    if (!untrustedNotified) {
+        untrustedNotified = true;
+        connection.sendNotification('mist/untrustedCustomRules', { files });
+    }
+});
+
+connection.onNotification('mist/trustCustomRules', (params: { trusted: boolean }) => {
+    MistRules.setTrusted(params.trusted);
+    documents.all().forEach(document => diagnosticProvider.onChange(document));
+});
+
+// 工作区设置中的 `mist.rules` 修改后重新检查所有打开的模板
+connection.onDidChangeConfiguration(params => {
+    let settings = params.settings && params.settings.mist;
+    MistRules.setSettings(settings && settings.rules);
+    documents.all().forEach(document => diagnosticProvider.onChange(document));
+});
+
+connection.onCompletion(params => {
+    if (MockDataHelper.isMockFile(params.textDocument.uri)) {
+        return MockDataHelper.provideCompletionItems(documents.get(params.textDocument.uri), params.position);
+    }
+    let mistDoc = mistDocumentAt(params.textDocument.uri);
+    return mistDoc ? mistDoc.provideCompletionItems(params.position) : null;
+});
+
+connection.onHover(params => {
+    if (MockDataHelper.isMockFile(params.textDocument.uri)) {
+        return MockDataHelper.provideHover(documents.get(params.textDocument.uri), params.position);
+    }
+    let mistDoc = mistDocumentAt(params.textDocument.uri);
+    return mistDoc ? mistDoc.provideHover(params.position) : null;
+});
+
+connection.onDefinition(params => {
+    let mistDoc = mistDocumentAt(params.textDocument.uri);
+    return mistDoc ? mistDoc.provideDefinition(params.position) : null;
+});
+
+connection.onSignatureHelp(params => {
+    let mistDoc = mistDocumentAt(params.textDocument.uri);
+    return mistDoc ? mistDoc.provideSignatureHelp(params.position) : null;
+});
+
+connection.onReferences(params => {
+    let mistDoc = mistDocumentAt(params.textDocument.uri);
+    return mistDoc ? mistDoc.provideReferences(params.position, params.context.includeDeclaration) : null;
+});
+
+connection.onDocumentHighlight(params => {
+    let mistDoc = mistDocumentAt(params.textDocument.uri);
+    return mistDoc ? mistDoc.provideDocumentHighlights(params.position) : null;
+});
+
+connection.onPrepareRename(params => {
+    let mistDoc = mistDocumentAt(params.textDocument.uri);
+    return mistDoc ? tryRequest(() => mistDoc.prepareRename(params.position)) : null;
+});
+
+connection.onRenameRequest(params => {
+    let mistDoc = mistDocumentAt(params.textDocument.uri);
+    return mistDoc ? tryRequest(() => mistDoc.provideRenameEdits(params.position, params.newName)) : null;
+});
+
+connection.onCodeAction(async params => {
+    let mistDoc = mistDocumentAt(params.textDocument.uri);
+    if (!mistDoc) {
+        return null;
+    }
+    // 修复所有问题时与诊断信息一样，跳过忽略和关闭的规则
+    await NodeSchema.setCurrentDir(mistDoc.dir());
+    return mistDoc.provideCodeActions(params.range, params.context.diagnostics, params.context.only, (document, diagnostics) => diagnosticProvider.filter(document, diagnostics));
+});
+
+// 客户端切换了模拟数据，表达式的类型推断依赖当前选择的数据
+connection.onNotification('mist/selectData', (params: { uri: string, file: string, index: number }) => {
+    let mistDoc = mistDocumentAt(params.uri);
+    if (!mistDoc) {
+        return;
+    }
+    let data = mistDoc.getDatas().find(d => d.file === params.file && (d.index || 0) === (params.index || 0));
+    if (data) {
+        mistDoc.setData(data);
+        diagnosticProvider.onChange(mistDoc.document);
+    }
+});
+
+// 使用当前选择的数据计算布局中表达式的值，用于在编辑器中显示
+connection.onRequest('mist/expressionValues', (params: { uri: string, builtin: any }) => {
+    let mistDoc = mistDocumentAt(params.uri);
+    return mistDoc ? tryRequest(() => mistDoc.getExpressionValues(params.builtin)) : [];
+});
+
+// 检查工作区根目录下的所有模板，返回检查的文件数
+connection.onRequest('mist/validateWorkspace', async () => {
+    let rootPath = MistDocument.rootPath;
+    if (!rootPath) {
+        return 0;
+    }
+    let files = fs.readdirSync(rootPath).filter(f => f.endsWith('.mist')).map(f => path.join(rootPath, f));
+    for (let file of files) {
+        let uri = URI.file(file).toString();
+        let document: TextDocument = documents.get(uri);
+        // 未打开的文件检查完后移除，避免文档缓存一直增长
+        let temporary = !document;
+        if (temporary) {
+            document = readTextDocument(file);
+            MistDocument.onDidOpenTextDocument(document);
+        }
+        try {
+            connection.sendDiagnostics({ uri, diagnostics: await diagnosticProvider.validate(document) });
+        }
+        finally {
+            if (temporary) {
+                MistDocument.onDidCloseTextDocument(document);
+            }
+        }
+    }
+    return files.length;
+});
+
+documents.listen(connection);
+connection.listen();
@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import * as ws from 'ws';
+import { ClientKind, Platform, encodeMessage, decodeMessage } from './browser/protocol';
+
+export type LiveReloadClient = {
+    id: number;
+    socket: ws;
+    // 发送 hello 之前为 null，不接收推送
+    kind: ClientKind;
+    platform?: Platform;
+    name: string;
+    address: string;
+    templates?: string[];
+    connectedAt: Date;
+}
+
+type MessageHandler = (client: LiveReloadClient, message: any) => void;
+
+/**
+ * 管理预览和真机的实时刷新连接，预览的 WebSocket 服务器和调试服务器上的连接都接入这里
+ */
+export class LiveReloadHub {
+    private static _sharedInstance: LiveReloadHub;
+
+    private _clients: LiveReloadClient[] = [];
+    private _handlers: { [type: string]: MessageHandler[] } = {};
+    private _lastId = 0;
+    private _onDidCloseClient = new vscode.EventEmitter<LiveReloadClient>();
+
+    public readonly onDidCloseClient = this._onDidCloseClient.event;
+
+    public static get sharedInstance(): LiveReloadHub {
+        if (!this._sharedInstance) {
+            this._sharedInstance = new LiveReloadHub();
+        }
+        return this._sharedInstance;
+    }
+
+    /**
+     * 已经发送 hello 的客户端
+     */
+    public clients(kind?: ClientKind) {
+        return this._clients.filter(c => c.kind && (!kind || c.kind === kind));
+    }
+
+    public attach(server: ws.Server) {
+        server.on('connection', socket => this.accept(socket));
+    }
+
+    /**
+     * 注册客户端消息的处理，`hello` 的处理在客户端加入列表之后调用
+     */
+    public on(type: string, handler: MessageHandler): vscode.Disposable {
+        let handlers = this._handlers[type] = this._handlers[type] || [];
+        handlers.push(handler);
+        return new vscode.Disposable(() => handlers.splice(handlers.indexOf(handler), 1));
+    }
+
+    public send(client: LiveReloadClient, type: string, params: {} = {}) {
+        if (client.socket.readyState === ws.OPEN) {
+            client.socket.send(encodeMessage(type, params));
+        }
+    }
+
+    /**
+     * 推送消息给符合条件的客户端
+     */
+    public broadcast(type: string, params: {} = {}, filter: (client: LiveReloadClient) => boolean = () => true) {
+        this.clients().filter(filter).forEach(c => this.send(c, type, params));
+    }
+
+    private accept(socket: ws) {
+        let request = socket.upgradeReq;
+        let client: LiveReloadClient = {
+            id: ++this._lastId,
+            socket,
+            kind: null,
+            name: null,
+            address: request && request.connection.remoteAddress,
+            connectedAt: new Date(),
+        };
+        this._clients.push(client);
+        socket.on('message', (text: string) => {
+            let message: any;
+            try {
+                message = decodeMessage(text);
+            }
+            catch (e) {
+                this.send(client, 'error', { path: null, message: e.message });
+                return;
+            }
+            if (message.type === 'hello') {
+                if (message.kind !== 'webview' && message.kind !== 'device') {
+                    this.send(client, 'error', { path: null, message: `未知的客户端类型 ${message.kind}` });
+                    return;
+                }
+                client.kind = message.kind;
+                client.platform = message.platform === 'android' ? 'android' : 'ios';
+                client.name = message.name || client.address;
+                client.templates = message.templates instanceof Array && message.templates.length > 0 ? message.templates : null;
+            }
+            else if (!client.kind) {
+                this.send(client, 'error', { path: null, message: '请先发送 hello 消息' });
+                return;
+            }
+            // 处理出错不能影响其他处理和连接
+            (this._handlers[message.type] || []).forEach(handler => {
+                try {
+                    handler(client, message);
+                }
+                catch (e) {
+                    console.error(`failed to handle '${message.type}' message: ${e.stack || e}`);
+                }
+            });
+        });
+        socket.on('close', () => {
+            let index = this._clients.indexOf(client);
+            if (index >= 0) this._clients.splice(index, 1);
+            if (client.kind) this._onDidCloseClient.fire(client);
+        });
+    }
+}
@@ -1,16 +1,20 @@
-import { Uri, TextDocument, TextDocumentChangeEvent, CompletionItem, Hover } from "vscode";
-import * as vscode from "vscode";
+import { TextDocument, DocumentHighlight, CompletionItem, CompletionItemKind, Hover, MarkedString, Position, Range, Diagnostic, DiagnosticSeverity, Location, SignatureHelp, SignatureInformation, ParameterInformation, InsertTextFormat, TextEdit, WorkspaceEdit, DocumentHighlightKind, CodeAction, CodeActionKind, Command } from "vscode-languageserver-types";
+import URI from 'vscode-uri'
 import * as json from 'jsonc-parser'
 import * as path from 'path'
 import * as fs from 'fs'
-import { parseJson, getPropertyNode, getNodeValue } from './utils/json'
+import { parseJson, getPropertyNode, getNodeValue, findNodeAtOffset, getNodePath } from './utils/json'
+import { translate, getWordRangeAtPosition, lineText, getFileName, readTextDocument } from './utils/document'
 import { ImageHelper } from "./imageHelper";
+import { ComponentHelper } from "./componentHelper";
+import { RuleId } from "./rules";
+import { DataContract, DataContractHelper } from "./dataContract";
 import { LexerErrorCode } from "./browser/lexer";
 import { Type, IType, Method, Property, ArrayType, UnionType, ObjectType, IntersectionType, LiteralType, ArrowType } from "./browser/type";
-import { ExpressionContext, None, ExpressionNode, IdentifierNode, ExpressionErrorLevel } from "./browser/parser";
+import { ExpressionContext, None, ExpressionNode, IdentifierNode, ExpressionErrorLevel, FunctionExpressionNode, LambdaExpressionNode, BinaryExpressionNode, BinaryOp, ConditionalExpressionNode, UnaryExpressionNode, UnaryOp } from "./browser/parser";
 import Snippets from "./snippets";
-import { parse, parseExpressionInObject } from "./browser/template";
-import { Schema, validateJsonNode, TypedNode } from "./schema";
+import { parse, parseExpressionInObject, bindData } from "./browser/template";
+import { Schema, SchemaObject, validateJsonNode, TypedNode } from "./schema";
 import { templateSchema, NodeSchema, eventParamsMap } from "./template_schema";
 
 enum ExpType {
@@ -51,7 +55,7 @@ class Variable {
     description: string;
     incomplete: boolean;
     node: json.Node;
-    uri: vscode.Uri;
+    uri: string;
 
     static unique(vars: Variable[]) {
         let reversed = [...vars].reverse();
@@ -75,7 +79,7 @@ class Variable {
 
     setNode(node: json.Node, uri: string = null) {
         this.node = node;
-        this.uri = uri ? vscode.Uri.file(uri) : null;
+        this.uri = uri ? URI.file(uri).toString() : null;
         return this;
     }
 
@@ -101,7 +105,9 @@ let BUILTIN_VARS = [
     new Variable("system", Type.registerType(new Type('system')).registerPropertys({
         "name": new Property(Type.String, "系统名称"),
         "version": new Property(Type.String, "系统版本"),
-        "deviceName": new Property(Type.String, "设备名称")
+        "deviceName": new Property(Type.String, "设备名称"),
+        "isDarkMode": new Property(Type.Boolean, "是否是深色模式"),
+        "fontScale": new Property(Type.Number, "系统字体大小的缩放比例，默认为 1"),
     }), "系统信息（暂仅支持 iOS）"),
     new Variable("screen", Type.registerType(new Type('screen')).registerPropertys({
         "width": new Property(Type.Number, "屏幕宽度"),
@@ -328,63 +334,74 @@ export class MistData {
         }
         let text = fs.readFileSync(file).toString();
         if (text) {
-            const fileName = path.basename(file, MOCK_EXT)
-            let jsonTree = parseJson(text);
-            var results = [];
-            let parseMockData = (obj: json.Node) => {
-                if (!obj || obj.type !== 'object') return
-
-                let valueForKey = k => {
-                    let node = obj.children.find(c => c.children[0].value === k);
-                    return node ? node.children[1] : null;
+            this.dataMap[dir][file] = this.parseMockFile(file, text);
+            Object.keys(MistDocument.documents).forEach(k => {
+                const doc = MistDocument.documents[k]
+                if (doc) {
+                    doc.clearDatas()
                 }
+            });
+        }
+    }
 
-                let data = new MistData();
-                data.file = file;
-                data.start = obj.offset;
-                data.end = obj.offset + obj.length;
+    static isMockFile(file: string) {
+        return file.endsWith(MOCK_EXT);
+    }
 
-                const dataNode = valueForKey('mockData')
-                if (dataNode) {
-                    const nameNode = valueForKey('name')
-                    if (nameNode) {
-                        data.name = nameNode.value
-                    }
+    static parseMockFile(file: string, text: string): MistData[] {
+        const fileName = path.basename(file, MOCK_EXT)
+        let jsonTree = parseJson(text);
+        var results = [];
+        let parseMockData = (obj: json.Node) => {
+            if (!obj || obj.type !== 'object') return
 
-                    const templateNode = valueForKey('template');
-                    let templateId: string = templateNode ? templateNode.value : fileName;
-                    if (typeof templateId !== 'string') {
-                        return
-                    }
-                    templateId = templateId.replace(/^\w+@/, '');
+            let valueForKey = k => {
+                let node = obj.children.find(c => c.children[0].value === k);
+                return node ? node.children[1] : null;
+            }
+
+            let data = new MistData();
+            data.file = file;
+            data.start = obj.offset;
+            data.end = obj.offset + obj.length;
 
-                    data.template = templateId;
-                    data.data = getNodeValue(dataNode);
-                    data.node = dataNode;
+            const dataNode = valueForKey('mockData')
+            if (dataNode) {
+                const nameNode = valueForKey('name')
+                if (nameNode) {
+                    data.name = nameNode.value
                 }
-                else {
-                    data.template = fileName;
-                    data.data = getNodeValue(obj)
-                    data.node = obj
+
+                const templateNode = valueForKey('template');
+                let templateId: string = templateNode ? templateNode.value : fileName;
+                if (typeof templateId !== 'string') {
+                    return
                 }
-                results.push(data);
-            }
-            
-            if (jsonTree.type === 'array') {
-                jsonTree.children.forEach(node => parseMockData(node))
+                templateId = templateId.replace(/^\w+@/, '');
+
+                data.template = templateId;
+                data.data = getNodeValue(dataNode);
+                data.node = dataNode;
             }
             else {
-                parseMockData(jsonTree)
+                data.template = fileName;
+                data.data = getNodeValue(obj)
+                data.node = obj
             }
+            results.push(data);
+        }
 
-            this.dataMap[dir][file] = results;
-            Object.keys(MistDocument.documents).forEach(k => {
-                const doc = MistDocument.documents[k]
-                if (doc) {
-                    doc.clearDatas()
-                }
-            });
+        if (!jsonTree) {
+            return results;
+        }
+        if (jsonTree.type === 'array') {
+            jsonTree.children.forEach(node => parseMockData(node))
         }
+        else {
+            parseMockData(jsonTree)
+        }
+
+        return results;
     }
 
     static openDir(dir: string) {
@@ -398,6 +415,15 @@ export class MistData {
         }
     }
 
+    /**
+     * 数据文件中的所有数据，按在文件中出现的顺序排列
+     */
+    static getFileDatas(file: string): MistData[] {
+        this.openFile(file);
+        let dirDatas = this.dataMap[path.dirname(file)];
+        return dirDatas && dirDatas[file] || [];
+    }
+
     static getData(dir: string, template: string) {
         let dirDatas = this.dataMap[dir];
         let result = [];
@@ -642,6 +668,41 @@ export function getSignatureInfo(exp: string) {
     return null;
 }
 
+// 表达式中引用的外部变量，不包含 lambda 参数
+function freeIdentifiers(expression: ExpressionNode): IdentifierNode[] {
+    let bound: ExpressionNode[] = [];
+    expression.visitNode(node => {
+        if (node instanceof LambdaExpressionNode) {
+            let names = node.parameters.map(p => p.identifier);
+            node.expression.visitNode(n => {
+                if (n instanceof IdentifierNode && names.indexOf(n.identifier) >= 0) {
+                    bound.push(n);
+                }
+            });
+        }
+    });
+    let ids: IdentifierNode[] = [];
+    expression.visitNode(node => {
+        if (node instanceof IdentifierNode && bound.indexOf(node) < 0) {
+            ids.push(node);
+        }
+    });
+    return ids;
+}
+
+// 表达式中对 state 属性的访问，如 `state.count` 中的 `count`
+function stateAccesses(expression: ExpressionNode): IdentifierNode[] {
+    let ids = freeIdentifiers(expression);
+    let accesses: IdentifierNode[] = [];
+    expression.visitNode(node => {
+        if (node instanceof FunctionExpressionNode && !node.parameters && node.target instanceof IdentifierNode
+            && node.target.identifier === 'state' && ids.indexOf(node.target) >= 0) {
+            accesses.push(node.action);
+        }
+    });
+    return accesses;
+}
+
 function isArray(obj: any) {
     return obj instanceof Array;
 }
@@ -655,6 +716,217 @@ function isId(str: string) {
     return ID_RE.test(str);
 }
 
+type QuickFix = {
+    title: string;
+    edits: TextEdit[];
+    isPreferred?: boolean;
+}
+
+// 修复文件中所有问题的操作类型，可在 `editor.codeActionsOnSave` 中使用
+export const FIX_ALL_ACTION_KIND = 'source.fixAll.mist';
+
+// 全部修复中跳过的规则
+const FIX_ALL_EXCLUDED_RULES: string[] = [RuleId.ExpVersion, RuleId.AccessibilityOnTap];
+
+// 当前协议版本的 `CodeAction` 中还没有 `isPreferred`
+interface PreferredCodeAction extends CodeAction {
+    isPreferred?: boolean;
+}
+
+// 过滤检查结果，如去掉 `// @ignore` 忽略的问题
+export type DiagnosticFilter = (document: TextDocument, diagnostics: Diagnostic[]) => Diagnostic[];
+
+export interface RangedCompletionItem extends CompletionItem {
+    range?: Range;
+}
+
+export function completionItem(label: string, kind: CompletionItemKind): RangedCompletionItem {
+    return { label, kind };
+}
+
+/**
+ * 模板中定义的变量，包括 data、params、state、vars 中的 key，以及 Action 的 result
+ */
+type SymbolDeclaration = {
+    name: string;
+    node: json.Node;
+    nameNode: json.Node;
+    isState: boolean;
+    // 定义在数据文件中时为数据文件的 uri
+    uri?: string;
+}
+
+/**
+ * 模板对数据的使用情况，检查表达式的类型时由变量、属性访问、索引和方法调用记录
+ */
+class DataShapeType extends IType {
+    private context: DataShapeContext;
+    private parent: DataShapeType;
+    public isArray: boolean;
+    // 由使用方式推断的类型，无法推断时为 undefined
+    public kind: string;
+    public properties: { [key: string]: DataShapeType };
+    public items: DataShapeType;
+    // 使用该数据的表达式
+    public usages: string[];
+    // 存在没有判断是否为空的访问
+    public required: boolean;
+
+    public constructor(context: DataShapeContext, parent?: DataShapeType) {
+        super();
+        this.context = context;
+        this.parent = parent;
+        this.properties = {};
+        this.usages = [];
+    }
+
+    // 是否为 `shape` 本身或其上层数据
+    public contains(shape: DataShapeType): boolean {
+        for (let s = shape; s; s = s.parent) {
+            if (s === this) return true;
+        }
+        return false;
+    }
+
+    public property(name: string): DataShapeType {
+        let shape = this.properties[name] || (this.properties[name] = new DataShapeType(this.context, this));
+        return this.context.access(shape);
+    }
+
+    private elements(): DataShapeType {
+        this.isArray = true;
+        return this.items || (this.items = new DataShapeType(this.context, this));
+    }
+
+    public getName(): string {
+        return this.isArray ? 'array' : this.kind || 'any';
+    }
+
+    public getAllProperties(): { [name: string]: Property } {
+        return Object.keys(this.properties).reduce((properties, key) => {
+            properties[key] = new Property(this.properties[key]);
+            return properties;
+        }, {});
+    }
+
+    public getProperty(name: string): Property {
+        // 字符串的 length 和数组、字典的 count 是内置属性
+        if (this.parent && (name === 'length' || name === 'count')) {
+            if (name === 'length') this.kind = 'string';
+            return new Property(Type.Number);
+        }
+        return new Property(this.property(name));
+    }
+
+    public getAllMethods(context: ExpressionContext): { [name: string]: Method[] } {
+        return {};
+    }
+
+    // 由方法所属的类型推断数据的类型
+    public getMethods(name: string, context: ExpressionContext): Method[] {
+        let type = [Type.String, Type.Number, Type.Array, Type.Object].find(t => !!t.getMethods(name, context));
+        if (!type) {
+            return null;
+        }
+        if (type === Type.Array) {
+            this.elements();
+        }
+        else if (!this.kind) {
+            this.kind = type.getName();
+        }
+        return type.getMethods(name, context);
+    }
+
+    public getTypeAtIndex(index: IType): IType {
+        if (index instanceof LiteralType && typeof(index.getValue()) === 'string') {
+            return this.property(index.getValue());
+        }
+        return this.context.access(this.elements());
+    }
+
+    // 作为运算符或方法参数使用时推断数据的类型
+    public kindof(type: IType, unionCheck: boolean = false): boolean {
+        if (unionCheck) {
+            return super.kindof(type, unionCheck);
+        }
+        if (!this.kind && (<IType[]>[Type.String, Type.Number, Type.Boolean]).indexOf(type) >= 0) {
+            this.kind = type.getName();
+        }
+        return true;
+    }
+}
+
+/**
+ * 推断数据结构时使用的上下文，没有定义的变量都是数据
+ */
+class DataShapeContext extends ExpressionContext {
+    public root: DataShapeType;
+    // 正在检查的表达式访问的数据，不记录时为 null
+    private accessed: DataShapeType[];
+
+    constructor(expVersion: number) {
+        super(expVersion);
+        this.root = new DataShapeType(this);
+        this.accessed = null;
+    }
+
+    get(key: string) {
+        if (!this.has(key)) {
+            return this.root.property(key);
+        }
+        let value = super.get(key);
+        return value instanceof DataShapeType ? this.access(value) : value;
+    }
+
+    access(shape: DataShapeType) {
+        if (this.accessed && this.accessed.indexOf(shape) < 0) {
+            this.accessed.push(shape);
+        }
+        return shape;
+    }
+
+    /**
+     * 检查表达式，返回其中访问的数据
+     */
+    record(expression: ExpressionNode): DataShapeType[] {
+        this.accessed = [];
+        this.evaluate(expression, () => expression.check(this));
+        let accessed = this.accessed;
+        this.accessed = null;
+        return accessed;
+    }
+
+    /**
+     * 表达式的类型，不记录其中的访问
+     */
+    typeOf(expression: ExpressionNode): IType {
+        return this.evaluate(expression, () => expression.getType(this));
+    }
+
+    // 调用的全局函数不是数据
+    private evaluate<T>(expression: ExpressionNode, callback: () => T): T {
+        let names: string[] = [];
+        expression.visitNode(n => {
+            if (n instanceof FunctionExpressionNode && !n.target && n.parameters && !this.has(n.action.identifier)) {
+                names.push(n.action.identifier);
+            }
+        });
+        names.forEach(name => this.push(name, null));
+        let result = callback();
+        names.forEach(name => this.pop(name));
+        return result;
+    }
+}
+
+type SymbolReference = {
+    range: Range;
+    kind: DocumentHighlightKind;
+    // 引用所在的字符串节点
+    node?: json.Node;
+    // 不在当前文档中时为所在文件的 uri
+    uri?: string;
+}
+
 class TrackExpressionContext extends ExpressionContext {
     private accessed: { [key: string]: boolean[] };
 
@@ -699,54 +971,63 @@ class TrackExpressionContext extends ExpressionContext {
 export class MistDocument {
     static documents: { [path: string]: MistDocument } = {}
 
-    public readonly document: TextDocument;
+    public document: TextDocument;
     private datas: MistData[];
     private dataFile: string;
     private dataIndex: number = 0;
     private rootNode: json.Node;
     private nodeTree: MistNode;
     private template: any;
+    // `data-type` 的解析结果，模板修改后清空，引用的 JSON Schema 文件修改后重新读取
+    private dataContract: { contract: DataContract, file: string, mtime: number };
 
-    public static getDocumentByUri(uri: Uri) {
-        return MistDocument.documents[uri.toString()];
+    static rootPath: string;
+
+    public static getDocumentByUri(uri: string) {
+        return MistDocument.documents[uri];
     }
 
-    public static initialize() {
-        vscode.workspace.textDocuments.forEach(d => MistDocument.onDidOpenTextDocument(d));
-        if (vscode.workspace.rootPath) {
-            MistData.openDir(vscode.workspace.rootPath);
+    public static initialize(rootPath: string, documents: TextDocument[] = []) {
+        MistDocument.rootPath = rootPath;
+        documents.forEach(d => MistDocument.onDidOpenTextDocument(d));
+        if (rootPath) {
+            MistData.openDir(rootPath);
         }
     }
 
     public static onDidOpenTextDocument(document: TextDocument) {
         if (document.languageId === 'mist') {
-            MistDocument.documents[document.uri.toString()] = new MistDocument(document);
-            if (document.fileName) {
-                MistData.openDir(path.dirname(document.fileName));
+            MistDocument.documents[document.uri] = new MistDocument(document);
+            let fileName = getFileName(document.uri);
+            if (fileName) {
+                MistData.openDir(path.dirname(fileName));
             }
         }
     }
 
     public static onDidCloseTextDocument(document: TextDocument) {
         if (document.languageId === 'mist') {
-            MistDocument.documents[document.uri.toString()] = null;
+            delete MistDocument.documents[document.uri];
         }
     }
 
     public static onDidSaveTextDocument(document: TextDocument) {
-        if (document.languageId === 'mist') {
-            
-        }
-        else if (document.fileName.endsWith('.json')) {
-            MistData.openFile(document.fileName);
-            vscode.commands.executeCommand('mist.updatePreview')
+        let fileName = getFileName(document.uri);
+        if (document.languageId !== 'mist' && fileName.endsWith('.json')) {
+            MistData.openFile(fileName);
         }
     }
 
-    public static onDidChangeTextDocument(event: TextDocumentChangeEvent) {
-        if (event.document.languageId === 'mist') {
-            let mistDocument = MistDocument.getDocumentByUri(event.document.uri);
-            mistDocument.onDidChangeTextDocument(event);
+    // TextDocument 每次修改都会生成新的实例，需要替换，并保留已选择的数据
+    public static onDidChangeTextDocument(document: TextDocument) {
+        if (document.languageId === 'mist') {
+            let mistDocument = MistDocument.getDocumentByUri(document.uri);
+            if (mistDocument) {
+                mistDocument.update(document);
+            }
+            else {
+                MistDocument.onDidOpenTextDocument(document);
+            }
         }
     }
     
@@ -754,6 +1035,10 @@ export class MistDocument {
         this.document = document;
     }
 
+    public get fileName() {
+        return getFileName(this.document.uri);
+    }
+
     public clearDatas() {
         this.datas = null;
     }
@@ -774,7 +1059,7 @@ export class MistDocument {
 
     public getDatas() {
         if (!this.datas) {
-            let file = this.document.fileName;
+            let file = this.fileName;
             let dir = path.dirname(file);
             let templateId = path.basename(file, ".mist");
             this.datas = MistData.getData(dir, templateId);
@@ -806,29 +1091,114 @@ export class MistDocument {
         return null;
     }
 
+    /**
+     * 模板顶层 `data-type` 声明的数据类型，没有声明时返回 null
+     */
+    public getDataContract(): DataContract {
+        this.parseTemplate();
+        let node = this.rootNode && getPropertyNode(this.rootNode, 'data-type');
+        if (!node) {
+            return null;
+        }
+        let dirs = [this.dir(), MistDocument.rootPath];
+        let file = DataContractHelper.schemaFile(node, dirs);
+        let mtime = 0;
+        try {
+            mtime = file ? fs.statSync(file).mtime.getTime() : 0;
+        }
+        catch (e) {
+        }
+        let cached = this.dataContract;
+        if (cached && cached.file === file && cached.mtime === mtime) {
+            return cached.contract;
+        }
+        // 类型声明中的错误位置需要考虑字符串中的转义字符
+        let string = node.type === 'string' ? new JsonString(this.document.getText().substr(node.offset + 1, node.length - 2)) : null;
+        let contract = DataContractHelper.load(node, dirs, string ? offset => node.offset + 1 + string.sourceIndex(offset) : undefined);
+        this.dataContract = { contract, file, mtime };
+        return contract;
+    }
+
+    /**
+     * 使用当前选择的数据计算布局中每个表达式的值，`repeat` 的节点使用第一个元素计算。
+     * 返回表达式结束的位置（`}` 之后）和计算结果，无法计算的表达式会被忽略
+     */
+    public getExpressionValues(builtin: any): { offset: number, value: any }[] {
+        this.parseTemplate();
+        let data = this.getData();
+        let layoutNode = this.rootNode && getPropertyNode(this.rootNode, 'layout');
+        if (!this.template || !data || !layoutNode) {
+            return [];
+        }
+        let { traces } = bindData(this.template, data.data, builtin);
+        let collectStrings = (node: json.Node, strings: json.Node[], isNode: boolean) => {
+            if (!node) return;
+            if (node.type === 'string') {
+                strings.push(node);
+            }
+            else if (node.type === 'object') {
+                // 子节点有自己的上下文
+                node.children.filter(c => !(isNode && c.children[0].value === 'children')).forEach(c => collectStrings(c.children[1], strings, false));
+            }
+            else if (node.type === 'array') {
+                node.children.forEach(c => collectStrings(c, strings, false));
+            }
+        };
+        let results: { offset: number, value: any }[] = [];
+        Object.keys(traces).forEach(index => {
+            let trace = traces[index][0];
+            let node = (index ? index.split(',') : []).reduce((n, i) => n && json.findNodeAtLocation(n, ['children', parseInt(i)]), layoutNode);
+            if (!trace || !trace.scope || !node) return;
+            let context = new ExpressionContext(this.getExpVersion());
+            context.pushDict(trace.scope);
+            let strings: json.Node[] = [];
+            collectStrings(node, strings, true);
+            strings.forEach(stringNode => {
+                this.findExpressionsInString(stringNode).forEach(exp => {
+                    if (exp.string.errors.length > 0) return;
+                    let value = this.expressionValueWithContext(exp.string.parsed, context);
+                    if (value === None || value === undefined) return;
+                    let end = Math.min(stringNode.offset + exp.offset + exp.string.source.length + 1, stringNode.offset + stringNode.length);
+                    results.push({ offset: end, value });
+                });
+            });
+        });
+        return results.sort((a, b) => a.offset - b.offset);
+    }
+
     public dir() {
-        if (this.document.fileName) {
-            return path.dirname(this.document.fileName);
+        if (this.fileName) {
+            return path.dirname(this.fileName);
         }
-        return vscode.workspace.rootPath;
+        return MistDocument.rootPath;
     }
 
     public getExpVersion(): number {
         return this.template && this.template['exp-version'] || 1
     }
 
-    public provideCompletionItems(position: vscode.Position, token: vscode.CancellationToken) {
+    public provideCompletionItems(position: Position): CompletionItem[] {
+        return this.completionItems(position).map(item => {
+            if (item.range) {
+                item.textEdit = TextEdit.replace(item.range, item.insertText || item.label);
+                delete item.range;
+            }
+            return item;
+        });
+    }
+
+    private completionItems(position: Position): RangedCompletionItem[] {
         NodeSchema.setCurrentDir(this.dir());
         let document = this.document;
         let location = json.getLocation(document.getText(), document.offsetAt(position));
         this.parseTemplate();
 
-        let getWordRange = () => document.getWordRangeAtPosition(position, /[-_$a-zA-Z0-9]+/);
+        let getWordRange = () => getWordRangeAtPosition(document, position, /[-_$a-zA-Z0-9]+/);
 
         if (this.shouldProvideCommentCompletion(position)) {
-            const ignoreItem = new CompletionItem('@ignore', vscode.CompletionItemKind.Snippet)
+            const ignoreItem = completionItem('@ignore', CompletionItemKind.Snippet)
             ignoreItem.detail = '取消文件下一行的语义检查错误提示。'
-            ignoreItem.range = document.getWordRangeAtPosition(position, /[-@_$a-zA-Z0-9]+/);
+            ignoreItem.range = getWordRangeAtPosition(document, position, /[-@_$a-zA-Z0-9]+/);
             return [ignoreItem]
         }
 
@@ -836,7 +1206,7 @@ export class MistDocument {
         if (!location.isAtPropertyKey) {
             let wordRange = getWordRange();
             let p = wordRange ? wordRange.start : position;
-            let line = document.getText(new vscode.Range(new vscode.Position(p.line, 0), p)).trim();
+            let line = document.getText(Range.create(Position.create(p.line, 0), p)).trim();
             if (line === '') {
                 location.isAtPropertyKey = true;
                 location.previousNode = null;
@@ -848,7 +1218,7 @@ export class MistDocument {
         }
 
         // expression suggestions
-        var items: CompletionItem[] = [];
+        var items: RangedCompletionItem[] = [];
         if (!location.isAtPropertyKey) {
             let expression = this.getExpressionAtLocation(location, position);
             if (expression !== null) {
@@ -866,11 +1236,11 @@ export class MistDocument {
                     type = this.expressionTypeWithContext(prefix, ctx.typeContext);
                 }
                 else {
-                    if (document.getText(new vscode.Range(position.translate(0, -1), position)) === '.') {
+                    if (document.getText(Range.create(translate(position, 0, -1), position)) === '.') {
                         return [];
                     }
                     type = Type.Global;
-                    items = items.concat(['true', 'false', 'null', 'nil'].map(s => new CompletionItem(s, vscode.CompletionItemKind.Keyword)));
+                    items = items.concat(['true', 'false', 'null', 'nil'].map(s => completionItem(s, CompletionItemKind.Keyword)));
 
                     ctx.vars.forEach(v => {
                         if (v.type instanceof ArrowType) {
@@ -878,7 +1248,7 @@ export class MistDocument {
                             return
                         }
 
-                        let item = new CompletionItem(v.name, vscode.CompletionItemKind.Variable);
+                        let item = completionItem(v.name, CompletionItemKind.Variable);
                         item.detail = v.value !== None ? `"${v.name}": ${JSON.stringify(v.value, null, '\t')}` : `${v.name}: ${v.type.getName()}`;
                         let doc = [];
                         if (v.type && v.value === None) {
@@ -896,7 +1266,7 @@ export class MistDocument {
                     let methods = { ...varMethods, ...type.getAllMethods(ctx.typeContext) };
                     items = items.concat(Object.keys(properties).filter(isId).map(k => {
                         let p = properties[k];
-                        let item = new vscode.CompletionItem(k, type === Type.Global ? vscode.CompletionItemKind.Constant : vscode.CompletionItemKind.Property);
+                        let item = completionItem(k, type === Type.Global ? CompletionItemKind.Constant : CompletionItemKind.Property);
                         if (p.description) {
                             item.documentation = p.description;
                         }
@@ -907,11 +1277,12 @@ export class MistDocument {
                     }));
                     items = items.concat(Object.keys(methods).map(k => {
                         let m = methods[k];
-                        let item = new vscode.CompletionItem(k, vscode.CompletionItemKind.Method);
+                        let item = completionItem(k, CompletionItemKind.Method);
                         let funInfo = m[0];
                         let params = funInfo.params || [];
                         let noParams = params.length === 0 && m.length === 1;
-                        item.insertText = new vscode.SnippetString(k + (noParams ? '()' : '($0)'));
+                        item.insertText = k + (noParams ? '()' : '($0)');
+                        item.insertTextFormat = InsertTextFormat.Snippet;
                         if (!noParams) {
                             item.command = {
                                 title: 'Trigger Signature Help',
@@ -931,8 +1302,14 @@ export class MistDocument {
             else {
                 let nodePath = this.nodePath(location.path);
                 if (nodePath && location.previousNode && nodePath.length >= 2 && nodePath[0] === 'style' && (nodePath[1] === 'image' || nodePath[1] === 'error-image' || nodePath[1] === 'background-image')) {
-                    let range = new vscode.Range(document.positionAt(location.previousNode.offset + 1), document.positionAt(location.previousNode.offset + location.previousNode.length - 1));
-                    let items = ImageHelper.provideCompletionItems(this, token)
+                    let range = Range.create(document.positionAt(location.previousNode.offset + 1), document.positionAt(location.previousNode.offset + location.previousNode.length - 1));
+                    let items: RangedCompletionItem[] = ImageHelper.provideCompletionItems(this)
+                    items.forEach(item => item.range = range);
+                    return items;
+                }
+                if (nodePath && location.previousNode && nodePath.length === 1 && nodePath[0] === 'import') {
+                    let range = Range.create(document.positionAt(location.previousNode.offset + 1), document.positionAt(location.previousNode.offset + location.previousNode.length - 1));
+                    let items = this.importCompletionItems();
                     items.forEach(item => item.range = range);
                     return items;
                 }
@@ -970,11 +1347,11 @@ export class MistDocument {
                             .filter(k => existsProperties.indexOf(k) < 0)
                             .map(k => {
                                 let s = s1.properties[k];
-                                let item = new CompletionItem(k, vscode.CompletionItemKind.Property);
+                                let item = completionItem(k, CompletionItemKind.Property);
     
                                 if (s && typeof(s) === 'object') {
                                     switch (s.format) {
-                                        case 'event': item.kind = vscode.CompletionItemKind.Event; break;
+                                        case 'event': item.kind = CompletionItemKind.Event; break;
                                     }
                                     if (s.description) {
                                         item.detail = s.description;
@@ -988,8 +1365,8 @@ export class MistDocument {
                     
                                     let valueText = '';
                                     let comma = false;
-                                    let pos = inQuote ? position.translate(0, 1) : position;
-                                    let text = document.getText(new vscode.Range(pos, pos.translate(5, 0)));
+                                    let pos = inQuote ? translate(position, 0, 1) : position;
+                                    let text = document.getText(Range.create(pos, translate(pos, 5, 0)));
                                     if (text.match(/^\s*"/)) {
                                         comma = true;
                                     }
@@ -1007,19 +1384,21 @@ export class MistDocument {
                                     let delta = offset - location.previousNode.offset;
                                     let inQuote = delta > 0 && delta < location.previousNode.length;
                                     if (inQuote) {
-                                        item.insertText = new vscode.SnippetString(`${k}"${valueText(true)}`);
-                                        item.range = new vscode.Range(document.positionAt(location.previousNode.offset + 1), document.positionAt(location.previousNode.offset + location.previousNode.length));
+                                        item.insertText = `${k}"${valueText(true)}`;
+                                        item.insertTextFormat = InsertTextFormat.Snippet;
+                                        item.range = Range.create(document.positionAt(location.previousNode.offset + 1), document.positionAt(location.previousNode.offset + location.previousNode.length));
                                     }
                                     else {
                                         item.insertText = `"${k}"`;
-                                        item.range = new vscode.Range(document.positionAt(location.previousNode.offset), document.positionAt(location.previousNode.offset + location.previousNode.length));
+                                        item.range = Range.create(document.positionAt(location.previousNode.offset), document.positionAt(location.previousNode.offset + location.previousNode.length));
                                     }
                                 } else {
                                     item.range = getWordRange();
-                                    item.insertText = new vscode.SnippetString(`"${k}"${valueText(false)}`);
+                                    item.insertText = `"${k}"${valueText(false)}`;
+                                    item.insertTextFormat = InsertTextFormat.Snippet;
                                 }
 
-                                let text = typeof(item.insertText) === 'string' ? item.insertText : item.insertText.value;
+                                let text = item.insertText;
                                 if (!text.includes('\n') && !k.startsWith('margin') && k !== 'width' && k !== 'height' && k !== 'flex-basis') {
                                     item.command = {
                                         title: "",
@@ -1036,7 +1415,7 @@ export class MistDocument {
                     if (location.previousNode) {
                         enums = enums.filter(s => typeof(s[0]) === 'string');
                         items.push(...enums.map(e => {
-                            let item = new CompletionItem(e[0], e[2]);
+                            let item = completionItem(e[0], e[2]);
                             if (e[1]) {
                                 item.detail = e[1];
                             }
@@ -1050,7 +1429,7 @@ export class MistDocument {
                     }
                     else {
                         items.push(...enums.map(e => {
-                            let item = new CompletionItem(JSON.stringify(e[0]), e[2]);
+                            let item = completionItem(JSON.stringify(e[0]), e[2]);
                             if (e[1]) {
                                 item.detail = e[1];
                             }
@@ -1071,7 +1450,7 @@ export class MistDocument {
             let nodePath = this.nodePath(location.path);
             let snippets: any = Snippets.nodeSnippets;
             if (nodePath && nodePath.length === 0) {
-                let trialingText = this.document.getText(new vscode.Range(position, position.translate(3, 0)));
+                let trialingText = this.document.getText(Range.create(position, translate(position, 3, 0)));
                 let needTrialingComma = trialingText.trim().startsWith('{');
                 snippets = Object.keys(snippets).reduce((p, c) => {
                     p[c] = '{\n  ' + snippets[c].replace(/\n/mg, '\n  ') + '\n}';
@@ -1089,8 +1468,9 @@ export class MistDocument {
                 return items;
             }
             items.push(...Object.keys(snippets).map(name => {
-                let item = new CompletionItem(name, vscode.CompletionItemKind.Snippet);
-                item.insertText = new vscode.SnippetString(snippets[name]);
+                let item = completionItem(name, CompletionItemKind.Snippet);
+                item.insertText = snippets[name];
+                item.insertTextFormat = InsertTextFormat.Snippet;
                 return item;
             }));
         }
@@ -1098,10 +1478,9 @@ export class MistDocument {
         return items;
     }
     
-    private shouldProvideCommentCompletion(position: vscode.Position) {
-        const line = this.document.lineAt(position.line)
-        const offset = this.document.offsetAt(position) - this.document.offsetAt(line.range.start)
-        const scanner = json.createScanner(line.text, false)
+    private shouldProvideCommentCompletion(position: Position) {
+        const offset = position.character
+        const scanner = json.createScanner(lineText(this.document, position.line), false)
         let type: json.SyntaxKind
         do {
             type = scanner.scan()
@@ -1112,7 +1491,7 @@ export class MistDocument {
             }
             else if (offset <= end) {
                 if (type === json.SyntaxKind.LineCommentTrivia) {
-                    const text = this.document.getText(new vscode.Range(position.translate(0, -4), position))
+                    const text = this.document.getText(Range.create(translate(position, 0, -4), position))
                     return text.match(/\/\/ ?@?$/)
                 }
                 return false
@@ -1121,11 +1500,11 @@ export class MistDocument {
         return false
     }
 
-    public provideHover(position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Hover> {
+    public provideHover(position: Position): Hover {
         NodeSchema.setCurrentDir(this.dir());
 
-        let contentsFromProperty = (name: string, prop: Property): vscode.MarkedString[] => {
-            let contents: vscode.MarkedString[] = [];
+        let contentsFromProperty = (name: string, prop: Property): MarkedString[] => {
+            let contents: MarkedString[] = [];
             contents.push({language: 'typescript', value: this.propertyName(name, prop)});
             if (prop.description) {
                 contents.push(prop.description);
@@ -1133,8 +1512,8 @@ export class MistDocument {
             return contents;
         }
         
-        let contentsFromMethod = (name: string, fun: Method, count: number): vscode.MarkedString[] => {
-            let contents: vscode.MarkedString[] = [];
+        let contentsFromMethod = (name: string, fun: Method, count: number): MarkedString[] => {
+            let contents: MarkedString[] = [];
             contents.push({language: 'typescript', value: this.methodName(name, fun, count)});
             if (fun.description) {
                 contents.push(fun.description);
@@ -1143,7 +1522,7 @@ export class MistDocument {
         }
         
         let document = this.document;
-        let wordRange = document.getWordRangeAtPosition(position, /[-_$a-zA-Z0-9]+/);
+        let wordRange = getWordRangeAtPosition(document, position, /[-_$a-zA-Z0-9]+/);
         if (wordRange == null || wordRange.start === wordRange.end) {
             return;
         }
@@ -1153,8 +1532,8 @@ export class MistDocument {
         let expression = this.getExpressionAtLocation(location, wordRange.end);
         if (expression != null) {
             expression = getCurrentExpression(expression);
-            let isFunction = document.getText(new vscode.Range(wordRange.end, wordRange.end.translate(0, 1))) === '(';
-            let contents: vscode.MarkedString[] = [];
+            let isFunction = document.getText(Range.create(wordRange.end, translate(wordRange.end, 0, 1))) === '(';
+            let contents: MarkedString[] = [];
             let ctx = this.contextAtLocation(location);
             let {prefix: prefix, function: func} = getPrefix(expression);
             let type: IType;
@@ -1212,12 +1591,12 @@ export class MistDocument {
                 
             }
             
-            return new Hover(contents);
+            return { contents };
         }
         
         let node = this.rootNode;
         let matchingSchemas: Schema[] = [];
-        let range = new vscode.Range(
+        let range = Range.create(
             document.positionAt(location.previousNode.offset),
             document.positionAt(location.previousNode.offset + location.previousNode.length)
         );
@@ -1230,20 +1609,24 @@ export class MistDocument {
                     let value = getNodeValue(json.findNodeAtLocation(node, location.path));
                     let index = s.enum.indexOf(value);
                     if (index >= 0) {
-                        return new Hover(s.enumDescriptions[index], range);
+                        return { contents: s.enumDescriptions[index], range };
                     }
                 }
             }
             if (s && typeof(s) === 'object' && s.description) {
-                return new Hover(s.description, range);
+                return { contents: s.description, range };
             }
         }
         return null;
     }
 
-    public provideDefinition(position: vscode.Position, token: vscode.CancellationToken): vscode.ProviderResult<vscode.Definition> {
+    public provideDefinition(position: Position): Location {
         let document = this.document;
-        let wordRange = document.getWordRangeAtPosition(position);
+        let importFile = this.importFileAtPosition(position);
+        if (importFile) {
+            return Location.create(URI.file(importFile).toString(), Range.create(0, 0, 0, 0));
+        }
+        let wordRange = getWordRangeAtPosition(document, position);
         if (wordRange == null || wordRange.start === wordRange.end) {
             return null;
         }
@@ -1259,7 +1642,7 @@ export class MistDocument {
         if (prefix) {
             return null;
         }
-        // let isFunction = document.getText(new vscode.Range(wordRange.end, wordRange.end.translate(0, 1))) === '(';
+        // let isFunction = document.getText(Range.create(wordRange.end, translate(wordRange.end, 0, 1))) === '(';
         // if (isFunction) {
         //     return null;
         // }
@@ -1269,15 +1652,14 @@ export class MistDocument {
             let v = ctx.vars[index];
             if (v.node) {
                 let uri = v.uri || this.document.uri;
-                return vscode.workspace.openTextDocument(uri).then(doc => {
-                    return new vscode.Location(uri, new vscode.Range(doc.positionAt(v.node.offset), doc.positionAt(v.node.offset + v.node.length)));
-                });
+                let doc = uri === this.document.uri ? this.document : readTextDocument(getFileName(uri), 'json');
+                return Location.create(uri, Range.create(doc.positionAt(v.node.offset), doc.positionAt(v.node.offset + v.node.length)));
             }
         }
         return null;
     }
 
-    public provideSignatureHelp(position: vscode.Position, token: vscode.CancellationToken): vscode.SignatureHelp | Thenable<vscode.SignatureHelp> {
+    public provideSignatureHelp(position: Position): SignatureHelp {
         let document = this.document;
         let location = json.getLocation(document.getText(), document.offsetAt(position));
         this.parseTemplate();
@@ -1300,16 +1682,15 @@ export class MistDocument {
 
                 let fun = type.getMethods(signatureInfo.function, this.contextAtLocation(location).typeContext);
                 if (fun && fun.length > 0) {
-                    let signatureHelp = new vscode.SignatureHelp();
-                    signatureHelp.signatures = fun.map(f => {
-                        let signature = new vscode.SignatureInformation(this.methodName(signatureInfo.function, f, fun.length));
-                        signature.parameters = (f.params || []).map(p => new vscode.ParameterInformation(`${p.name}: ${p.type.getName()}`));
-                        signature.documentation = f.description;
-                        return signature;
-                    });
-                    signatureHelp.activeSignature = 0;
-                    signatureHelp.activeParameter = signatureInfo.paramIndex;
-                    return signatureHelp;
+                    return {
+                        signatures: fun.map(f => SignatureInformation.create(
+                            this.methodName(signatureInfo.function, f, fun.length),
+                            f.description,
+                            ...(f.params || []).map(p => ParameterInformation.create(`${p.name}: ${p.type.getName()}`))
+                        )),
+                        activeSignature: 0,
+                        activeParameter: signatureInfo.paramIndex
+                    };
                 }
             }
         }
@@ -1317,7 +1698,720 @@ export class MistDocument {
         return null;
     }
 
-    public validate(): vscode.Diagnostic[] {
+    public provideReferences(position: Position, includeDeclaration: boolean): Location[] {
+        let symbol = this.symbolAtPosition(position);
+        if (!symbol || !symbol.declaration) {
+            return null;
+        }
+        // 第一个为变量定义
+        let references = this.findReferences(symbol.declaration).slice(includeDeclaration ? 0 : 1);
+        return references.map(r => Location.create(r.uri || this.document.uri, r.range));
+    }
+
+    public provideDocumentHighlights(position: Position): DocumentHighlight[] {
+        let symbol = this.symbolAtPosition(position);
+        if (!symbol || !symbol.declaration) {
+            return null;
+        }
+        return this.findReferences(symbol.declaration).filter(r => !r.uri).map(r => DocumentHighlight.create(r.range, r.kind));
+    }
+
+    private importFileAtPosition(position: Position) {
+        let location = json.getLocation(this.document.getText(), this.document.offsetAt(position));
+        this.parseTemplate();
+        let nodePath = this.nodePath(location.path);
+        if (!location.isAtPropertyKey && location.previousNode && location.previousNode.type === 'string' && nodePath && nodePath.length === 1 && nodePath[0] === 'import') {
+            return ComponentHelper.resolve(location.previousNode.value, this.dir());
+        }
+        return null;
+    }
+
+    // 工作区中的模板，路径相对于当前模板目录并省略 `.mist` 后缀
+    private importCompletionItems(): RangedCompletionItem[] {
+        let dir = this.dir();
+        let root = MistDocument.rootPath || dir;
+        if (!root) {
+            return [];
+        }
+        return ComponentHelper.findTemplateFiles(root)
+            .filter(f => f !== this.fileName)
+            .map(f => {
+                let name = path.relative(dir, f).replace(/\.mist$/, '').split(path.sep).join('/');
+                let item = completionItem(name, CompletionItemKind.File);
+                item.detail = f;
+                return item;
+            });
+    }
+
+    // 检查 import 的组件是否存在，以及传入的 params 和 children 中的 slot 是否与组件的定义一致
+    private validateImport(node: json.Node): Diagnostic[] {
+        let diagnostics: Diagnostic[] = [];
+        let range = (node: json.Node) => Range.create(this.document.positionAt(node.offset), this.document.positionAt(node.offset + node.length));
+        let importNode = getPropertyNode(node, 'import');
+        if (!importNode || importNode.type !== 'string' || this.findExpressionsInString(importNode).length > 0) {
+            return diagnostics;
+        }
+        let file = ComponentHelper.resolve(importNode.value, this.dir());
+        if (!file) {
+            diagnostics.push(Diagnostic.create(range(importNode), `找不到组件 \`${importNode.value}\``, DiagnosticSeverity.Error, RuleId.ComponentNotFound));
+            return diagnostics;
+        }
+        let cycle = ComponentHelper.findImportCycle(file, this.fileName);
+        if (cycle) {
+            let root = MistDocument.rootPath || this.dir();
+            let names = [this.fileName, ...cycle].map(f => path.relative(root, f).split(path.sep).join('/'));
+            diagnostics.push(Diagnostic.create(range(importNode), `组件循环引用：${names.join(' → ')}`, DiagnosticSeverity.Error, RuleId.ImportCycle));
+            return diagnostics;
+        }
+        let component = ComponentHelper.getComponent(file);
+        if (!component) {
+            return diagnostics;
+        }
+
+        let paramsNode = getPropertyNode(node, 'params');
+        let passed = paramsNode && paramsNode.type === 'object' ? paramsNode.children.filter(c => c.children.length === 2) : [];
+        component.params.filter(p => !p.hasDefault && !passed.some(c => c.children[0].value === p.name)).forEach(p => {
+            let keyNode = (paramsNode || importNode).parent.children[0];
+            diagnostics.push(Diagnostic.create(range(keyNode), `缺少组件参数 \`${p.name}\`${p.description ? `（${p.description}）` : ''}`, DiagnosticSeverity.Error, RuleId.ComponentParamMissing));
+        });
+        if (component.params.length > 0) {
+            passed.forEach(c => {
+                let name = c.children[0].value;
+                let param = component.params.find(p => p.name === name);
+                if (!param) {
+                    diagnostics.push(Diagnostic.create(range(c.children[0]), `组件 \`${importNode.value}\` 中没有声明参数 \`${name}\``, DiagnosticSeverity.Warning, RuleId.ComponentParamUnknown));
+                    return;
+                }
+                let type = this.paramValueType(c.children[1]);
+                if (param.type && type && type !== param.type) {
+                    diagnostics.push(Diagnostic.create(range(c.children[1]), `参数 \`${name}\` 的类型应为 \`${param.type}\`，实际为 \`${type}\``, DiagnosticSeverity.Error, RuleId.ComponentParamType));
+                }
+            });
+        }
+
+        let childrenNode = getPropertyNode(node, 'children');
+        if (childrenNode && childrenNode.type === 'array') {
+            childrenNode.children.forEach(child => {
+                let slotNode = child.type === 'object' ? getPropertyNode(child, 'slot') : null;
+                if (slotNode && typeof(slotNode.value) === 'string' && component.slots.indexOf(slotNode.value) < 0) {
+                    diagnostics.push(Diagnostic.create(range(slotNode), `组件 \`${importNode.value}\` 中不存在插槽 \`${slotNode.value}\``, DiagnosticSeverity.Error, RuleId.ComponentSlot));
+                }
+            });
+        }
+
+        return diagnostics;
+    }
+
+    // 参数值的类型，与组件 params 中声明的 type 对应，无法确定时返回 null
+    private paramValueType(node: TypedNode): string {
+        if (node.type !== 'string' || this.findExpressionsInString(node).length === 0) {
+            return node.type === 'null' ? null : node.type;
+        }
+        let type = node.valueType instanceof LiteralType ? node.valueType.getType() : node.valueType;
+        if (type === Type.String) return 'string';
+        if (type === Type.Number) return 'number';
+        if (type === Type.Boolean) return 'boolean';
+        if (type instanceof ArrayType) return 'array';
+        if (type instanceof ObjectType) return 'object';
+        return null;
+    }
+
+    public prepareRename(position: Position): Range {
+        let symbol = this.renameableSymbolAtPosition(position);
+        return symbol ? symbol.range : null;
+    }
+
+    public provideRenameEdits(position: Position, newName: string): WorkspaceEdit {
+        let symbol = this.renameableSymbolAtPosition(position);
+        if (!symbol) {
+            return null;
+        }
+        if (!isId(newName)) {
+            throw new Error(`\`${newName}\` 不是合法的变量名`);
+        }
+        let declaration = symbol.declaration;
+        if (declaration.nameNode === declaration.node.children[0] && declaration.node.parent.children.some(c => c.children[0].value === newName)) {
+            throw new Error(`当前范围已存在变量 \`${newName}\``);
+        }
+        let references = this.findReferences(declaration);
+        if (!declaration.isState && references.some(r => r.node && this.contextAtNode(r.node).vars.some(v => v.name === newName))) {
+            throw new Error(`重命名后会与已有变量 \`${newName}\` 冲突`);
+        }
+        let edits = references.map(r => TextEdit.replace(r.range, newName));
+        return { changes: { [this.document.uri]: edits } };
+    }
+
+    private renameableSymbolAtPosition(position: Position) {
+        let symbol = this.symbolAtPosition(position);
+        if (symbol && !symbol.declaration) {
+            throw new Error(`\`${symbol.name}\` 是内置变量，不能重命名`);
+        }
+        if (symbol && symbol.declaration.uri) {
+            throw new Error(`\`${symbol.name}\` 定义在数据文件中，不能重命名`);
+        }
+        return symbol;
+    }
+
+    // 光标处的变量，返回变量的定义以及光标处的名称范围，内置变量没有定义
+    private symbolAtPosition(position: Position): { name: string, declaration: SymbolDeclaration, range: Range } {
+        this.parseTemplate();
+        if (!this.rootNode) {
+            return null;
+        }
+        let offset = this.document.offsetAt(position);
+        let node = findNodeAtOffset(this.rootNode, offset);
+        if (!node || node.type !== 'string') {
+            return null;
+        }
+
+        let property = node.parent && node.parent.type === 'property' ? node.parent : null;
+        if (property && (property.children[0] === node || property.children[0].value === 'result')) {
+            let declaration = this.declarationOfProperty(property);
+            if (declaration && (declaration.nameNode === node || declaration.node !== property)) {
+                return { name: declaration.name, declaration, range: this.stringContentRange(node) };
+            }
+            if (property.children[0] === node) {
+                return null;
+            }
+        }
+
+        let result: { name: string, declaration: SymbolDeclaration, range: Range } = null;
+        this.visitExpressions(node, (expression, stringNode, offsetAt) => {
+            let contains = (id: IdentifierNode) => offsetAt(id.offset) <= offset && offset <= offsetAt(id.offset + id.length);
+            let range = (id: IdentifierNode) => Range.create(this.document.positionAt(offsetAt(id.offset)), this.document.positionAt(offsetAt(id.offset + id.length)));
+            let access = stateAccesses(expression).find(contains);
+            if (access) {
+                let declaration = this.stateDeclaration(access.identifier);
+                if (declaration) {
+                    result = { name: declaration.name, declaration, range: range(access) };
+                }
+                return;
+            }
+            let id = freeIdentifiers(expression).find(contains);
+            if (id) {
+                let v = this.contextAtNode(stringNode).vars.find(v => v.name === id.identifier);
+                if (v) {
+                    result = { name: v.name, declaration: this.declarationOfVariable(v), range: range(id) };
+                }
+            }
+        });
+        return result;
+    }
+
+    private declarationOfVariable(v: Variable): SymbolDeclaration {
+        if (!v.node) {
+            return null;
+        }
+        if (v.uri) {
+            return { name: v.name, node: v.node, nameNode: v.node.children[0], isState: false, uri: v.uri };
+        }
+        return this.declarationOfProperty(v.node);
+    }
+
+    private declarationOfProperty(property: json.Node): SymbolDeclaration {
+        let keyNode = property.children[0];
+        let object = property.parent;
+        let path = getNodePath(object);
+        let key: string = keyNode.value;
+        let declaration = (nameNode: json.Node, isState: boolean = false) => ({ name: nameNode.value, node: property, nameNode, isState });
+
+        if (path.length === 1 && (path[0] === 'data' || path[0] === 'params' || path[0] === 'state')) {
+            return declaration(keyNode, path[0] === 'state');
+        }
+        if (path.length > 0 && path[path.length - 1] === 'updateState') {
+            return this.stateDeclaration(key);
+        }
+        let nodePath = this.nodePath(path);
+        if (nodePath && nodePath[0] === 'vars' && (nodePath.length === 1 || (nodePath.length === 2 && typeof(nodePath[1]) === 'number'))) {
+            return declaration(keyNode);
+        }
+        let valueNode = property.children[1];
+        if (key === 'result' && valueNode && valueNode.type === 'string' && path.some(p => typeof(p) === 'string' && p.startsWith('on-'))) {
+            return declaration(valueNode);
+        }
+        return null;
+    }
+
+    private stateDeclaration(key: string): SymbolDeclaration {
+        let stateNode = getPropertyNode(this.rootNode, 'state');
+        let property = stateNode && stateNode.type === 'object' ? stateNode.children.find(c => c.children[0].value === key) : null;
+        return property ? { name: key, node: property, nameNode: property.children[0], isState: true } : null;
+    }
+
+    // 变量的定义和所有引用
+    private findReferences(declaration: SymbolDeclaration): SymbolReference[] {
+        let declarationDocument = declaration.uri ? readTextDocument(getFileName(declaration.uri), 'json') : this.document;
+        let references: SymbolReference[] = [{
+            range: this.stringContentRange(declaration.nameNode, declarationDocument),
+            kind: DocumentHighlightKind.Write,
+            uri: declaration.uri
+        }];
+        this.visitExpressions(this.rootNode, (expression, stringNode, offsetAt) => {
+            let ids: IdentifierNode[];
+            if (declaration.isState) {
+                let path = getNodePath(stringNode);
+                ids = path[0] === 'data' || path[0] === 'state' ? [] : stateAccesses(expression).filter(id => id.identifier === declaration.name);
+            }
+            else {
+                ids = freeIdentifiers(expression).filter(id => id.identifier === declaration.name);
+                if (ids.length > 0) {
+                    let v = this.contextAtNode(stringNode).vars.find(v => v.name === declaration.name);
+                    if (!v || v.node !== declaration.node) {
+                        ids = [];
+                    }
+                }
+            }
+            references.push(...ids.map(id => ({
+                range: Range.create(this.document.positionAt(offsetAt(id.offset)), this.document.positionAt(offsetAt(id.offset + id.length))),
+                kind: DocumentHighlightKind.Read,
+                node: stringNode
+            })));
+        });
+
+        if (declaration.isState) {
+            let visit = (node: json.Node) => {
+                if (!node || !node.children) return;
+                if (node.type === 'property' && node.children[0].value === 'updateState' && node.children[1] && node.children[1].type === 'object') {
+                    node.children[1].children
+                        .filter(c => c.children[0].value === declaration.name)
+                        .forEach(c => references.push({ range: this.stringContentRange(c.children[0]), kind: DocumentHighlightKind.Write }));
+                }
+                node.children.forEach(visit);
+            };
+            visit(this.rootNode);
+        }
+
+        return references;
+    }
+
+    private contextAtNode(node: json.Node) {
+        return this.contextAtLocation(<json.Location>{ path: getNodePath(node), previousNode: node, isAtPropertyKey: false });
+    }
+
+    private stringContentRange(node: json.Node, document: TextDocument = this.document) {
+        return Range.create(document.positionAt(node.offset + 1), document.positionAt(node.offset + node.length - 1));
+    }
+
+    // 遍历节点中所有字符串值里的表达式，offsetAt 将表达式中的偏移转换为文档中的偏移
+    private visitExpressions(node: json.Node, callback: (expression: ExpressionNode, stringNode: json.Node, offsetAt: (offset: number) => number) => void) {
+        if (!node) return;
+        if (node.type === 'object') {
+            node.children.forEach(c => {
+                if (c.children.length === 2) {
+                    this.visitExpressions(c.children[1], callback);
+                }
+            });
+        }
+        else if (node.type === 'array') {
+            node.children.forEach(c => this.visitExpressions(c, callback));
+        }
+        else if (node.type === 'string') {
+            this.findExpressionsInString(node).forEach(exp => {
+                if (exp.string.errors.length > 0) {
+                    return;
+                }
+                let { expression } = parse(exp.string.parsed);
+                if (expression) {
+                    callback(expression, node, offset => node.offset + exp.offset + exp.string.sourceIndex(offset));
+                }
+            });
+        }
+    }
+
+    /**
+     * 根据表达式中对数据的访问推断模板需要的数据结构，用于校验和生成 mock 数据。
+     * 只有存在没有判断是否为空的访问时，数据才是必需的
+     */
+    public inferDataSchema(): SchemaObject {
+        this.parseTemplate();
+        let context = new DataShapeContext(this.getExpVersion());
+        BUILTIN_VARS.forEach(v => context.push(v.name, v.type));
+        ['state', '_item_', '_index_', '_event_', 'result', '_result_'].forEach(name => context.push(name, null));
+        context.push('_data_', context.root);
+
+        // 判断的操作数为数据或者数据的长度、数量时，认为已经判断了该数据是否为空
+        let testedShape = (operand: ExpressionNode) => {
+            let type = context.typeOf(operand);
+            if (!(type instanceof DataShapeType) && operand instanceof FunctionExpressionNode && operand.target && !operand.parameters) {
+                type = context.typeOf(operand.target);
+            }
+            return type instanceof DataShapeType ? type : null;
+        };
+        // 节点的 `gone` 中判断过的数据，节点及子节点中的访问都不要求存在
+        let guards: DataShapeType[] = [];
+        let record = (expression: ExpressionNode, usage: string) => {
+            // 作为条件、`!`、`&&`、`||` 或 `==` 的操作数时，认为已经判断了是否为空。使用了 lambda 参数的操作数不是数据
+            let free = freeIdentifiers(expression);
+            let tested = [...guards];
+            expression.visitNode(n => {
+                let operands: ExpressionNode[] = [];
+                if (n instanceof ConditionalExpressionNode) {
+                    operands = [n.condition];
+                }
+                else if (n instanceof UnaryExpressionNode && n.operator === UnaryOp.Not) {
+                    operands = [n.oprand];
+                }
+                else if (n instanceof BinaryExpressionNode && [BinaryOp.And, BinaryOp.Or, BinaryOp.Equal, BinaryOp.NotEqual].indexOf(n.operator) >= 0) {
+                    operands = [n.oprand1, n.oprand2];
+                }
+                operands.filter(o => {
+                    let ids: IdentifierNode[] = [];
+                    o.visitNode(i => i instanceof IdentifierNode && ids.push(i));
+                    return ids.every(i => free.indexOf(i) >= 0);
+                }).map(testedShape).filter(s => !!s).forEach(s => tested.push(s));
+            });
+            context.record(expression).forEach(shape => {
+                if (shape.usages.indexOf(usage) < 0) shape.usages.push(usage);
+                // 判断了自身或上层的数据，或者判断了其中的下层数据（如 `a.b ? a.b.c : ''` 中的 `a`）
+                if (!tested.some(t => t.contains(shape) || shape.contains(t))) shape.required = true;
+            });
+        };
+        let visitValue = (node: json.Node) => this.visitExpressions(node, (expression, stringNode) => record(expression, stringNode.value));
+        // 值只有一个表达式时为表达式的类型，否则为 null
+        let typeOfValue = (node: json.Node): IType => {
+            if (!node || node.type !== 'string' || !/^\$\{[\s\S]*\}$/.test(node.value)) return null;
+            let expressions = this.findExpressionsInString(node);
+            if (expressions.length !== 1 || expressions[0].string.errors.length > 0) return null;
+            let { expression } = parse(expressions[0].string.parsed);
+            return expression ? context.typeOf(expression) : null;
+        };
+
+        let visitLayoutNode = (node: json.Node) => {
+            if (!node || node.type !== 'object') {
+                visitValue(node);
+                return;
+            }
+            let declared: string[] = [];
+            let declare = (name: string, type: IType) => {
+                context.push(name, type);
+                declared.push(name);
+            };
+            let repeatNode = getPropertyNode(node, 'repeat');
+            if (repeatNode) {
+                visitValue(repeatNode);
+                let type = typeOfValue(repeatNode);
+                declare('_item_', type && type.getTypeAtIndex(Type.Number));
+                declare('_index_', null);
+            }
+            let varsNode = getPropertyNode(node, 'vars');
+            if (varsNode) {
+                (varsNode.type === 'array' ? varsNode.children : [varsNode]).filter(c => c.type === 'object').forEach(dict => {
+                    dict.children.filter(c => c.children.length === 2).forEach(c => {
+                        visitValue(c.children[1]);
+                        declare(c.children[0].value, typeOfValue(c.children[1]));
+                    });
+                });
+            }
+            let guardCount = guards.length;
+            this.visitExpressions(getPropertyNode(node, 'gone'), expression => guards.push(...context.record(expression)));
+            node.children.filter(c => c.children.length === 2 && ['repeat', 'vars', 'children'].indexOf(c.children[0].value) < 0).forEach(c => visitValue(c.children[1]));
+            let childrenNode = getPropertyNode(node, 'children');
+            if (childrenNode && childrenNode.type === 'array') {
+                childrenNode.children.forEach(visitLayoutNode);
+            }
+            guards.splice(guardCount);
+            declared.reverse().forEach(name => context.pop(name));
+        };
+
+        if (this.rootNode && this.rootNode.type === 'object') {
+            let paramsNode = getPropertyNode(this.rootNode, 'params');
+            if (paramsNode && paramsNode.type === 'object') {
+                paramsNode.children.forEach(c => context.push(c.children[0].value, null));
+            }
+            let dataNode = getPropertyNode(this.rootNode, 'data');
+            if (dataNode && dataNode.type === 'object') {
+                dataNode.children.filter(c => c.children.length === 2).forEach(c => {
+                    visitValue(c.children[1]);
+                    context.push(c.children[0].value, typeOfValue(c.children[1]));
+                });
+            }
+            this.rootNode.children.filter(c => c.children.length === 2 && ['layout', 'data', 'params'].indexOf(c.children[0].value) < 0).forEach(c => visitValue(c.children[1]));
+            visitLayoutNode(getPropertyNode(this.rootNode, 'layout'));
+        }
+
+        let toSchema = (shape: DataShapeType, sample: any): SchemaObject => {
+            let schema: SchemaObject = {};
+            if (shape.usages.length > 0) {
+                schema.description = `模板中的使用：\n\n${shape.usages.slice(0, 3).map(u => `\`${u}\``).join('\n\n')}`;
+            }
+            let keys = Object.keys(shape.properties);
+            if (shape.isArray) {
+                schema.type = 'array';
+                schema.items = toSchema(shape.items, sample instanceof Array ? sample[0] : undefined);
+            }
+            else if (keys.length > 0) {
+                schema.type = 'object';
+                schema.properties = keys.reduce((properties, key) => {
+                    properties[key] = toSchema(shape.properties[key], isObject(sample) ? sample[key] : undefined);
+                    return properties;
+                }, {});
+                let required = keys.filter(key => shape.properties[key].required);
+                if (required.length > 0) {
+                    schema.required = required;
+                }
+                schema.additionalProperties = true;
+            }
+            else if (shape.kind) {
+                schema.type = shape.kind;
+            }
+            else if (sample !== undefined && sample !== null) {
+                schema.type = sample instanceof Array ? 'array' : typeof(sample);
+            }
+            return schema;
+        };
+
+        let data = this.getData();
+        let schema = toSchema(context.root, data ? data.data : undefined);
+        schema.type = 'object';
+        schema.description = `模板 \`${path.basename(this.fileName || 'untitled.mist')}\` 使用的数据`;
+        return schema;
+    }
+
+    public provideCodeActions(range: Range, diagnostics: Diagnostic[], only?: string[], filter?: DiagnosticFilter): CodeAction[] {
+        let uri = this.document.uri;
+        let workspaceEdit = (edits: TextEdit[]): WorkspaceEdit => ({ changes: { [uri]: edits } });
+        let fixAllTitle = '修复文件中所有可自动修复的问题';
+        if (only && only.some(kind => kind.startsWith(CodeActionKind.Source))) {
+            // 全部修复需要多次重新检查，只在请求的类型包含 `source.fixAll.mist` 时计算
+            if (!only.some(kind => (FIX_ALL_ACTION_KIND + '.').startsWith(kind + '.'))) {
+                return [];
+            }
+            let edits = this.provideFixAllEdits(filter);
+            return edits.length > 0 ? [CodeAction.create(fixAllTitle, workspaceEdit(edits), FIX_ALL_ACTION_KIND)] : [];
+        }
+
+        let actions: PreferredCodeAction[] = [];
+        let canFixAll = false;
+        diagnostics.forEach(diagnostic => {
+            let fixes = this.quickFixes(diagnostic);
+            if (fixes.length > 0 && FIX_ALL_EXCLUDED_RULES.indexOf(diagnostic.code as string) < 0) {
+                canFixAll = true;
+            }
+            fixes.forEach(fix => {
+                if (actions.some(a => a.title === fix.title && JSON.stringify(a.edit.changes[uri]) === JSON.stringify(fix.edits))) {
+                    return;
+                }
+                let action: PreferredCodeAction = CodeAction.create(fix.title, workspaceEdit(fix.edits), CodeActionKind.QuickFix);
+                action.diagnostics = [diagnostic];
+                if (fix.isPreferred) {
+                    action.isPreferred = true;
+                }
+                actions.push(action);
+            });
+        });
+        // 选择后再通过 `source.fixAll.mist` 请求计算修改，避免每次显示快速修复时都修复整个文件
+        if (canFixAll) {
+            let command = Command.create(fixAllTitle, 'editor.action.sourceAction', { kind: FIX_ALL_ACTION_KIND, apply: 'first' });
+            actions.push(CodeAction.create(fixAllTitle, command, CodeActionKind.QuickFix));
+        }
+        return actions;
+    }
+
+    /**
+     * 依次修复文件中所有可自动修复的问题，每次修复后重新检查，避免修改之间相互冲突。
+     * 升级表达式版本可能改变表达式的含义，无障碍属性需要根据节点的用途选择，都需要单独确认，不包含在内。
+     * `filter` 用于去掉被忽略和关闭的问题
+     */
+    public provideFixAllEdits(filter: DiagnosticFilter = (document, diagnostics) => diagnostics): TextEdit[] {
+        let mistDoc: MistDocument = this;
+        for (let i = 0; i < 100; i++) {
+            let fix = filter(mistDoc.document, mistDoc.validate())
+                .filter(d => FIX_ALL_EXCLUDED_RULES.indexOf(d.code as string) < 0)
+                .map(d => mistDoc.quickFixes(d))
+                .map(fixes => fixes.find(f => f.isPreferred) || fixes[0])
+                .find(f => !!f);
+            if (!fix) {
+                break;
+            }
+            let document = TextDocument.create(this.document.uri, this.document.languageId, this.document.version, TextDocument.applyEdits(mistDoc.document, fix.edits));
+            mistDoc = new MistDocument(document);
+            mistDoc.dataFile = this.dataFile;
+            mistDoc.dataIndex = this.dataIndex;
+        }
+        if (mistDoc === this) {
+            return [];
+        }
+        return [TextEdit.replace(Range.create(Position.create(0, 0), this.document.positionAt(this.document.getText().length)), mistDoc.document.getText())];
+    }
+
+    private quickFixes(diagnostic: Diagnostic): QuickFix[] {
+        this.parseTemplate();
+        if (!this.rootNode) {
+            return [];
+        }
+        let node = findNodeAtOffset(this.rootNode, this.document.offsetAt(diagnostic.range.start));
+        if (!node) {
+            return [];
+        }
+        switch (diagnostic.code) {
+            case RuleId.UnusedVariable: {
+                let propertyNode = node.parent;
+                if (!propertyNode || propertyNode.type !== 'property') break;
+                // 数组形式的 vars 中只有这一个变量时，删除整个字典
+                let dictNode = propertyNode.parent;
+                let removeNode = dictNode.children.length === 1 && dictNode.parent && dictNode.parent.type === 'array' ? dictNode : propertyNode;
+                return [{ title: `删除未引用的变量 \`${propertyNode.children[0].value}\``, edits: [this.removeNodeEdit(removeNode)], isPreferred: true }];
+            }
+            case RuleId.PropertyInStyle: {
+                let propertyNode = node.parent;
+                if (!propertyNode || propertyNode.type !== 'property') break;
+                let key = propertyNode.children[0].value;
+                let propertyText = this.nodeText(propertyNode);
+                let styleNode = getPropertyNode(propertyNode.parent, 'style');
+                let title = `将 \`${key}\` 移到 \`style\` 中`;
+                if (!styleNode) {
+                    return [{ title, edits: [TextEdit.replace(this.nodeTextRange(propertyNode), `"style": { ${propertyText} }`)], isPreferred: true }];
+                }
+                if (styleNode.type !== 'object' || getPropertyNode(styleNode, key)) break;
+                return [{ title, edits: [this.insertPropertyEdit(styleNode, propertyText), this.removeNodeEdit(propertyNode)], isPreferred: true }];
+            }
+            case RuleId.ImageClip: {
+                let styleNode = node.parent && node.parent.parent;
+                if (!styleNode || styleNode.type !== 'object') break;
+                return [{ title: '设置 `"clip": true`', edits: [this.insertPropertyEdit(styleNode, '"clip": true')], isPreferred: true }];
+            }
+            case RuleId.AccessibilityOnTap: {
+                let objectNode = node.parent && node.parent.parent;
+                if (!objectNode || objectNode.type !== 'object') break;
+                let styleNode = getPropertyNode(objectNode, 'style');
+                if (styleNode && styleNode.type !== 'object') break;
+                // text 和 button 可以自动生成朗读文本，其他节点打开后还需要设置 accessibility-label
+                let typeNode = getPropertyNode(objectNode, 'type');
+                let hasLabel = typeNode && (typeNode.value === 'text' || typeNode.value === 'button');
+                return [true, false].map(value => {
+                    let property = `"is-accessibility-element": ${value}`;
+                    return {
+                        title: `设置 \`${property}\``,
+                        edits: [styleNode ? this.insertPropertyEdit(styleNode, property) : this.insertPropertyEdit(objectNode, `"style": { ${property} }`)],
+                        isPreferred: value === hasLabel
+                    };
+                });
+            }
+            case RuleId.ExpVersion: {
+                let expVersionNode = getPropertyNode(this.rootNode, 'exp-version');
+                let edit = expVersionNode ? TextEdit.replace(this.nodeTextRange(expVersionNode), '2') : this.insertPropertyEdit(this.rootNode, '"exp-version": 2');
+                return [{ title: '使用新版本表达式 `"exp-version": 2`', edits: [edit] }];
+            }
+            case RuleId.VarsInSameDict: {
+                let dictNode = node;
+                while (dictNode && !(dictNode.type === 'object' && this.isVarsDict(dictNode))) {
+                    dictNode = dictNode.parent;
+                }
+                if (!dictNode) break;
+                return [{ title: '将 `vars` 拆分为数组，按引用顺序定义变量', edits: [this.splitVarsEdit(dictNode)], isPreferred: true }];
+            }
+        }
+        return [];
+    }
+
+    private isVarsDict(node: json.Node) {
+        let parent = node.parent;
+        if (parent && parent.type === 'array') {
+            parent = parent.parent;
+        }
+        return parent && parent.type === 'property' && parent.children[0].value === 'vars';
+    }
+
+    // 将 vars 字典拆分为每项只有一个变量的数组，被引用的变量排在前面
+    private splitVarsEdit(dictNode: json.Node): TextEdit {
+        let properties = dictNode.children.filter(c => c.children.length === 2);
+        let keys = properties.map(c => c.children[0].value);
+        let dependencies = properties.map(c => {
+            let names: string[] = [];
+            this.visitExpressions(c.children[1], expression => {
+                freeIdentifiers(expression).forEach(id => {
+                    if (id.identifier !== c.children[0].value && keys.indexOf(id.identifier) >= 0) {
+                        names.push(id.identifier);
+                    }
+                });
+            });
+            return names;
+        });
+        let sorted: json.Node[] = [];
+        while (sorted.length < properties.length) {
+            let defined = sorted.map(c => c.children[0].value);
+            let rest = properties.filter(c => sorted.indexOf(c) < 0);
+            let next = rest.find(c => dependencies[properties.indexOf(c)].every(name => defined.indexOf(name) >= 0));
+            // 存在循环引用时保持原有顺序
+            sorted.push(next || rest[0]);
+        }
+        let items = sorted.map(c => `{ ${this.nodeText(c)} }`);
+        let indent = this.lineIndent(dictNode.offset);
+        let text: string;
+        if (dictNode.parent.type === 'array') {
+            text = items.join(`,\n${indent}`);
+        }
+        else {
+            text = `[\n${items.map(item => indent + '  ' + item).join(',\n')}\n${indent}]`;
+        }
+        return TextEdit.replace(this.nodeTextRange(dictNode), text);
+    }
+
+    // 属性节点的长度不包含对象或数组类型的值，需要按值的结束位置计算
+    private nodeEnd(node: json.Node) {
+        if (node.type === 'property' && node.children.length === 2) {
+            return node.children[1].offset + node.children[1].length;
+        }
+        return node.offset + node.length;
+    }
+
+    private nodeText(node: json.Node) {
+        return this.document.getText().substring(node.offset, this.nodeEnd(node));
+    }
+
+    private nodeTextRange(node: json.Node) {
+        return Range.create(this.document.positionAt(node.offset), this.document.positionAt(this.nodeEnd(node)));
+    }
+
+    private lineIndent(offset: number) {
+        let text = this.document.getText();
+        let lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+        return text.substring(lineStart).match(/^[ \t]*/)[0];
+    }
+
+    private insertPropertyEdit(objectNode: json.Node, propertyText: string): TextEdit {
+        let document = this.document;
+        let lastNode = objectNode.children[objectNode.children.length - 1];
+        if (!lastNode) {
+            return TextEdit.replace(Range.create(document.positionAt(objectNode.offset + 1), document.positionAt(objectNode.offset + objectNode.length - 1)), ` ${propertyText} `);
+        }
+        let position = document.positionAt(this.nodeEnd(lastNode));
+        if (document.positionAt(lastNode.offset).line === document.positionAt(objectNode.offset).line) {
+            return TextEdit.insert(position, `, ${propertyText}`);
+        }
+        return TextEdit.insert(position, `,\n${this.lineIndent(lastNode.offset)}${propertyText}`);
+    }
+
+    // 删除属性或数组元素及其前后的逗号，独占一行时删除整行
+    private removeNodeEdit(node: json.Node): TextEdit {
+        let text = this.document.getText();
+        let start = node.offset;
+        let end = this.nodeEnd(node);
+        let after = end;
+        while (after < text.length && /[ \t]/.test(text[after])) after++;
+        if (text[after] === ',') {
+            end = after + 1;
+            // 同一行中的下一个属性前只保留原来的空白
+            while (end < text.length && /[ \t]/.test(text[end])) end++;
+        }
+        else {
+            let before = start - 1;
+            while (before >= 0 && /\s/.test(text[before])) before--;
+            if (text[before] === ',') {
+                start = before;
+            }
+        }
+        let lineStart = text.lastIndexOf('\n', start - 1) + 1;
+        let lineEnd = text.indexOf('\n', end);
+        if (lineEnd < 0) lineEnd = text.length;
+        if (/^\s*$/.test(text.substring(lineStart, start)) && /^\s*$/.test(text.substring(end, lineEnd))) {
+            start = lineStart;
+            end = Math.min(lineEnd + 1, text.length);
+        }
+        return TextEdit.replace(Range.create(this.document.positionAt(start), this.document.positionAt(end)), '');
+    }
+
+    public validate(): Diagnostic[] {
         NodeSchema.setCurrentDir(this.dir());
         this.parseTemplate();
         if (!this.template) return [];
@@ -1352,7 +2446,7 @@ export class MistDocument {
                     let v = vars[index];
                     if (v.node && !v.uri) {
                         let node = v.node.children[0];
-                        diagnostics.push(new vscode.Diagnostic(nodeRange(node), `未引用的变量 \`${key}\``, vscode.DiagnosticSeverity.Warning));
+                        diagnostics.push(Diagnostic.create(nodeRange(node), `未引用的变量 \`${key}\``, DiagnosticSeverity.Warning, RuleId.UnusedVariable));
                     }
                 }
                 vars.splice(index, 1);
@@ -1377,7 +2471,7 @@ export class MistDocument {
         let range = (offset, length) => {
             let start = this.document.positionAt(offset);
             let end = this.document.positionAt(offset + length);
-            return new vscode.Range(start, end);
+            return Range.create(start, end);
         }
         let nodeRange = (node: json.Node) => {
             return range(node.offset, node.length);
@@ -1405,7 +2499,7 @@ export class MistDocument {
                     if (error) {
                         let start = exp.string.sourceIndex(offset);
                         let end = exp.string.sourceIndex(offset + length);
-                        diagnostics.push(new vscode.Diagnostic(range(start + exp.offset + node.offset, end - start), error, vscode.DiagnosticSeverity.Error));
+                        diagnostics.push(Diagnostic.create(range(start + exp.offset + node.offset, end - start), error, DiagnosticSeverity.Error, RuleId.ExpressionSyntax));
                     }
                     else {
                         let errors = expNode.check(typeContext);
@@ -1413,10 +2507,10 @@ export class MistDocument {
                             diagnostics.push(...errors.map(e => {
                                 let start = exp.string.sourceIndex(e.offset);
                                 let end = exp.string.sourceIndex(e.offset + e.length);
-                                return new vscode.Diagnostic(range(start + exp.offset + node.offset, end - start), e.description, 
-                                    e.level === ExpressionErrorLevel.Info ? vscode.DiagnosticSeverity.Information :
-                                    e.level === ExpressionErrorLevel.Warning ? vscode.DiagnosticSeverity.Warning :
-                                    vscode.DiagnosticSeverity.Error);
+                                return Diagnostic.create(range(start + exp.offset + node.offset, end - start), e.description, 
+                                    e.level === ExpressionErrorLevel.Info ? DiagnosticSeverity.Information :
+                                    e.level === ExpressionErrorLevel.Warning ? DiagnosticSeverity.Warning :
+                                    DiagnosticSeverity.Error, RuleId.ExpressionType);
                             }));
                         }
 
@@ -1436,7 +2530,7 @@ export class MistDocument {
                                 if (scopeVars.indexOf(id.identifier) >=0 && ctx.isAccessed(id.identifier)) {
                                     let start = exp.string.sourceIndex(id.offset);
                                     let end = exp.string.sourceIndex(id.offset + id.length);
-                                    diagnostics.push(new vscode.Diagnostic(range(start + exp.offset + node.offset, end - start), `不能引用同一字典中定义的变量 \`${id.identifier}\`，由于 JSON 字典是无序处理的，会导致未定义行为。\n\n可以将 vars 定义为数组，如："vars": [{"a": 1}, {"b": "\${a}"}]`, vscode.DiagnosticSeverity.Error));
+                                    diagnostics.push(Diagnostic.create(range(start + exp.offset + node.offset, end - start), `不能引用同一字典中定义的变量 \`${id.identifier}\`，由于 JSON 字典是无序处理的，会导致未定义行为。\n\n可以将 vars 定义为数组，如："vars": [{"a": 1}, {"b": "\${a}"}]`, DiagnosticSeverity.Error, RuleId.VarsInSameDict));
                                 }
                             }
                         }
@@ -1483,7 +2577,7 @@ export class MistDocument {
             resolveValueTypesInNode(valueNode);
             if (s) {
                 let errors = validateJsonNode(valueNode, s);
-                diagnostics.push(...errors.map(e => new vscode.Diagnostic(range(e.node.offset, e.node.length), e.error, vscode.DiagnosticSeverity.Warning)));
+                diagnostics.push(...errors.map(e => Diagnostic.create(range(e.node.offset, e.node.length), e.error, DiagnosticSeverity.Warning, RuleId.PropertyType)));
             }
             else {
                 if (!schema.additionalProperties) {
@@ -1493,7 +2587,7 @@ export class MistDocument {
                     if (inStyle) {
                         desc += `，是否想使用 \`style\` 中的 \`${key}\``;
                     }
-                    diagnostics.push(new vscode.Diagnostic(range(keyNode.offset, keyNode.length), desc, vscode.DiagnosticSeverity.Warning));
+                    diagnostics.push(Diagnostic.create(range(keyNode.offset, keyNode.length), desc, DiagnosticSeverity.Warning, inStyle ? RuleId.PropertyInStyle : RuleId.UnknownProperty));
                 }
             }
         }
@@ -1502,19 +2596,25 @@ export class MistDocument {
             if (node && node.type === 'string') {
                 let expressions = this.findExpressionsInString(node);
                 if (expressions.length > 0) {
-                    diagnostics.push(new vscode.Diagnostic(nodeRange(node), '该属性不支持使用表达式', vscode.DiagnosticSeverity.Error));
+                    diagnostics.push(Diagnostic.create(nodeRange(node), '该属性不支持使用表达式', DiagnosticSeverity.Error, RuleId.NoExpression));
                 }
             }
         }
         
-        let noExpProps = ['identifier', 'async-display', 'cell-height-animation', 'reuse-identifier'];
+        let noExpProps = ['identifier', 'async-display', 'cell-height-animation', 'reuse-identifier', 'data-type'];
         
         BUILTIN_VARS.forEach(v => pushVariable(v)); 
 
-        let data = this.getData() ? this.getData().data : {};
+        let contract = this.getDataContract();
+        if (contract) {
+            diagnostics.push(...contract.errors.map(e => Diagnostic.create(range(e.offset, e.length), e.message, DiagnosticSeverity.Error, RuleId.DataType)));
+        }
+        let contractType = contract && contract.type;
+        // 声明了数据类型时使用声明的类型，否则使用当前选择的数据
+        let data = contractType ? {...contractType.getMap()} : this.getData() ? this.getData().data : {};
 
         pushDict(data);
-        pushVariable(new Variable('_data_', this.getDataType(data), _DATA_DESC, true));
+        pushVariable(new Variable('_data_', contractType || this.getDataType(data), _DATA_DESC, true));
 
         validateProperty(json.findNodeAtLocation(this.rootNode, ['data']), templateSchema);
         if (this.template.data instanceof Object) {
@@ -1522,7 +2622,7 @@ export class MistDocument {
         }
         pushDict(data);
 
-        pushVariable(new Variable('_data_', this.getDataType(data), _DATA_DESC, true));
+        pushVariable(new Variable('_data_', contractType ? this.declaredDataType(contractType, typeContext) : this.getDataType(data), _DATA_DESC, true));
 
         pushDict({
             '_item_': Type.Null,
@@ -1555,14 +2655,14 @@ export class MistDocument {
                     
                 }
                 else {
-                    diagnostics.push(new vscode.Diagnostic(nodeRange(node.node), '`node` 必须为 `object` 类型', vscode.DiagnosticSeverity.Error));
+                    diagnostics.push(Diagnostic.create(nodeRange(node.node), '`node` 必须为 `object` 类型', DiagnosticSeverity.Error, RuleId.InvalidNode));
                     return;
                 }
                 validate(node.node);
                 return;
             }
             else if (node.node.type !== 'object') {
-                diagnostics.push(new vscode.Diagnostic(nodeRange(node.node), '`node` 必须为 `object` 类型', vscode.DiagnosticSeverity.Error));
+                diagnostics.push(Diagnostic.create(nodeRange(node.node), '`node` 必须为 `object` 类型', DiagnosticSeverity.Error, RuleId.InvalidNode));
                 return;
             }
             let pushed = [];
@@ -1584,7 +2684,7 @@ export class MistDocument {
                 if (varsNode.type === 'array') {
                     varsNode.children.forEach(c => {
                         if (c.type !== 'object') {
-                            diagnostics.push(new vscode.Diagnostic(nodeRange(c), '必须为 `object` 类型', vscode.DiagnosticSeverity.Error));
+                            diagnostics.push(Diagnostic.create(nodeRange(c), '必须为 `object` 类型', DiagnosticSeverity.Error, RuleId.InvalidVars));
                             return;
                         }
 
@@ -1595,7 +2695,7 @@ export class MistDocument {
                     pushed.push(...pushVarsDict(varsNode, true));
                 }
                 else {
-                    diagnostics.push(new vscode.Diagnostic(nodeRange(varsNode), '`vars` 属性只能为 `object` 或 `array`', vscode.DiagnosticSeverity.Error));
+                    diagnostics.push(Diagnostic.create(nodeRange(varsNode), '`vars` 属性只能为 `object` 或 `array`', DiagnosticSeverity.Error, RuleId.InvalidVars));
                 }
             }
             const list = ['repeat', 'vars', 'children'];
@@ -1604,7 +2704,7 @@ export class MistDocument {
                 let childrenNode = json.findNodeAtLocation(node.node, ['children']);
                 if (childrenNode && !schema.properties['children'] && schema.additionalProperties === false) {
                     let keyNode = childrenNode.parent.children[0];
-                    diagnostics.push(new vscode.Diagnostic(nodeRange(keyNode), '不存在属性 `children`', vscode.DiagnosticSeverity.Warning));
+                    diagnostics.push(Diagnostic.create(nodeRange(keyNode), '不存在属性 `children`', DiagnosticSeverity.Warning, RuleId.UnknownProperty));
                 }
                 otherNodes.forEach(n => {
                     const key = n.children[0].value
@@ -1623,6 +2723,10 @@ export class MistDocument {
                 });
             }
 
+            if (getPropertyNode(node.node, 'import')) {
+                diagnostics.push(...this.validateImport(node.node));
+            }
+
             const styleNode = getPropertyNode(node.node, 'style')
             const typeNode = getPropertyNode(node.node, 'type')
             const type = typeNode && typeNode.value
@@ -1632,7 +2736,7 @@ export class MistDocument {
                     const modeNode = getPropertyNode(styleNode, 'content-mode')
                     const mode = (modeNode && modeNode.value) || 'scale-to-fill'
                     if (mode === 'scale-aspect-fill' && !hasClip) {
-                        diagnostics.push(new vscode.Diagnostic(nodeRange(modeNode), '设置 `scale-aspect-fill` 时，需要显式指定 clip 属性，一般设置为 true。 clip 默认为 false，可能导致图片绘制超出', vscode.DiagnosticSeverity.Warning))
+                        diagnostics.push(Diagnostic.create(nodeRange(modeNode), '设置 `scale-aspect-fill` 时，需要显式指定 clip 属性，一般设置为 true。 clip 默认为 false，可能导致图片绘制超出', DiagnosticSeverity.Warning, RuleId.ImageClip))
                     }
                 }
             }
@@ -1646,27 +2750,27 @@ export class MistDocument {
                 const a11yLabelNode = getPropertyNode(styleNode, 'accessibility-label')
 
                 if (isA11yNode && isA11yNode.value !== true && isA11yNode.value !== false) {
-                    diagnostics.push(new vscode.Diagnostic(nodeRange(isA11yNode), '【无障碍检查】`is-accessibility-element` 应始终设置为常量，而不要使用表达式，只能设置为 true 或 false\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', vscode.DiagnosticSeverity.Error))
+                    diagnostics.push(Diagnostic.create(nodeRange(isA11yNode), '【无障碍检查】`is-accessibility-element` 应始终设置为常量，而不要使用表达式，只能设置为 true 或 false\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', DiagnosticSeverity.Error, RuleId.AccessibilityConstant))
                 }
 
                 if (a11yLabelNode && (!isA11yNode || isA11yNode.value !== true)) {
-                    diagnostics.push(new vscode.Diagnostic(nodeRange(isA11yNode || a11yLabelNode), '【无障碍检查】如果设置了 `accessibility-label`，请同时设置 `is-accessibility-element: true`，否则是未定义行为，两端效果可能不一致\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', vscode.DiagnosticSeverity.Error))
+                    diagnostics.push(Diagnostic.create(nodeRange(isA11yNode || a11yLabelNode), '【无障碍检查】如果设置了 `accessibility-label`，请同时设置 `is-accessibility-element: true`，否则是未定义行为，两端效果可能不一致\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', DiagnosticSeverity.Error, RuleId.AccessibilityLabelWithoutElement))
                 }
 
                 if (isA11yNode && isA11yNode.value === true && !a11yLabelNode && type !== 'text' && type !== 'button') {
-                    diagnostics.push(new vscode.Diagnostic(nodeRange(isA11yNode.parent.children[0]), '【无障碍检查】对于非 `text`, `button` 类型的节点，如果打开了 `is-accessibility-element`，必须同时设置 `accessibility-label`，自行拼接朗读的文本\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', vscode.DiagnosticSeverity.Error))
+                    diagnostics.push(Diagnostic.create(nodeRange(isA11yNode.parent.children[0]), '【无障碍检查】对于非 `text`, `button` 类型的节点，如果打开了 `is-accessibility-element`，必须同时设置 `accessibility-label`，自行拼接朗读的文本\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', DiagnosticSeverity.Error, RuleId.AccessibilityElementWithoutLabel))
                 }
 
                 if (isA11yNode && isA11yNode.value === true) {
                     if (hasAccessibilityDepth > 0) {
-                        diagnostics.push(new vscode.Diagnostic(nodeRange(isA11yNode), '【无障碍检查】嵌套的两个节点不能同时打开 `is-accessibility-element`\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', vscode.DiagnosticSeverity.Error))
+                        diagnostics.push(Diagnostic.create(nodeRange(isA11yNode), '【无障碍检查】嵌套的两个节点不能同时打开 `is-accessibility-element`\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', DiagnosticSeverity.Error, RuleId.AccessibilityNested))
                     }
                     hasAccessibilityDepth++;
                 }
 
                 const onTapNode = getPropertyNode(node.node, 'on-tap')
                 if (onTapNode && !isA11yNode) {
-                    diagnostics.push(new vscode.Diagnostic(nodeRange(onTapNode.parent.children[0]), '【无障碍检查】有 `on-tap` 的节点必须设置 `is-accessibility-element` 属性（可以设置为 false）\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', vscode.DiagnosticSeverity.Error))
+                    diagnostics.push(Diagnostic.create(nodeRange(onTapNode.parent.children[0]), '【无障碍检查】有 `on-tap` 的节点必须设置 `is-accessibility-element` 属性（可以设置为 false）\n\n*如果确定不需要进行无障碍适配，可以在模板根节点设置 `disable-accessibility-check` 属性关闭无障碍检查*', DiagnosticSeverity.Error, RuleId.AccessibilityOnTap))
                 }
             }
 
@@ -1690,15 +2794,17 @@ export class MistDocument {
         const layoutNode = getPropertyNode(this.rootNode, 'layout')
         const expVersionNode = getPropertyNode(this.rootNode, 'exp-version')
         if (layoutNode && (!expVersionNode || expVersionNode.value < 2)) {
-            diagnostics.push(new vscode.Diagnostic(nodeRange(expVersionNode || layoutNode.parent.children[0]), '建议使用新版本表达式，详见[文档](https://yuque.antfin-inc.com/mist/doc/yqsn0x#185f7bf6)', vscode.DiagnosticSeverity.Warning))
+            diagnostics.push(Diagnostic.create(nodeRange(expVersionNode || layoutNode.parent.children[0]), '建议使用新版本表达式，详见[文档](https://yuque.antfin-inc.com/mist/doc/yqsn0x#185f7bf6)', DiagnosticSeverity.Warning, RuleId.ExpVersion))
         }
         
         return diagnostics;
     }
 
-    private onDidChangeTextDocument(event: TextDocumentChangeEvent) {
+    private update(document: TextDocument) {
+        this.document = document;
         this.template = null;
         this.rootNode = null;
+        this.dataContract = null;
     }
 
     private parseTemplate() {
@@ -1716,12 +2822,12 @@ export class MistDocument {
 
     // "abc ${expression1} ${a + max(a, b.c|) + d} xxx" ⟹ ") + d"
     // "$:a + max(a, b.c|) + d" ⟹ ) + d
-    private getTrailingExpressionAtLocation(location: json.Location, position: vscode.Position) {
+    private getTrailingExpressionAtLocation(location: json.Location, position: Position) {
         let document = this.document;
         if (!location.isAtPropertyKey && location.previousNode.type === 'string') {
             let start = location.previousNode.offset + 1;
             let end = location.previousNode.offset + location.previousNode.length - 1;
-            let str = document.getText(new vscode.Range(document.positionAt(start), document.positionAt(end)));
+            let str = document.getText(Range.create(document.positionAt(start), document.positionAt(end)));
             let pos = document.offsetAt(position) - start;
 
             if (str.startsWith("$:")) {
@@ -1748,12 +2854,12 @@ export class MistDocument {
 
     // "abc ${expression1} ${a + max(a, b.c|) + d} xxx" ⟹ "a + max(a, b.c"
     // "$:a + max(a, b.c|) + d" ⟹ "a + max(a, b.c"
-    private getExpressionAtLocation(location: json.Location, position: vscode.Position) {
+    private getExpressionAtLocation(location: json.Location, position: Position) {
         let document = this.document;
         if (!location.isAtPropertyKey && location.previousNode && location.previousNode.type === 'string') {
             let start = location.previousNode.offset + 1;
             let end = location.previousNode.offset + location.previousNode.length - 1;
-            let str = document.getText(new vscode.Range(document.positionAt(start), document.positionAt(end)));
+            let str = document.getText(Range.create(document.positionAt(start), document.positionAt(end)));
             let pos = document.offsetAt(position) - start;
 
             if (str.startsWith("$:")) {
@@ -1904,8 +3010,14 @@ export class MistDocument {
         
         let data = this.getData();
         let dataDict = data ? data.data : {};
+        let contract = this.getDataContract();
+        let contractType = contract && contract.type;
 
-        if (data) {
+        if (contractType) {
+            let map = contractType.getMap();
+            Object.keys(map).forEach(key => pushVariable(new Variable(key, map[key])));
+        }
+        else if (data) {
             data.node.children.forEach(c => {
                 if (c.children.length === 2) {
                     let key = c.children[0].value;
@@ -1914,14 +3026,25 @@ export class MistDocument {
             });
         }
         
-        pushVariable(new Variable('_data_', dataDict, _DATA_DESC, true));
+        pushVariable(new Variable('_data_', contractType || dataDict, _DATA_DESC, true));
 
         if (this.template.data instanceof Object) {
             dataDict = {...dataDict, ...this.template.data};
         }
         pushVarsDict(json.findNodeAtLocation(this.rootNode, ['data']));
 
-        pushVariable(new Variable('_data_', dataDict, _DATA_DESC, true));
+        pushVariable(new Variable('_data_', contractType ? this.declaredDataType(contractType, typeContext) : dataDict, _DATA_DESC, true));
+
+        let paramsNode = json.findNodeAtLocation(this.rootNode, ['params']);
+        if (paramsNode && paramsNode.type === 'object') {
+            paramsNode.children.forEach(c => {
+                if (c.children.length === 2) {
+                    let param = getNodeValue(c.children[1]) || {};
+                    let type = typeof(param.type) === 'string' && Type.getType(param.type) || Type.Any;
+                    pushVariable(new Variable(c.children[0].value, type, param.description || '组件入参').setNode(c));
+                }
+            });
+        }
 
         if (location.path[0] !== 'data' && location.path[0] !== 'state') {
             pushVariable(new Variable('state', this.template.state || null, '模版状态', true));
@@ -1929,6 +3052,7 @@ export class MistDocument {
         
         let path = [...location.path];
         let node = this.nodeAtPath(path);
+        let currentNode = node;
         let inRepeat = path.length > 0 && path[0] === 'repeat';
         let nodeStack = [];
         while (node) {
@@ -1970,6 +3094,18 @@ export class MistDocument {
         if (inEvent) {
             let eventParamsName = '_event_'
             pushVariable(new Variable(eventParamsName, this.getEventParamsType(path[0] as string), '事件回调对象'))
+
+            // success/error/finish 回调中可以访问 Action 的执行结果
+            let actionNode = getPropertyNode(currentNode ? currentNode.node : this.rootNode, path[0] as string);
+            for (let i = 1; actionNode && i < path.length; i++) {
+                let segment = path[i];
+                if (actionNode.type === 'object' && (segment === 'success' || segment === 'error' || segment === 'finish')) {
+                    let resultNode = getPropertyNode(actionNode, 'result');
+                    let name = resultNode && typeof(resultNode.value) === 'string' ? resultNode.value : '_result_';
+                    pushVariable(new Variable(name, Type.Any, 'Action 的执行结果').setNode(resultNode ? resultNode.parent : null));
+                }
+                actionNode = json.findNodeAtLocation(actionNode, [segment]);
+            }
         }
 
         return {
@@ -2028,7 +3164,7 @@ export class MistDocument {
         offset: number
     }[] {
         let position = this.document.positionAt(stringNode.offset);
-        let rawString = this.document.getText(new vscode.Range(position, position.translate(0, stringNode.length)));
+        let rawString = this.document.getText(Range.create(position, translate(position, 0, stringNode.length)));
         if (rawString.startsWith("\"$:")) {
             return [{
                 string: new JsonString(rawString.slice(3, -1)),
@@ -2098,11 +3234,11 @@ ${s.required.map(p => `"${p}": ${this.schemaSnippet(s.properties[p]) || '$0'}`).
         return '';
     }
 
-    private schemaEnums(s: Schema): [any, string, vscode.CompletionItemKind][] {
+    private schemaEnums(s: Schema): [any, string, CompletionItemKind][] {
         if (s && typeof(s) === 'object') {
             if (s.enum) {
                 let enums = s.enum;
-                enums = enums.map((e, i) => [e, s.enumDescriptions ? s.enumDescriptions[i] : null, vscode.CompletionItemKind.EnumMember]);
+                enums = enums.map((e, i) => [e, s.enumDescriptions ? s.enumDescriptions[i] : null, CompletionItemKind.EnumMember]);
                 if (s.type) {
                     enums = enums.filter(e => this.valueType(e[0]) === s.type);
                 }
@@ -2110,8 +3246,8 @@ ${s.required.map(p => `"${p}": ${this.schemaSnippet(s.properties[p]) || '$0'}`).
             }
             else if (s.type) {
                 switch (s.type) {
-                    case 'boolean': return [[true, null, vscode.CompletionItemKind.Constant], [false, null, vscode.CompletionItemKind.Constant]];
-                    case 'null': return [[null, null, vscode.CompletionItemKind.Constant]];
+                    case 'boolean': return [[true, null, CompletionItemKind.Constant], [false, null, CompletionItemKind.Constant]];
+                    case 'null': return [[null, null, CompletionItemKind.Constant]];
                 }
             }
             else if (s.oneOf) {
@@ -2121,6 +3257,15 @@ ${s.required.map(p => `"${p}": ${this.schemaSnippet(s.properties[p]) || '$0'}`).
         return [];
     }
 
+    // 声明了数据类型时 `_data_` 的类型，模板 `data` 中的字段会追加到数据中
+    private declaredDataType(type: ObjectType, typeContext: ExpressionContext): IType {
+        let map = {...type.getMap()};
+        if (this.template.data instanceof Object) {
+            Object.keys(this.template.data).forEach(key => map[key] = typeContext.get(key) || Type.Any);
+        }
+        return new ObjectType(map, type.getRequiredProperties(), type.getIndexType());
+    }
+
     private getDataType(obj: any): IType {
         if (obj instanceof IType) return obj;
         if (obj === undefined || obj === null) {
@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+'use strict';
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver-types';
+import { MistDocument } from './mistDocument';
+import MistDiagnosticProvider from './diagnosticProvider';
+import { MistRules } from './rules';
+import { readTextDocument } from './utils/document';
+import { ComponentHelper } from './componentHelper';
+
+type OutputFormat = 'text' | 'json' | 'sarif';
+
+export type FileDiagnostics = {
+    file: string;
+    diagnostics: Diagnostic[];
+}
+
+const USAGE = `用法: mist-lint [选项] <目录或文件>...
+
+选项:
+  -f, --format <text|json|sarif>  输出格式，默认 text
+  -o, --output <file>             输出到文件，默认输出到标准输出
+  -h, --help                      显示帮助`;
+
+function severityName(severity: DiagnosticSeverity) {
+    switch (severity) {
+        case DiagnosticSeverity.Error: return 'error';
+        case DiagnosticSeverity.Warning: return 'warning';
+        case DiagnosticSeverity.Information: return 'info';
+        default: return 'hint';
+    }
+}
+
+function sarifLevel(severity: DiagnosticSeverity) {
+    switch (severity) {
+        case DiagnosticSeverity.Error: return 'error';
+        case DiagnosticSeverity.Warning: return 'warning';
+        default: return 'note';
+    }
+}
+
+export function findMistFiles(target: string): string[] {
+    if (fs.statSync(target).isFile()) {
+        return target.endsWith('.mist') ? [target] : [];
+    }
+    return ComponentHelper.findTemplateFiles(target);
+}
+
+export function formatText(results: FileDiagnostics[]) {
+    let lines: string[] = [];
+    results.forEach(r => {
+        r.diagnostics.forEach(d => {
+            let { line, character } = d.range.start;
+            lines.push(`${path.relative(process.cwd(), r.file)}:${line + 1}:${character + 1} - ${severityName(d.severity)}: ${d.message}${d.code ? ` (${d.code})` : ''}`);
+        });
+    });
+    let all = [].concat(...results.map(r => r.diagnostics)) as Diagnostic[];
+    let errorCount = all.filter(d => d.severity === DiagnosticSeverity.Error).length;
+    let warningCount = all.filter(d => d.severity === DiagnosticSeverity.Warning).length;
+    lines.push(`检查了 ${results.length} 个模板，${errorCount} 个错误，${warningCount} 个警告`);
+    return lines.join('\n');
+}
+
+export function formatJson(results: FileDiagnostics[]) {
+    return JSON.stringify(results.map(r => ({
+        file: path.relative(process.cwd(), r.file),
+        diagnostics: r.diagnostics.map(d => ({
+            severity: severityName(d.severity),
+            rule: d.code,
+            message: d.message,
+            range: d.range
+        }))
+    })), null, 2);
+}
+
+export function formatSarif(results: FileDiagnostics[]) {
+    let sarif = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'mist-lint',
+                    informationUri: 'https://github.com/Vizzle/vscode-mist'
+                }
+            },
+            results: [].concat(...results.map(r => r.diagnostics.map(d => ({
+                ruleId: d.code,
+                level: sarifLevel(d.severity),
+                message: { text: d.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: path.relative(process.cwd(), r.file).split(path.sep).join('/') },
+                        region: {
+                            startLine: d.range.start.line + 1,
+                            startColumn: d.range.start.character + 1,
+                            endLine: d.range.end.line + 1,
+                            endColumn: d.range.end.character + 1
+                        }
+                    }
+                }]
+            }))))
+        }]
+    };
+    return JSON.stringify(sarif, null, 2);
+}
+
+export async function lint(targets: string[]): Promise<FileDiagnostics[]> {
+    let diagnosticProvider = new MistDiagnosticProvider();
+    // 命令行由用户主动执行，直接加载自定义规则
+    MistRules.setTrusted(true);
+    let results: FileDiagnostics[] = [];
+    for (let target of targets) {
+        target = path.resolve(target);
+        // 与插件一致，以目录作为根目录加载数据和 mist-extension.json
+        MistDocument.initialize(fs.statSync(target).isDirectory() ? target : path.dirname(target));
+        for (let file of findMistFiles(target)) {
+            let document = readTextDocument(file);
+            MistDocument.onDidOpenTextDocument(document);
+            results.push({ file, diagnostics: await diagnosticProvider.validate(document) });
+            MistDocument.onDidCloseTextDocument(document);
+        }
+    }
+    return results;
+}
+
+async function main(args: string[]) {
+    let format: OutputFormat = 'text';
+    let output: string;
+    let targets: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        let arg = args[i];
+        if (arg === '-h' || arg === '--help') {
+            console.log(USAGE);
+            return 0;
+        }
+        else if (arg === '-f' || arg === '--format') {
+            format = args[++i] as OutputFormat;
+            if (['text', 'json', 'sarif'].indexOf(format) < 0) {
+                console.error(`不支持的输出格式 '${format}'\n\n${USAGE}`);
+                return 2;
+            }
+        }
+        else if (arg === '-o' || arg === '--output') {
+            output = args[++i];
+        }
+        else if (arg.startsWith('-')) {
+            console.error(`未知选项 '${arg}'\n\n${USAGE}`);
+            return 2;
+        }
+        else {
+            targets.push(arg);
+        }
+    }
+
+    if (targets.length === 0) {
+        console.error(USAGE);
+        return 2;
+    }
+    let missing = targets.find(t => !fs.existsSync(t));
+    if (missing) {
+        console.error(`'${missing}' 不存在`);
+        return 2;
+    }
+
+    // 类型定义加载时的日志会混入输出，只保留 lint 结果
+    let { log, warn, error } = console;
+    console.log = console.warn = console.error = () => {};
+    let results = await lint(targets);
+    Object.assign(console, { log, warn, error });
+
+    let text = format === 'json' ? formatJson(results) : format === 'sarif' ? formatSarif(results) : formatText(results);
+    if (output) {
+        fs.writeFileSync(output, text + '\n', 'utf-8');
+    }
+    else {
+        console.log(text);
+    }
+
+    let hasError = results.some(r => r.diagnostics.some(d => d.severity === DiagnosticSeverity.Error));
+    return hasError ? 1 : 0;
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => process.exit(code), e => {
+        console.error(e);
+        process.exit(2);
+    });
+}
@@ -1,11 +1,11 @@
 'use strict';
 
-import { MistDocument } from './mistDocument'
+import { MistDocument, MistData } from './mistDocument'
 import * as convertor from './convertor';
 import { MistContentProvider, isMistFile, MistPreviewPanel } from './previewProvider';
 import MistNodeTreeProvider from './nodeTreeProvider';
+import MistComponentTreeProvider from './componentTreeProvider';
 import MistCompletionProvider from './completionProvider'
-import MistDiagnosticProvider from './diagnosticProvider'
 import { format } from './formatter'
 import * as color from './utils/color'
 
@@ -13,25 +13,33 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { commands, ExtensionContext, TextEditor, TextEditorEdit } from 'vscode';
-import { MistSignatureHelpProvider } from './signatureHelpProvider';
 import { StatusBarManager } from './statusBarManager';
 import { registerMistServer, stopServerFunc } from './mistServer';
 import { registerCompiledPreview } from './compiledPreview';
 import { registerMistTemplate } from './compileUpload';
+import { registerLanguageClient, validateWorkspace, getExpressionValues } from './languageClient';
+import { TextDocument } from 'vscode-languageserver-types';
+import { ComponentHelper } from './componentHelper';
+import { MockDataHelper } from './mockDataHelper';
+import Device, { DeviceProfile, allDevices } from './browser/previewDevice';
+import { runSnapshots, writeReport, acceptSnapshots, summarize, DEFAULT_DEVICES } from './mistSnapshot';
 
 export function activate(context: ExtensionContext) {
     setupMistDocument(context);
+    registerLanguageClient(context);
     setupStatusBarManager(context);
     registerConvertor(context);
     registerMistServer(context);
     registerPreviewProvider(context);
     registerNodeTreeProvider(context);
+    registerComponentTreeProvider(context);
     registerCompletionProvider(context);
-    registerSignatureHelpProvider(context);
-    registerDiagnosticProvider(context);
     registerValidateWorkspace(context);
+    registerMockDataGenerator(context);
+    registerSnapshots(context);
     registerFormatter(context);
     registerColorDecorations(context);
+    registerInlineValueDecorations(context);
     registerCompiledPreview(context);
     registerMistTemplate(context);
 }
@@ -43,24 +51,31 @@ function setupStatusBarManager(context: ExtensionContext) {
     }));
 }
 
+function textDocument(document: vscode.TextDocument) {
+    return TextDocument.create(document.uri.toString(), document.languageId, document.version, document.getText());
+}
+
 function setupMistDocument(context: ExtensionContext) {
     context.subscriptions.push(vscode.workspace.onDidOpenTextDocument(document => {
-        MistDocument.onDidOpenTextDocument(document);
+        MistDocument.onDidOpenTextDocument(textDocument(document));
     }));
 
     context.subscriptions.push(vscode.workspace.onDidCloseTextDocument(document => {
-        MistDocument.onDidCloseTextDocument(document);
+        MistDocument.onDidCloseTextDocument(textDocument(document));
     }));
 
     context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
-        MistDocument.onDidSaveTextDocument(document);
+        MistDocument.onDidSaveTextDocument(textDocument(document));
+        if (document.languageId !== 'mist' && document.fileName.endsWith('.json')) {
+            vscode.commands.executeCommand('mist.updatePreview');
+        }
     }));
 
     context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => {
-        MistDocument.onDidChangeTextDocument(event);
+        MistDocument.onDidChangeTextDocument(textDocument(event.document));
     }));
 
-    MistDocument.initialize();
+    MistDocument.initialize(vscode.workspace.rootPath, vscode.workspace.textDocuments.map(textDocument));
 }
 
 export function deactivate(context: ExtensionContext) {
@@ -81,6 +96,19 @@ function registerPreviewProvider(context: ExtensionContext) {
         })
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('mist.showFeedPreview', (uri?: vscode.Uri) => {
+            const editor = vscode.window.activeTextEditor;
+            const file = uri ? uri.fsPath : editor && editor.document.uri.scheme === 'file' ? editor.document.fileName : null;
+            if (!file || !file.endsWith('.json')) {
+                vscode.window.showWarningMessage("请选择业务数据 JSON 文件");
+                return;
+            }
+            MistPreviewPanel.createOrShow(context.extensionPath);
+            contentProvider.showFeed(file);
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('mist.updatePreview', () => {
             contentProvider.render(true)
@@ -101,6 +129,12 @@ function registerPreviewProvider(context: ExtensionContext) {
         contentProvider.update()
     }));
 
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('mist.preview')) {
+            contentProvider.render(true);
+        }
+    }));
+
     context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
         if (isMistFile(document)) {
             contentProvider.update()
@@ -216,7 +250,7 @@ function registerNodeTreeProvider(context: ExtensionContext) {
     context.subscriptions.push(vscode.window.onDidChangeTextEditorSelection(e => {
         if (!treeView.visible) return
 
-        const mistDoc = MistDocument.getDocumentByUri(e.textEditor.document.uri)
+        const mistDoc = MistDocument.getDocumentByUri(e.textEditor.document.uri.toString())
         if (!mistDoc) return
 
         const node = mistDoc.nodeAtOffset(mistDoc.getRootMistNode(), e.textEditor.document.offsetAt(e.selections[0].start))
@@ -233,7 +267,7 @@ function registerNodeTreeProvider(context: ExtensionContext) {
         const textEditor = vscode.window.activeTextEditor
         if (!textEditor) return
 
-        const mistDoc = MistDocument.getDocumentByUri(textEditor.document.uri)
+        const mistDoc = MistDocument.getDocumentByUri(textEditor.document.uri.toString())
         if (!mistDoc) return
 
         const node = mistDoc.nodeAtOffset(mistDoc.getRootMistNode(), textEditor.document.offsetAt(textEditor.selection.start))
@@ -245,11 +279,60 @@ function registerNodeTreeProvider(context: ExtensionContext) {
     })
 }
 
+function registerComponentTreeProvider(context: ExtensionContext) {
+    const componentTreeProvider = new MistComponentTreeProvider(context);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider('mistComponentTree', componentTreeProvider));
+
+    context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(editor => {
+        componentTreeProvider.update();
+    }));
+
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
+        if (document.languageId === 'mist') {
+            ComponentHelper.invalidateImportGraph(document.fileName);
+            componentTreeProvider.update();
+        }
+    }));
+
+    const watcher = vscode.workspace.createFileSystemWatcher('**/*.mist');
+    context.subscriptions.push(watcher);
+    context.subscriptions.push(watcher.onDidChange(uri => {
+        ComponentHelper.invalidateImportGraph(uri.fsPath);
+        componentTreeProvider.update();
+    }));
+    [watcher.onDidCreate, watcher.onDidDelete].forEach(event => context.subscriptions.push(event(() => {
+        ComponentHelper.invalidateImportGraph();
+        componentTreeProvider.update();
+    })));
+
+    context.subscriptions.push(commands.registerCommand('mist.showComponentImpact', (uri?: vscode.Uri) => {
+        let file = uri instanceof vscode.Uri ? uri.fsPath : vscode.window.activeTextEditor && vscode.window.activeTextEditor.document.languageId === 'mist' && vscode.window.activeTextEditor.document.fileName;
+        if (!file) {
+            vscode.window.showWarningMessage("请先打开 .mist 模版文件");
+            return;
+        }
+        let rootPath = vscode.workspace.rootPath || path.dirname(file);
+        let affected = ComponentHelper.getAffectedTemplates(file, rootPath);
+        if (affected.length === 0) {
+            vscode.window.showInformationMessage(`没有模版引用 ${path.basename(file)}`);
+            return;
+        }
+        let direct = ComponentHelper.getImporters(file, rootPath);
+        let items = affected.map(f => ({
+            label: path.relative(rootPath, f),
+            description: direct.indexOf(f) >= 0 ? '直接引用' : '间接引用',
+            file: f
+        }));
+        vscode.window.showQuickPick(items, { placeHolder: `修改 ${path.basename(file)} 会影响 ${affected.length} 个模版` }).then(item => {
+            if (item) {
+                vscode.window.showTextDocument(vscode.Uri.file(item.file));
+            }
+        });
+    }));
+}
+
 function registerCompletionProvider(context: ExtensionContext) {
     let completionProvider = new MistCompletionProvider();
-    context.subscriptions.push(vscode.languages.registerCompletionItemProvider({ language: 'mist' }, completionProvider));
-    context.subscriptions.push(vscode.languages.registerHoverProvider({ language: 'mist' }, completionProvider));
-    context.subscriptions.push(vscode.languages.registerDefinitionProvider({ language: 'mist' }, completionProvider));
     context.subscriptions.push(vscode.window.onDidChangeTextEditorSelection(event => {
         if (event.textEditor.document.languageId === 'mist') {
             completionProvider.selectionDidChange(event.textEditor);
@@ -270,58 +353,99 @@ function registerCompletionProvider(context: ExtensionContext) {
     vscode.commands.registerCommand("mist.triggerSuggest", () => {
         let textEditor = vscode.window.activeTextEditor;
         if (!textEditor) return;
-        let doc = textEditor.document;
-        let sel = textEditor.selection.start;
-        let items = completionProvider.provideCompletionItems(doc, sel, null);
-        if (items && items.length > 0) {
-            vscode.commands.executeCommand("editor.action.triggerSuggest");
-        }
+        completionProvider.triggerSuggest(textEditor.document, textEditor.selection.start);
     });
 }
 
-function registerSignatureHelpProvider(context: ExtensionContext) {
-    let signatureHelpProvider = new MistSignatureHelpProvider();
-    context.subscriptions.push(vscode.languages.registerSignatureHelpProvider({ language: 'mist' }, signatureHelpProvider, '(', ','));
-}
-
-let diagnosticProvider: MistDiagnosticProvider;
+function registerValidateWorkspace(context: ExtensionContext) {
+    context.subscriptions.push(commands.registerCommand('mist.validateWorkspace', () => {
+        if (!vscode.workspace.rootPath) {
+            vscode.window.showWarningMessage("未打开文件夹");
+            return;
+        }
 
-function registerDiagnosticProvider(context: ExtensionContext) {
-    diagnosticProvider = new MistDiagnosticProvider(context);
-    context.subscriptions.push(diagnosticProvider);
+        validateWorkspace().then(count => {
+            if (count === 0) {
+                vscode.window.showWarningMessage("没有找到 .mist 模版文件");
+                return;
+            }
 
-    context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => {
-        diagnosticProvider.onChange(event.document);
+            vscode.commands.executeCommand("workbench.action.problems.focus");
+        });
     }));
+}
 
-    context.subscriptions.push(vscode.workspace.onDidOpenTextDocument(document => {
-        diagnosticProvider.onChange(document);
-    }));
+function registerMockDataGenerator(context: ExtensionContext) {
+    context.subscriptions.push(commands.registerTextEditorCommand('mist.generateMockData', async (textEditor: TextEditor) => {
+        const mistDoc = MistDocument.getDocumentByUri(textEditor.document.uri.toString());
+        if (!mistDoc || textEditor.document.isUntitled) {
+            vscode.window.showWarningMessage("请先保存 .mist 模版文件");
+            return;
+        }
 
-    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
-        diagnosticProvider.onChange(document);
-    }));
+        const file = mistDoc.fileName.replace(/\.mist$/, '.mock.json');
+        if (fs.existsSync(file)) {
+            const result = await vscode.window.showWarningMessage(`${path.basename(file)} 已存在，确定要覆盖吗？`, "覆盖");
+            if (result !== "覆盖") return;
+        }
 
+        const contract = mistDoc.getDataContract();
+        const skeleton = MockDataHelper.generateSkeleton(contract && contract.schema || mistDoc.inferDataSchema());
+        fs.writeFileSync(file, JSON.stringify(skeleton, null, 2) + '\n', { encoding: "utf-8" });
+        MistData.openFile(file);
+        vscode.window.showTextDocument(vscode.Uri.file(file));
+    }));
 }
 
-function registerValidateWorkspace(context: ExtensionContext) {
-    context.subscriptions.push(commands.registerCommand('mist.validateWorkspace', () => {
+function registerSnapshots(context: ExtensionContext) {
+    context.subscriptions.push(commands.registerCommand('mist.runSnapshots', async () => {
         if (!vscode.workspace.rootPath) {
             vscode.window.showWarningMessage("未打开文件夹");
             return;
         }
 
-        vscode.workspace.findFiles("*.mist").then(files => {
-            if (files.length === 0) {
+        const config = vscode.workspace.getConfiguration('mist.snapshot');
+        const defaultDevices = config.get<string[]>('devices', DEFAULT_DEVICES);
+        const customDevices = vscode.workspace.getConfiguration('mist.preview').get<DeviceProfile[]>('devices', []);
+        const picked = await vscode.window.showQuickPick(allDevices(customDevices).map(d => ({ label: d.model, picked: defaultDevices.indexOf(d.model) >= 0 })), {
+            canPickMany: true,
+            placeHolder: "选择生成快照的设备"
+        });
+        if (!picked || picked.length === 0) return;
+
+        const output = path.join(vscode.workspace.rootPath, '.mist-snapshots');
+        try {
+            const results = await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: "正在生成快照" }, progress => {
+                return runSnapshots([vscode.workspace.rootPath], {
+                    devices: picked.map(p => p.label),
+                    output,
+                    chromePath: config.get<string>('chromePath') || undefined,
+                    customDevices,
+                    onProgress: file => progress.report({ message: file })
+                });
+            });
+            if (results.length === 0) {
                 vscode.window.showWarningMessage("没有找到 .mist 模版文件");
                 return;
             }
 
-            let promises = files.map(uri => vscode.workspace.openTextDocument(uri).then(doc => diagnosticProvider.validate(doc)));
-            Promise.all(promises).then(() => {
-                vscode.commands.executeCommand("workbench.action.problems.focus");
-            });
-        });
+            const report = writeReport(results, output);
+            const changed = results.some(r => r.status === 'changed');
+            const actions = changed ? ["打开报告", "更新基准"] : ["打开报告"];
+            const showMessage = changed || results.some(r => r.status === 'error') ? vscode.window.showWarningMessage : vscode.window.showInformationMessage;
+            const action = await showMessage(summarize(results), ...actions);
+            if (action === "打开报告") {
+                vscode.env.openExternal(vscode.Uri.file(report));
+            }
+            else if (action === "更新基准") {
+                acceptSnapshots(results, output);
+                writeReport(results, output);
+                vscode.window.showInformationMessage("已更新基准快照");
+            }
+        }
+        catch (e) {
+            vscode.window.showErrorMessage(`生成快照失败：${e.message || e}`);
+        }
     }));
 }
 
@@ -358,6 +482,95 @@ function registerFormatter(context: ExtensionContext) {
     }, '\n', ':', '"', '{', '['));
 }
 
+function registerInlineValueDecorations(context: ExtensionContext) {
+    const maxLength = 40;
+    // 编辑器中没有选择设备，按 iPhone 8 计算设备相关的变量
+    const builtin = new Device('iPhone 8', 'iOS', 375, 667, 2, 20, 44).builtinVars();
+    let enabled = context.workspaceState.get<boolean>('mist.inlineValues', true);
+    let timer: NodeJS.Timer = null;
+
+    let decorationType = vscode.window.createTextEditorDecorationType({
+        after: {
+            color: new vscode.ThemeColor('editorCodeLens.foreground'),
+            margin: '0 0 0 0.5em',
+            fontStyle: 'italic'
+        }
+    });
+    context.subscriptions.push(decorationType);
+
+    function formatValue(value: any) {
+        let text = JSON.stringify(value);
+        if (text === undefined) {
+            text = String(value);
+        }
+        return text.length > maxLength ? text.slice(0, maxLength - 1) + '…' : text;
+    }
+
+    async function updateInlineValues(editor: vscode.TextEditor) {
+        if (!editor || editor.document.languageId !== 'mist') {
+            return;
+        }
+        if (!enabled) {
+            editor.setDecorations(decorationType, []);
+            return;
+        }
+        let document = editor.document;
+        let version = document.version;
+        let values: { offset: number, value: any }[];
+        try {
+            // 表达式在语言服务中计算，避免阻塞插件进程
+            values = await getExpressionValues(document.uri.toString(), builtin);
+        }
+        catch (e) {
+            console.error(`failed to compute inline values: ${e.message || e}`);
+            values = [];
+        }
+        // 计算期间文档已经修改，位置可能已经失效，等待下一次更新
+        if (document.version !== version) {
+            return;
+        }
+        editor.setDecorations(decorationType, values.map(v => {
+            let position = document.positionAt(v.offset);
+            return <vscode.DecorationOptions> {
+                range: new vscode.Range(position, position),
+                renderOptions: {
+                    after: {
+                        contentText: `= ${formatValue(v.value)}`
+                    }
+                }
+            };
+        }));
+    }
+
+    function updateAllEditors() {
+        vscode.window.visibleTextEditors.forEach(updateInlineValues);
+    }
+
+    context.subscriptions.push(vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document.languageId !== 'mist') return;
+        if (timer) {
+            clearTimeout(timer);
+        }
+        timer = setTimeout(() => {
+            timer = null;
+            vscode.window.visibleTextEditors.filter(e => e.document === event.document).forEach(updateInlineValues);
+        }, 300);
+    }));
+
+    context.subscriptions.push(vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(updateInlineValues)));
+
+    context.subscriptions.push(commands.registerCommand('mist.toggleInlineValues', () => {
+        enabled = !enabled;
+        context.workspaceState.update('mist.inlineValues', enabled);
+        updateAllEditors();
+    }));
+
+    // 切换数据后调用
+    context.subscriptions.push(commands.registerCommand('mist.updateInlineValues', updateAllEditors));
+
+    updateAllEditors();
+}
+
 function registerColorDecorations(context: ExtensionContext) {
     let decorationType = vscode.window.createTextEditorDecorationType({
         before: {
@@ -5,7 +5,16 @@ import * as path from 'path'
 import * as request from 'request'
 import * as vscode from 'vscode'
 import { commands, ExtensionContext } from 'vscode'
+import * as ws from 'ws'
 import { isMistFile } from './previewProvider'
+import { LiveReloadHub, LiveReloadClient } from './liveReload'
+import { MistDocument } from './mistDocument'
+import { ImageHelper } from './imageHelper'
+import { Platform, LogLevel, decodeMessage } from './browser/protocol'
+import { DeviceLogHelper, DeviceReport } from './deviceLog'
+import { TemplateSourceMap, compileWithSourceMap, compileErrorRange } from './sourceMap'
+import { readTextDocument } from './utils/document'
+import { Range } from 'vscode-languageserver-types'
 
 export let stopServerFunc: () => void
 
@@ -13,6 +22,9 @@ enum CommandContext {
   IsDebugging = 'mist:isDebugging'
 }
 
+// POST /log 的请求体大小上限
+const MAX_LOG_SIZE = 1024 * 1024
+
 function setCommandContext(key: CommandContext | string, value: any) {
   return commands.executeCommand('setContext', key, value)
 }
@@ -24,15 +36,24 @@ export function registerMistServer(context: ExtensionContext) {
 
 function registerServer(context: ExtensionContext) {
   let server: http.Server
+  let wsServer: ws.Server
   let clientAddress: string
   let output: vscode.OutputChannel
+  let workingDir: string
+  const hub = LiveReloadHub.sharedInstance
+  const devices = () => hub.clients('device')
+  const pushTimers: { [uri: string]: NodeJS.Timer } = {}
+  const diagnostics = vscode.languages.createDiagnosticCollection('mist-device')
+  // 最近推送的编译结果到源码的映射，key 为平台和模版路径
+  const sourceMaps: { [key: string]: TemplateSourceMap } = {}
+  context.subscriptions.push(diagnostics)
   setCommandContext(CommandContext.IsDebugging, false)
   context.subscriptions.push(
     commands.registerCommand('mist.startServer', (uri) => {
       if (server) {
         return
       }
-      let workingDir = vscode.workspace.rootPath
+      workingDir = vscode.workspace.rootPath
       if (!workingDir) {
         vscode.window.showErrorMessage('未打开文件夹')
         return
@@ -43,6 +64,44 @@ function registerServer(context: ExtensionContext) {
         clientAddress = req.connection.remoteAddress
         output.appendLine(`> ${req.method}\t${req.url}`)
 
+        // 不使用 WebSocket 的客户端通过 POST 上报日志，内容与 log、error 消息相同
+        if (req.method === 'POST' && req.url === '/log') {
+          let chunks: Buffer[] = []
+          let size = 0
+          let tooLarge = parseInt(req.headers['content-length'] as string) > MAX_LOG_SIZE
+          req.on('data', (chunk: Buffer) => {
+            // 超过上限后丢弃剩余的内容
+            if (tooLarge) return
+            size += chunk.length
+            tooLarge = size > MAX_LOG_SIZE
+            if (tooLarge) {
+              chunks = []
+            } else {
+              chunks.push(chunk)
+            }
+          })
+          req.on('end', () => {
+            if (tooLarge) {
+              res.writeHead(413, { 'Content-Type': 'text/plain;charset=utf-8' })
+              res.end(`日志内容不能超过 ${MAX_LOG_SIZE} 字节`)
+              return
+            }
+            try {
+              let message = decodeMessage(Buffer.concat(chunks).toString('utf8'))
+              if (message.type !== 'log' && message.type !== 'error') {
+                throw new Error(`不支持的消息类型 ${message.type}`)
+              }
+              handleReport(clientAddress, reportOf(message))
+              res.writeHead(200)
+            } catch (e) {
+              res.writeHead(400, { 'Content-Type': 'text/plain;charset=utf-8' })
+              res.write(e.message)
+            }
+            res.end()
+          })
+          return
+        }
+
         const file = path.join(workingDir, req.url)
         try {
           if (!fs.existsSync(file)) {
@@ -98,6 +157,10 @@ function registerServer(context: ExtensionContext) {
         vscode.window.showErrorMessage(errMsg)
       })
 
+      // 真机通过同一端口上的 WebSocket 订阅实时刷新，HTTP 请求仍然可用
+      wsServer = new ws.Server({ server })
+      hub.attach(wsServer)
+
       server.listen(serverPort, '0.0.0.0', function () {
         setCommandContext(CommandContext.IsDebugging, true)
         output = vscode.window.createOutputChannel('Mist Debug Server')
@@ -113,12 +176,64 @@ function registerServer(context: ExtensionContext) {
     })
   )
 
+  context.subscriptions.push(
+    hub.on('hello', client => {
+      if (client.kind !== 'device') return
+      log(`> 设备已连接：${describeDevice(client)}`)
+      initialDocuments(client).then(docs => docs.forEach(doc => pushTemplate(doc, [client])))
+    }),
+    hub.on('log', (client, message) => handleReport(client.name, reportOf(message), client.platform)),
+    hub.on('error', (client, message) => handleReport(client.name, reportOf(message), client.platform)),
+    hub.onDidCloseClient(client => {
+      if (client.kind !== 'device') return
+      log(`> 设备已断开：${describeDevice(client)}`)
+    })
+  )
+
+  context.subscriptions.push(
+    commands.registerCommand('mist.listDevices', async () => {
+      if (devices().length === 0) {
+        vscode.window.showInformationMessage(server ? '没有已连接的设备' : '调试服务器未启动')
+        return
+      }
+      let items = devices().map(client => ({
+        label: client.name,
+        description: `${client.platform} · ${client.address}`,
+        detail: `连接于 ${client.connectedAt.toLocaleTimeString()}，${client.templates ? `订阅 ${client.templates.join(', ')}` : '订阅所有模版'}`,
+        client
+      }))
+      let item = await vscode.window.showQuickPick(items, { placeHolder: '已连接的设备，选择后推送当前模版' })
+      if (!item) return
+      let editor = vscode.window.activeTextEditor
+      if (editor && isMistFile(editor.document)) {
+        pushTemplate(editor.document, [item.client])
+      }
+    })
+  )
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeTextDocument(event => {
+      let document = event.document
+      if (!server || !isMistFile(document) || devices().length === 0) return
+      let key = document.uri.toString()
+      clearTimeout(pushTimers[key])
+      pushTimers[key] = setTimeout(() => {
+        delete pushTimers[key]
+        pushTemplate(document, devices())
+      }, 300)
+    })
+  )
+
   context.subscriptions.push(
     vscode.workspace.onDidSaveTextDocument((document) => {
       let validFormat = isMistFile(document) || document.uri.path.endsWith('.json')
       if (!validFormat || !server) {
         return
       }
+      if (!isMistFile(document)) {
+        pushTemplatesUsingData(document.fileName)
+      }
+      // 兼容未使用 WebSocket 的旧客户端
       let clientPort = 10002
       let options = {
         hostname: clientAddress || '0.0.0.0',
@@ -134,7 +249,170 @@ function registerServer(context: ExtensionContext) {
     })
   )
 
+  function log(message: string) {
+    if (output) output.appendLine(message)
+  }
+
+  function reportOf(message: any): DeviceReport {
+    let levels: LogLevel[] = ['debug', 'info', 'warn', 'error']
+    let level: LogLevel = message.type === 'error' ? 'error' : levels.indexOf(message.level) >= 0 ? message.level : 'info'
+    return { level, path: typeof(message.path) === 'string' ? message.path : null, message: String(message.message), nodePath: message.nodePath, expression: message.expression }
+  }
+
+  /**
+   * 上报中的模版路径对应的文件，只接受工作区中存在的 `.mist` 文件
+   */
+  function reportedFile(reportPath: string) {
+    if (typeof(reportPath) !== 'string' || !workingDir) return null
+    let file = path.join(workingDir, reportPath)
+    return file.endsWith('.mist') && serverPath(file) && fs.existsSync(file) ? file : null
+  }
+
+  /**
+   * 输出客户端上报的日志，能定位到模版时附带源码位置，警告和错误同时显示为诊断信息。
+   * 设备上报的节点属于编译结果，通过推送时生成的映射定位，组件展开后的节点会定位到组件文件
+   */
+  function handleReport(source: string, report: DeviceReport, platform?: Platform) {
+    let location = report.path || ''
+    let file = reportedFile(report.path)
+    if (file) {
+      let uri = vscode.Uri.file(file)
+      let nodeRange: Range
+      let sourceMap = sourceMaps[`${platform}:${serverPath(file)}`] || sourceMaps[`ios:${serverPath(file)}`] || sourceMaps[`android:${serverPath(file)}`]
+      let index = DeviceLogHelper.nodeIndex(report.nodePath)
+      let nodeLocation = sourceMap && index !== null ? sourceMap.sourceOfNodeIndex(index) : null
+      if (nodeLocation) {
+        uri = vscode.Uri.parse(nodeLocation.uri)
+        nodeRange = nodeLocation.range
+        location = serverPath(uri.fsPath) || uri.fsPath
+      }
+      let mistDoc = MistDocument.getDocumentByUri(uri.toString())
+      let range = DeviceLogHelper.rangeOf(mistDoc ? mistDoc.document : readTextDocument(uri.fsPath), report, nodeRange)
+      if (range) {
+        location += `:${range.start.line + 1}:${range.start.character + 1}`
+      }
+      if (report.level === 'warn' || report.level === 'error') {
+        addDiagnostic(uri, range, `${report.message}（${source}）`, report.level === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning)
+      }
+    }
+    log(`[${new Date().toLocaleTimeString()}] [${source}] ${report.level.toUpperCase()} ${location ? location + ' ' : ''}${report.message}`)
+  }
+
+  function addDiagnostic(uri: vscode.Uri, range: Range, message: string, severity: vscode.DiagnosticSeverity) {
+    let vsRange = range ? new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character) : new vscode.Range(0, 0, 0, 0)
+    let diagnostic = new vscode.Diagnostic(vsRange, message, severity)
+    diagnostic.source = 'mist-device'
+    let list = diagnostics.get(uri) || []
+    // 设备重复渲染时会多次上报相同的错误
+    if (!list.some(d => d.message === diagnostic.message && d.range.isEqual(vsRange))) {
+      diagnostics.set(uri, [...list, diagnostic])
+    }
+  }
+
+  function describeDevice(client: LiveReloadClient) {
+    return `${client.name} (${client.platform}, ${client.address})`
+  }
+
+  /**
+   * 调试服务器上模版的路径，即相对于工作区的路径
+   */
+  function serverPath(file: string) {
+    let relative = path.relative(workingDir, file)
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return null
+    return '/' + relative.split(path.sep).join('/')
+  }
+
+  function isSubscribed(client: LiveReloadClient, templatePath: string) {
+    return !client.templates || client.templates.some(t => '/' + t.replace(/^\//, '') === templatePath)
+  }
+
+  /**
+   * 设备连接后先推送订阅的模版，未指定订阅时推送当前编辑的模版。订阅的路径不在工作区中时忽略
+   */
+  async function initialDocuments(client: LiveReloadClient) {
+    if (client.templates) {
+      let files = client.templates.map(t => path.join(workingDir, t)).filter(file => serverPath(file) && fs.existsSync(file))
+      return Promise.all(files.map(file => vscode.workspace.openTextDocument(file)))
+    }
+    let editor = vscode.window.activeTextEditor
+    return editor && isMistFile(editor.document) ? [editor.document] : []
+  }
+
+  /**
+   * 按平台编译模版并推送给订阅了该模版的设备，依次发送 template、images、data 和 refresh
+   */
+  async function pushTemplate(document: vscode.TextDocument, clients: LiveReloadClient[]) {
+    let templatePath = serverPath(document.fileName)
+    if (!templatePath) return
+    clients = clients.filter(c => isSubscribed(c, templatePath))
+    if (clients.length === 0) return
+    // 上报的问题属于旧版本的模版
+    diagnostics.delete(document.uri)
+
+    let mistDoc = MistDocument.getDocumentByUri(document.uri.toString())
+    let images = mistDoc ? ImageHelper.getImageFiles(mistDoc).map(image => {
+      let files = {}
+      Object.keys(image.files).forEach(scale => {
+        let file = serverPath(image.files[scale])
+        if (file) files[scale] = file
+      })
+      return { name: image.name, files }
+    }) : []
+    let data = mistDoc && mistDoc.getData()
+    let datas = mistDoc ? mistDoc.getDatas().map(d => ({ name: d.description(), data: d.data })) : []
+
+    let platforms: Platform[] = ['ios', 'android']
+    for (let platform of platforms) {
+      let targets = clients.filter(c => c.platform === platform)
+      if (targets.length === 0) continue
+      let template: string
+      try {
+        let result = await compileWithSourceMap(document.fileName, document.getText(), { platform, debug: true })
+        template = result.output
+        sourceMaps[`${platform}:${templatePath}`] = result.sourceMap
+      } catch (e) {
+        let range = mistDoc && compileErrorRange(e, mistDoc.document)
+        log(`> ${templatePath}${range ? `:${range.start.line + 1}:${range.start.character + 1}` : ''} 编译失败：${e.message || e}`)
+        targets.forEach(c => hub.send(c, 'error', { path: templatePath, message: `模板编译错误：${e.message || e}` }))
+        continue
+      }
+      targets.forEach(c => {
+        hub.send(c, 'template', { path: templatePath, template })
+        hub.send(c, 'images', { path: templatePath, images })
+        hub.send(c, 'data', { path: templatePath, datas, selectedData: data ? data.description() : null })
+        hub.send(c, 'refresh', { path: templatePath })
+      })
+      log(`> 已推送 ${templatePath} 到 ${targets.map(c => c.name).join(', ')}`)
+    }
+  }
+
+  /**
+   * 数据文件变化时重新推送使用该数据的模版，包括设备订阅的模版，以及未指定订阅时当前编辑的模版
+   */
+  async function pushTemplatesUsingData(dataFile: string) {
+    let clients = devices()
+    let documents: vscode.TextDocument[] = []
+    for (let client of clients) {
+      for (let document of await initialDocuments(client)) {
+        if (!documents.some(d => d.uri.toString() === document.uri.toString())) documents.push(document)
+      }
+    }
+    documents.filter(document => {
+      let mistDoc = MistDocument.getDocumentByUri(document.uri.toString()) || new MistDocument(readTextDocument(document.fileName))
+      return mistDoc.getDatas().some(d => path.resolve(d.file) === path.resolve(dataFile))
+    }).forEach(document => pushTemplate(document, clients))
+  }
+
   function stopServer() {
+    Object.keys(pushTimers).forEach(key => {
+      clearTimeout(pushTimers[key])
+      delete pushTimers[key]
+    })
+    if (wsServer) {
+      wsServer.close()
+      wsServer = null
+    }
+    diagnostics.clear()
     if (server) {
       server.close()
       server = null
@@ -0,0 +1,354 @@
+#!/usr/bin/env node
+'use strict';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import URI from 'vscode-uri';
+import { MistDocument } from './mistDocument';
+import { ImageHelper } from './imageHelper';
+import { readTextDocument } from './utils/document';
+import { HeadlessChrome, findChrome } from './utils/chrome';
+import { compileTemplate, loadComponents } from './previewTemplate';
+import { findMistFiles } from './mistLint';
+import { mkdirs, removeDir } from './utils/file';
+import Device, { DeviceProfile, allDevices } from './browser/previewDevice';
+import { SnapshotPayload, SnapshotDiff } from './browser/snapshot';
+
+export type SnapshotStatus = 'new' | 'unchanged' | 'changed' | 'updated' | 'error';
+
+export type SnapshotResult = {
+    template: string;
+    device: string;
+    data: string;
+    // 快照文件相对于快照目录中 baseline、current、diff 目录的路径
+    name: string;
+    status: SnapshotStatus;
+    changedPixels?: number;
+    totalPixels?: number;
+    message?: string;
+}
+
+export type SnapshotOptions = {
+    devices: string[];
+    // 快照目录，其中 baseline 保存基准快照，current 和 diff 保存发生变化的快照和差异图
+    output: string;
+    // 为 true 时用本次的渲染结果覆盖基准快照
+    update?: boolean;
+    chromePath?: string;
+    // 工作区设置中的自定义设备
+    customDevices?: DeviceProfile[];
+    onProgress?: (message: string) => void;
+}
+
+export const DEFAULT_DEVICES = ['iPhone 8'];
+
+const EXTENSION_ROOT = path.resolve(__dirname, '..', '..');
+
+const USAGE = `用法: mist-snapshot [选项] <目录或文件>...
+
+渲染模版的每组数据并与基准快照比较，快照保存在 <输出目录>/baseline 中，
+发生变化的快照和差异图保存在 current 和 diff 中，并生成 report.html
+
+选项:
+  -d, --devices <names>   预览设备，多个设备用逗号分隔，默认 ${DEFAULT_DEVICES.join(',')}
+  -o, --output <dir>      快照目录，默认为第一个目录下的 .mist-snapshots
+  -u, --update            用本次的渲染结果更新基准快照
+      --chrome <path>     Chrome 路径，默认自动查找
+  -h, --help              显示帮助`;
+
+function fileUrl(file: string) {
+    return URI.file(file).toString();
+}
+
+function safeName(name: string) {
+    return name.replace(/[\\/:*?"<>|]/g, '_');
+}
+
+function writeFile(file: string, data: Buffer | string) {
+    mkdirs(path.dirname(file));
+    fs.writeFileSync(file, data);
+}
+
+function pageHtml() {
+    return `<!DOCTYPE html>
+<html>
+    <head>
+        <meta charset="UTF-8">
+        <link rel="stylesheet" href="${fileUrl(path.join(EXTENSION_ROOT, 'css/preview.css'))}">
+    </head>
+    <body style="margin:0; background-color:white;">
+        <div id="snapshot" style="position:relative; overflow:hidden;"></div>
+        <script type="text/javascript" src="${fileUrl(path.join(EXTENSION_ROOT, 'out/browser/snapshot.js'))}"></script>
+    </body>
+</html>`;
+}
+
+/**
+ * 模版的每组数据在每个设备上的渲染结果，没有数据时使用空数据
+ */
+async function templatePayloads(file: string, devices: Device[]) {
+    // 编辑器中已打开的模版使用编辑器中的内容
+    let mistDoc = MistDocument.getDocumentByUri(URI.file(file).toString());
+    let opened = !mistDoc;
+    if (opened) {
+        MistDocument.onDidOpenTextDocument(readTextDocument(file));
+        mistDoc = MistDocument.getDocumentByUri(URI.file(file).toString());
+    }
+    let document = mistDoc.document;
+    try {
+        let template = await compileTemplate(file, document.getText());
+        let { components, imports } = await loadComponents(document.uri, file, template);
+        let images = ImageHelper.getImageFiles(mistDoc);
+        let datas = mistDoc.getDatas().map(d => ({ name: d.description(), data: d.data }));
+        if (datas.length === 0) {
+            datas = [{ name: 'default', data: {} }];
+        }
+        let payloads: { data: string, payload: SnapshotPayload }[] = [];
+        devices.forEach(device => datas.forEach(d => payloads.push({
+            data: d.name,
+            payload: { path: document.uri, template, data: d.data, components, imports, images, device }
+        })));
+        return payloads;
+    }
+    finally {
+        if (opened) {
+            MistDocument.onDidCloseTextDocument(document);
+        }
+    }
+}
+
+export async function runSnapshots(targets: string[], options: SnapshotOptions): Promise<SnapshotResult[]> {
+    let devices = allDevices(options.customDevices);
+    let unknown = options.devices.find(name => !devices.some(d => d.model === name));
+    if (unknown) {
+        throw new Error(`未知的设备 '${unknown}'，可选的设备有：${devices.map(d => d.model).join(', ')}`);
+    }
+    let chromePath = options.chromePath || findChrome();
+    if (!chromePath) {
+        throw new Error('找不到 Chrome，请通过 CHROME_PATH 环境变量指定 Chrome 的路径');
+    }
+    let progress = options.onProgress || (() => {});
+    let baselineDir = path.join(options.output, 'baseline');
+    let currentDir = path.join(options.output, 'current');
+    let diffDir = path.join(options.output, 'diff');
+    removeDir(currentDir);
+    removeDir(diffDir);
+
+    let pageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mist-snapshot-'));
+    let results: SnapshotResult[] = [];
+    try {
+        let page = path.join(pageDir, 'snapshot.html');
+        fs.writeFileSync(page, pageHtml());
+        let chrome = await HeadlessChrome.launch(chromePath);
+        try {
+            await chrome.open(fileUrl(page), 'typeof mistSnapshot !== "undefined"');
+            for (let target of targets) {
+                target = path.resolve(target);
+                let root = fs.statSync(target).isDirectory() ? target : path.dirname(target);
+                MistDocument.initialize(root);
+                for (let file of findMistFiles(target)) {
+                    let relative = path.relative(root, file);
+                    let templateName = relative.replace(/\.mist$/, '');
+                    progress(relative);
+                    let payloads: { data: string, payload: SnapshotPayload }[];
+                    try {
+                        payloads = await templatePayloads(file, options.devices.map(name => devices.find(d => d.model === name)));
+                    }
+                    catch (e) {
+                        results.push({ template: relative, device: '', data: '', name: '', status: 'error', message: `编译失败：${e.message || e}` });
+                        continue;
+                    }
+                    for (let { data, payload } of payloads) {
+                        let name = path.join(templateName, safeName(payload.device.model), safeName(data) + '.png');
+                        let result: SnapshotResult = { template: relative, device: payload.device.model, data, name, status: 'unchanged' };
+                        try {
+                            await snapshot(chrome, payload, result, baselineDir, currentDir, diffDir, options.update);
+                        }
+                        catch (e) {
+                            result.status = 'error';
+                            result.message = e.message || String(e);
+                        }
+                        results.push(result);
+                    }
+                }
+            }
+        }
+        finally {
+            await chrome.close();
+        }
+    }
+    finally {
+        removeDir(pageDir);
+    }
+    return results;
+}
+
+async function snapshot(chrome: HeadlessChrome, payload: SnapshotPayload, result: SnapshotResult, baselineDir: string, currentDir: string, diffDir: string, update: boolean) {
+    let device = payload.device;
+    await chrome.setViewport(device.width, device.height, device.scale);
+    let size: { width: number, height: number } = await chrome.evaluate(`mistSnapshot.render(${JSON.stringify(payload)})`);
+    if (size.width === 0 || size.height === 0) {
+        throw new Error('渲染结果为空');
+    }
+    // 页面高度不足时截图会被截断
+    await chrome.setViewport(device.width, Math.max(device.height, size.height), device.scale);
+    let image = await chrome.screenshot(size.width, size.height);
+
+    let baseline = path.join(baselineDir, result.name);
+    if (!fs.existsSync(baseline)) {
+        writeFile(baseline, image);
+        result.status = 'new';
+        return;
+    }
+    let dataUrl = (data: Buffer) => 'data:image/png;base64,' + data.toString('base64');
+    let diff: SnapshotDiff = await chrome.evaluate(`mistSnapshot.diff(${JSON.stringify(dataUrl(fs.readFileSync(baseline)))}, ${JSON.stringify(dataUrl(image))})`);
+    result.changedPixels = diff.changedPixels;
+    result.totalPixels = diff.width * diff.height;
+    if (diff.changedPixels === 0) {
+        return;
+    }
+    if (update) {
+        writeFile(baseline, image);
+        result.status = 'updated';
+        return;
+    }
+    result.status = 'changed';
+    writeFile(path.join(currentDir, result.name), image);
+    writeFile(path.join(diffDir, result.name), Buffer.from(diff.image.replace(/^data:image\/png;base64,/, ''), 'base64'));
+}
+
+/**
+ * 用发生变化的快照替换基准快照
+ */
+export function acceptSnapshots(results: SnapshotResult[], output: string) {
+    results.filter(r => r.status === 'changed').forEach(r => {
+        writeFile(path.join(output, 'baseline', r.name), fs.readFileSync(path.join(output, 'current', r.name)));
+        r.status = 'updated';
+    });
+}
+
+export function summarize(results: SnapshotResult[]) {
+    let count = (status: SnapshotStatus) => results.filter(r => r.status === status).length;
+    return `生成了 ${results.length} 个快照，${count('changed')} 个发生变化，${count('new')} 个新增，${count('updated')} 个已更新，${count('error')} 个出错`;
+}
+
+function escapeHtml(text: string) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * 在快照目录中生成 report.html，列出发生变化、新增和出错的快照
+ */
+export function writeReport(results: SnapshotResult[], output: string): string {
+    let image = (dir: string, name: string) => `<img src="${escapeHtml(path.join(dir, name).split(path.sep).join('/'))}">`;
+    let rows = results.filter(r => r.status !== 'unchanged').map(r => {
+        let title = `<h3>${escapeHtml(r.template)} <small>${escapeHtml([r.device, r.data].filter(s => !!s).join(' / '))}</small></h3>`;
+        switch (r.status) {
+            case 'changed':
+                let percent = (r.changedPixels / r.totalPixels * 100).toFixed(2);
+                return `<section class="changed">${title}<p>${r.changedPixels} 个像素发生变化（${percent}%）</p>
+                    <div class="images"><figure>${image('baseline', r.name)}<figcaption>基准</figcaption></figure>
+                    <figure>${image('current', r.name)}<figcaption>当前</figcaption></figure>
+                    <figure>${image('diff', r.name)}<figcaption>差异</figcaption></figure></div></section>`;
+            case 'new':
+            case 'updated':
+                return `<section>${title}<p>${r.status === 'new' ? '新增的基准快照' : '已更新基准快照'}</p><div class="images"><figure>${image('baseline', r.name)}</figure></div></section>`;
+            default:
+                return `<section class="error">${title}<p>${escapeHtml(r.message || '')}</p></section>`;
+        }
+    });
+    let html = `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>Mist 快照报告</title>
+    <style>
+        body { font-family: -apple-system, sans-serif; margin: 20px; }
+        section { border-top: 1px solid #ddd; padding: 8px 0; }
+        section.changed h3 { color: #d73a49; }
+        section.error p { color: #d73a49; }
+        .images { display: flex; align-items: flex-start; }
+        figure { margin: 0 16px 0 0; text-align: center; }
+        img { max-width: 375px; border: 1px solid #ddd; }
+    </style>
+</head>
+<body>
+    <h2>${escapeHtml(summarize(results))}</h2>
+    ${rows.length > 0 ? rows.join('\n') : '<p>所有快照都没有变化</p>'}
+</body>
+</html>`;
+    let file = path.join(output, 'report.html');
+    writeFile(file, html);
+    return file;
+}
+
+async function main(args: string[]) {
+    let options: SnapshotOptions = { devices: DEFAULT_DEVICES, output: null };
+    let targets: string[] = [];
+    for (let i = 0; i < args.length; i++) {
+        let arg = args[i];
+        if (arg === '-h' || arg === '--help') {
+            console.log(USAGE);
+            return 0;
+        }
+        else if (arg === '-d' || arg === '--devices') {
+            options.devices = (args[++i] || '').split(',').map(s => s.trim()).filter(s => !!s);
+        }
+        else if (arg === '-o' || arg === '--output') {
+            options.output = path.resolve(args[++i]);
+        }
+        else if (arg === '-u' || arg === '--update') {
+            options.update = true;
+        }
+        else if (arg === '--chrome') {
+            options.chromePath = args[++i];
+        }
+        else if (arg.startsWith('-')) {
+            console.error(`未知选项 '${arg}'\n\n${USAGE}`);
+            return 2;
+        }
+        else {
+            targets.push(arg);
+        }
+    }
+
+    if (targets.length === 0 || options.devices.length === 0) {
+        console.error(USAGE);
+        return 2;
+    }
+    let missing = targets.find(t => !fs.existsSync(t));
+    if (missing) {
+        console.error(`'${missing}' 不存在`);
+        return 2;
+    }
+    if (!options.output) {
+        let first = path.resolve(targets[0]);
+        options.output = path.join(fs.statSync(first).isDirectory() ? first : path.dirname(first), '.mist-snapshots');
+    }
+
+    // 类型定义加载时的日志会混入输出，只保留快照结果
+    let { log, warn, error } = console;
+    console.log = console.warn = console.error = () => {};
+    let results: SnapshotResult[];
+    try {
+        results = await runSnapshots(targets, { ...options, onProgress: file => log(file) });
+    }
+    finally {
+        Object.assign(console, { log, warn, error });
+    }
+
+    results.filter(r => r.status === 'changed' || r.status === 'error').forEach(r => {
+        console.log(`${r.status === 'error' ? 'error' : 'changed'}: ${[r.template, r.device, r.data].filter(s => !!s).join(' / ')}${r.message ? ` - ${r.message}` : ''}`);
+    });
+    console.log(summarize(results));
+    console.log(`报告：${writeReport(results, options.output)}`);
+    return results.some(r => r.status === 'changed' || r.status === 'error') ? 1 : 0;
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => process.exit(code), e => {
+        console.error(e.message || e);
+        process.exit(2);
+    });
+}
@@ -0,0 +1,169 @@
+import * as json from 'jsonc-parser'
+import * as fs from 'fs';
+import * as path from 'path';
+import URI from 'vscode-uri';
+import { TextDocument, Diagnostic, DiagnosticSeverity, Range, Position, CompletionItem, CompletionItemKind, Hover, TextEdit, MarkupKind } from 'vscode-languageserver-types';
+import { MistDocument, MistData } from './mistDocument';
+import { Schema, SchemaObject, validateJsonNode } from './schema';
+import { getNodePath } from './utils/json';
+import { getFileName, readTextDocument } from './utils/document';
+import { RuleId } from './rules';
+
+type MockEntry = {
+    data: MistData;
+    schema: SchemaObject;
+    // 数据结构来自模板中 `data-type` 的声明
+    declared: boolean;
+}
+
+function templateDocument(dir: string, templateId: string): MistDocument {
+    let file = path.join(dir, templateId + '.mist');
+    let mistDoc = MistDocument.getDocumentByUri(URI.file(file).toString());
+    if (mistDoc) {
+        return mistDoc;
+    }
+    return fs.existsSync(file) ? new MistDocument(readTextDocument(file)) : null;
+}
+
+function schemaAtPath(schema: Schema, segments: json.Segment[]): SchemaObject {
+    for (let segment of segments) {
+        if (!schema || typeof(schema) !== 'object') {
+            return null;
+        }
+        schema = typeof(segment) === 'number' ? schema.items : schema.properties && schema.properties[segment];
+    }
+    return schema && typeof(schema) === 'object' ? schema : null;
+}
+
+function rootOf(node: json.Node) {
+    while (node.parent) {
+        node = node.parent;
+    }
+    return node;
+}
+
+/**
+ * `.mock.json` 文件的补全、Hover 和检查，数据结构使用模板中 `data-type` 声明的类型，没有声明时由模板中的表达式推断
+ */
+export class MockDataHelper {
+    public static isMockFile(uri: string) {
+        return MistData.isMockFile(getFileName(uri));
+    }
+
+    /**
+     * 按 schema 生成数据骨架，无法推断类型的字段使用空字符串
+     */
+    public static generateSkeleton(schema: Schema): any {
+        if (!schema || typeof(schema) !== 'object') {
+            return '';
+        }
+        if (schema.enum && schema.enum.length > 0) {
+            return schema.enum[0];
+        }
+        if (schema.oneOf && schema.oneOf.length > 0) {
+            return MockDataHelper.generateSkeleton(schema.oneOf[0]);
+        }
+        switch (schema.type) {
+            case 'array': return [MockDataHelper.generateSkeleton(schema.items)];
+            case 'object': return Object.keys(schema.properties || {}).reduce((obj, key) => {
+                obj[key] = MockDataHelper.generateSkeleton(schema.properties[key]);
+                return obj;
+            }, {});
+            case 'number': return 0;
+            case 'boolean': return false;
+            case 'null': return null;
+            default: return '';
+        }
+    }
+
+    public static validate(document: TextDocument): Diagnostic[] {
+        let diagnostics: Diagnostic[] = [];
+        MockDataHelper.entries(document).forEach(({ data, schema, declared }) => {
+            let source = declared ? `模板 \`${data.template}.mist\` 中声明的数据类型` : `模板 \`${data.template}.mist\` 中使用了这些数据`;
+            validateJsonNode(data.node, schema).forEach(e => {
+                let range = Range.create(document.positionAt(e.node.offset), document.positionAt(e.node.offset + e.node.length));
+                diagnostics.push(Diagnostic.create(range, `${e.error}（${source}）`, DiagnosticSeverity.Warning, RuleId.MockData));
+            });
+        });
+        return diagnostics;
+    }
+
+    public static provideCompletionItems(document: TextDocument, position: Position): CompletionItem[] {
+        let offset = document.offsetAt(position);
+        let location = json.getLocation(document.getText(), offset);
+        if (!location.isAtPropertyKey) {
+            return [];
+        }
+        let entry = MockDataHelper.entryAtOffset(document, offset);
+        if (!entry) {
+            return [];
+        }
+        let objectPath = location.path.slice(0, -1);
+        let dataPath = getNodePath(entry.data.node);
+        let schema = schemaAtPath(entry.schema, objectPath.slice(dataPath.length));
+        if (!schema || !schema.properties) {
+            return [];
+        }
+        let objectNode = json.findNodeAtLocation(rootOf(entry.data.node), objectPath);
+        let existingKeys = objectNode && objectNode.type === 'object' ? objectNode.children.map(c => c.children[0].value) : [];
+        // 光标在已有的 key 上时替换该 key
+        let keyNode = location.previousNode && typeof(location.previousNode.value) === 'string' ? location.previousNode : null;
+        return Object.keys(schema.properties).filter(key => existingKeys.indexOf(key) < 0 || (keyNode && keyNode.value === key)).map(key => {
+            let propertySchema = schema.properties[key] as SchemaObject;
+            let item = CompletionItem.create(key);
+            item.kind = CompletionItemKind.Property;
+            item.detail = propertySchema.type;
+            item.documentation = propertySchema.description;
+            if (keyNode) {
+                item.textEdit = TextEdit.replace(Range.create(document.positionAt(keyNode.offset), document.positionAt(keyNode.offset + keyNode.length)), JSON.stringify(key));
+            }
+            else {
+                item.insertText = `${JSON.stringify(key)}: ${JSON.stringify(MockDataHelper.generateSkeleton(propertySchema))}`;
+            }
+            return item;
+        });
+    }
+
+    public static provideHover(document: TextDocument, position: Position): Hover {
+        let offset = document.offsetAt(position);
+        let location = json.getLocation(document.getText(), offset);
+        if (!location.isAtPropertyKey || !location.previousNode) {
+            return null;
+        }
+        let entry = MockDataHelper.entryAtOffset(document, offset);
+        if (!entry) {
+            return null;
+        }
+        let schema = schemaAtPath(entry.schema, location.path.slice(getNodePath(entry.data.node).length));
+        if (!schema) {
+            return null;
+        }
+        let keyNode = location.previousNode;
+        let title = `\`${keyNode.value}\`${schema.type ? `: ${schema.type}` : ''}`;
+        return {
+            contents: { kind: MarkupKind.Markdown, value: [title, schema.description].filter(s => !!s).join('\n\n') },
+            range: Range.create(document.positionAt(keyNode.offset), document.positionAt(keyNode.offset + keyNode.length))
+        };
+    }
+
+    private static entries(document: TextDocument, offset?: number): MockEntry[] {
+        let file = getFileName(document.uri);
+        let datas = MistData.parseMockFile(file, document.getText());
+        if (offset !== undefined) {
+            datas = datas.filter(data => data.node.offset <= offset && offset <= data.node.offset + data.node.length);
+        }
+        return datas.map(data => {
+            let mistDoc = templateDocument(path.dirname(file), data.template);
+            if (!mistDoc) {
+                return null;
+            }
+            let contract = mistDoc.getDataContract();
+            let declared = !!(contract && contract.schema);
+            return { data, schema: declared ? contract.schema : mistDoc.inferDataSchema(), declared };
+        }).filter(entry => !!entry);
+    }
+
+    private static entryAtOffset(document: TextDocument, offset: number): MockEntry {
+        return MockDataHelper.entries(document, offset)[0];
+    }
+}
@@ -131,7 +131,7 @@ export default class MistNodeTreeProvider implements vscode.TreeDataProvider<jso
         this.tree = null;
         this.editor = vscode.window.activeTextEditor || vscode.window.visibleTextEditors[0];
         if (this.editor && this.editor.document && this.editor.document.languageId === 'mist') {
-            const mistDoc = MistDocument.getDocumentByUri(this.editor.document.uri)
+            const mistDoc = MistDocument.getDocumentByUri(this.editor.document.uri.toString())
             if (!mistDoc) return
             const mistNode = mistDoc.getRootMistNode()
             if (mistNode) {
@@ -7,11 +7,13 @@ import * as json from 'jsonc-parser'
 import * as fs from 'fs'
 import * as http from 'http'
 import * as ws from 'ws'
-import { MistDocument } from './mistDocument';
+import { MistDocument, MistData } from './mistDocument';
 import { ImageHelper } from './imageHelper';
-import Device from './browser/previewDevice';
 import { StatusBarManager } from './statusBarManager';
-import { compile } from 'mistc';
+import { notifyDataSelected } from './languageClient';
+import { compileTemplate, loadComponents, loadSourceRanges } from './previewTemplate';
+import { readTextDocument } from './utils/document';
+import { LiveReloadHub, LiveReloadClient } from './liveReload';
 
 export function isMistFile(document: vscode.TextDocument) {
     return document.languageId === 'mist'
@@ -22,14 +24,11 @@ export function getMistUri(uri: vscode.Uri) {
     return uri.with({ scheme: 'mist', path: uri.path + '.rendered', query: uri.toString() });
 }
 
-type PreviewConfig = {
-    device: Device;
-    dataIndex?: number;
-}
-
-type PreviewClient = {
-    client: ws;
-    config: PreviewConfig;
+// Feed 预览中的一个区块，对应业务数据中的一条数据
+type FeedBlock = {
+    data: MistData;
+    // 找不到模版时为 null
+    templateUri: string;
 }
 
 export class MistPreviewPanel {
@@ -146,9 +145,12 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
     private _server: ws.Server;
     private _port: number;
     private _listening: Promise<number>;
-    private _clients: PreviewClient[] = [];
+    private _hub = LiveReloadHub.sharedInstance;
     private _updateTimer = null;
     private _mistDoc?: MistDocument
+    // Feed 预览的业务数据文件，为 null 时预览当前的模版
+    private _feedFile: string = null;
+    private _feedBlocks: FeedBlock[] = [];
     private static _sharedInstance: MistContentProvider;
 
     public static context: vscode.ExtensionContext;
@@ -198,40 +200,28 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
         });
         this._listening = new Promise<number>((resolve, reject) => httpServer.listen(0, null, null, err => err ? reject(err) : resolve(httpServer.address().port)));
         this._server = new ws.Server({ server: httpServer });
-        this._server.on('connection', client => {
-            client.on('message', message => {
-                let data = JSON.parse(message);
-                switch (data.type) {
-                case 'open':
-                    this._clients.push({
-                        client,
-                        config: {
-                            device: data.device,
-                        }
-                    });
-                    this.render();
-                    break;
-                case 'select':
-                {
-                    this.revealNode(vscode.Uri.parse(data.path), data.index);
-                    break;
-                }
-                case 'selectData':
-                {
-                    let mistDoc = MistDocument.getDocumentByUri(vscode.Uri.parse(data.path));
-                    if (mistDoc) {
-                        mistDoc.setData(data.name);
-                        StatusBarManager.updateDataItemForDocument(mistDoc);
-                    }
-                    break;
-                }
-                }
-            });
-
-            client.on('close', () => {
-                let index = this._clients.findIndex(c => c.client === client);
-                if (index >= 0) this._clients.splice(index, 1);
+        this._hub.attach(this._server);
+        // 预览的消息只处理来自 webview 的
+        const onMessage = (type: string, handler: (message: any) => void) => {
+            this._hub.on(type, (client: LiveReloadClient, message) => {
+                if (client.kind === 'webview') handler(message);
             });
+        };
+        onMessage('hello', () => this.render());
+        onMessage('select', message => this.revealNode(vscode.Uri.parse(message.path), message.index));
+        onMessage('alert', message => vscode.window.showInformationMessage(message.title ? `${message.title}: ${message.message}` : message.message));
+        onMessage('openBlock', message => this.openFeedBlock(message.index));
+        onMessage('exitFeed', () => this.exitFeed());
+        onMessage('selectData', message => {
+            let mistDoc = MistDocument.getDocumentByUri(message.path);
+            // 客户端只知道数据的名称
+            let data = mistDoc && mistDoc.getDatas().find(d => d.description() === message.name);
+            if (data) {
+                mistDoc.setData(data);
+                notifyDataSelected(mistDoc);
+                StatusBarManager.updateDataItemForDocument(mistDoc);
+                vscode.commands.executeCommand('mist.updateInlineValues');
+            }
         });
     }
 
@@ -241,50 +231,7 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
     }
 
     public send(type: string, params: any) {
-        if (this._clients.length > 0) {
-            this._clients.forEach(c => {
-                c.client.send(JSON.stringify({
-                    type,
-                    ...params
-                }));
-            });
-        }
-    }
-
-    errorTemplate(error: Error | string) {
-        return `\
-{
-  "layout": {
-    "style": {
-      "direction": "vertical",
-      "align-items": "center",
-      "spacing": 10,
-      "padding": 30,
-      "padding": 30
-    },
-    "children": [
-      {
-        "type": "text",
-        "style": {
-          "text": "模板编译错误",
-          "font-size": 16,
-          "font-style": "bold",
-          "color": "red"
-        }
-      },
-      {
-        "type": "text",
-        "style": {
-          "text": "${error instanceof Error ? error.message : error}",
-          "lines": 0,
-          "alignment": "center",
-          "font-size": 13,
-          "color": "#333"
-        }
-      }
-    ]
-  }
-}`
+        this._hub.broadcast(type, params, c => c.kind === 'webview');
     }
 
     /**
@@ -293,6 +240,10 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
      * @param forceUpdate 为 true 时，即使未选中 mist 文件，也会重新渲染之前渲染的文件。目前用于修改数据文件后即时刷新
      */
     async render(forceUpdate = false) {
+        if (this._feedFile) {
+            return this.renderFeed();
+        }
+
         let mistDoc = this.getDocument();
         if (!mistDoc && forceUpdate) {
             mistDoc = this._mistDoc
@@ -302,30 +253,33 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
         this._mistDoc = mistDoc
 
         if (MistPreviewPanel.currentPanel) {
-            MistPreviewPanel.currentPanel.updateTitle(path.basename(mistDoc.document.fileName))
+            MistPreviewPanel.currentPanel.updateTitle(path.basename(mistDoc.fileName || mistDoc.document.uri))
         }
 
         let template: any
-        if (fs.existsSync(mistDoc.document.uri.fsPath)) {
+        if (mistDoc.fileName && fs.existsSync(mistDoc.fileName)) {
             try {
-                const result = await compile(mistDoc.document.uri.fsPath, { minify: true }, mistDoc.document.getText()) as string
-                template = JSON.parse(result)
+                template = await compileTemplate(mistDoc.fileName, mistDoc.document.getText())
             }
             catch (e) {
-                template = this.errorTemplate(e)
+                this.send('error', { path: mistDoc.document.uri, message: `模板编译错误：${e.message || e}` })
+                return
             }
         }
         else {
             template = mistDoc.getTemplate();
         }
 
-        let images = ImageHelper.getImageFiles(mistDoc.document);
+        let images = ImageHelper.getImageFiles(mistDoc);
         let data = mistDoc.getData();
         let dataName = data ? data.description() : null;
+        let { components, imports } = await loadComponents(mistDoc.document.uri, mistDoc.fileName, template);
+        let uri = mistDoc.document.uri
+        this.send('config', { devices: vscode.workspace.getConfiguration('mist.preview').get('devices', []) })
+        this.send('template', { path: uri, template, components, imports, sourceRanges: loadSourceRanges(mistDoc.document, components) })
+        this.send('images', { path: uri, images })
         this.send('data', {
-            path: mistDoc.document.uri.toString(),
-            template,
-            images,
+            path: uri,
             datas: mistDoc.getDatas().map(d => {
                 return {
                     name: d.description(),
@@ -334,6 +288,96 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
             }),
             selectedData: dataName
         })
+        this.send('refresh', { path: uri })
+    }
+
+    /**
+     * 按顺序预览业务数据文件中的所有区块，每个区块使用对应的模版渲染
+     */
+    public showFeed(file: string) {
+        this._feedFile = file;
+        this.render();
+    }
+
+    public exitFeed() {
+        this._feedFile = null;
+        this._feedBlocks = [];
+        this.render(true);
+    }
+
+    private async findTemplate(dir: string, templateId: string) {
+        let file = path.join(dir, templateId + '.mist');
+        if (fs.existsSync(file)) {
+            return vscode.Uri.file(file);
+        }
+        let files = await vscode.workspace.findFiles(`**/${templateId}.mist`, '**/node_modules/**', 1);
+        return files.length > 0 ? files[0] : null;
+    }
+
+    private async renderFeed() {
+        let file = this._feedFile;
+        let dir = path.dirname(file);
+        if (!fs.existsSync(file)) {
+            vscode.window.showWarningMessage(`${path.basename(file)} 不存在`);
+            this.exitFeed();
+            return;
+        }
+        let datas = MistData.getFileDatas(file);
+        if (MistPreviewPanel.currentPanel) {
+            MistPreviewPanel.currentPanel.updateTitle(path.basename(file));
+        }
+
+        let feedBlocks: FeedBlock[] = [];
+        let blocks = [];
+        for (let data of datas) {
+            let uri = await this.findTemplate(dir, data.template);
+            feedBlocks.push({ data, templateUri: uri ? uri.toString() : null });
+            let block: any = { name: data.template, data: data.data };
+            if (!uri) {
+                block.error = `找不到模版 ${data.template}.mist`;
+                blocks.push(block);
+                continue;
+            }
+            let mistDoc = MistDocument.getDocumentByUri(uri.toString()) || new MistDocument(readTextDocument(uri.fsPath));
+            try {
+                block.template = await compileTemplate(uri.fsPath, mistDoc.document.getText());
+            }
+            catch (e) {
+                block.error = `${data.template}.mist 编译失败：${e.message || e}`;
+                blocks.push(block);
+                continue;
+            }
+            let { components, imports } = await loadComponents(uri.toString(), uri.fsPath, block.template);
+            Object.assign(block, { path: uri.toString(), components, imports, images: ImageHelper.getImageFiles(mistDoc) });
+            blocks.push(block);
+        }
+        // 渲染期间切换了文件
+        if (this._feedFile !== file) return;
+        this._feedBlocks = feedBlocks;
+        this.send('feed', {
+            path: vscode.Uri.file(file).toString(),
+            blocks,
+            devices: vscode.workspace.getConfiguration('mist.preview').get('devices', [])
+        });
+    }
+
+    /**
+     * 打开区块对应的模版并选中区块的数据，预览切换为该模版
+     */
+    private async openFeedBlock(index: number) {
+        let block = this._feedBlocks[index];
+        if (!block || !block.templateUri) return;
+        let doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(block.templateUri));
+        await vscode.window.showTextDocument(doc, vscode.ViewColumn.One);
+        let mistDoc = MistDocument.getDocumentByUri(block.templateUri);
+        if (mistDoc) {
+            // 模版与数据不在同一目录时，数据不在模版的数据列表中
+            mistDoc.setData(block.data);
+            notifyDataSelected(mistDoc);
+            StatusBarManager.updateDataItemForDocument(mistDoc);
+            vscode.commands.executeCommand('mist.updateInlineValues');
+        }
+        this.exitFeed();
     }
 
     public update() {
@@ -350,7 +394,7 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
     public selectionDidChange(textEditor: vscode.TextEditor) {
         if (this._updateTimer) return;
         let doc = textEditor.document;
-        if (this._clients.length === 0) return;
+        if (this._hub.clients('webview').length === 0) return;
         
         let sel = textEditor.selection.end;
         let path = [...json.getLocation(doc.getText(), doc.offsetAt(sel)).path];
@@ -368,7 +412,7 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
         }
 
         let index = indexes ? indexes.join(',') : null;
-        this.send('select', {index});
+        this.send('select', {index, path: doc.uri.toString()});
     }
 
     public async revealNode(uri: vscode.Uri, nodeIndex: string) {
@@ -390,7 +434,7 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
             editor = await vscode.window.showTextDocument(doc)
         }
 
-        const mistDoc = MistDocument.getDocumentByUri(uri);
+        const mistDoc = MistDocument.getDocumentByUri(uri.toString());
         if (!mistDoc) return;
         const rootNode = mistDoc.getRootNode();
         let node = json.findNodeAtLocation(rootNode, ['layout']);
@@ -447,11 +491,16 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
     <div id="navi-bar">
         <a id="inspect-element" class="navi-icon" title="检查元素"><svg class="icon" aria-hidden="true"><use xlink:href="#icon-select"></use></svg></i></a>
         <a id="show-frames" class="navi-icon" title="显示边框"><svg class="icon" aria-hidden="true"><use xlink:href="#icon-frame"></use></svg></i></a>
+        <a id="toggle-dark-mode" class="navi-icon" title="深色模式"><svg class="icon" viewBox="0 0 16 16" aria-hidden="true"><path d="M6 1a7 7 0 1 0 9 9A6 6 0 0 1 6 1z"></path></svg></a>
+        <a id="toggle-grid" class="navi-icon" title="多设备预览"><svg class="icon" viewBox="0 0 16 16" aria-hidden="true"><path d="M1 2h6v12H1zM9 2h6v7H9zM9 11h6v3H9z"></path></svg></a>
+        <a id="show-action-log" class="navi-icon" title="Action 日志"><svg class="icon" viewBox="0 0 16 16" aria-hidden="true"><path d="M2 3h12v2H2zM2 7h12v2H2zM2 11h8v2H2z"></path></svg></a>
         ${browser ? '' : `<a id="open-in-browser" class="navi-icon" title="在浏览器打开" href="http://localhost:${this._port}"><svg class="icon" aria-hidden="true"><use xlink:href="#icon-chrome"></use></svg></i></a>`}
+        <a id="exit-feed" class="navi-icon hidden" title="返回当前模版的预览">退出 Feed 预览</a>
         <div class="navi-line"></div>
     </div>
     
-    <div style="display:flex;align-items:flex-start;overflow:auto;flex-grow:1;">
+    <div style="display:flex;flex-grow:1;min-height:0;">
+    <div id="screens" style="display:flex;align-items:flex-start;overflow:auto;flex-grow:1;">
     <div class="screen hidden">
     <div class="screen-header">
     
@@ -481,6 +530,17 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
     <div class="mist-main"></div>
     </div>
     </div>
+    <div id="mist-inspector" class="hidden"></div>
+    </div>
+    <div id="mist-action-log" class="hidden">
+        <div class="action-log-header">
+            <span>Action 日志</span>
+            <a id="reset-state" title="恢复模版的初始状态">重置状态</a>
+            <a id="clear-action-log">清空</a>
+            <a id="close-action-log" title="关闭">×</a>
+        </div>
+        <div id="action-log-list"></div>
+    </div>
     <div id="footer" class="hidden"></div>
     <div id="mist-selects" class="overlay"></div>
     <div class="overlay"><div id="mist-hover" class="anim"></div></div>
@@ -493,7 +553,7 @@ export class MistContentProvider implements vscode.TextDocumentContentProvider {
     private getDocument() {
         let editor = vscode.window.visibleTextEditors.find(e => e.document.languageId === 'mist');
         if (editor) {
-            return MistDocument.getDocumentByUri(editor.document.uri);
+            return MistDocument.getDocumentByUri(editor.document.uri.toString());
         }
         return null;
     }
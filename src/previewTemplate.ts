@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as json from 'jsonc-parser';
+import URI from 'vscode-uri';
+import { compile } from 'mistc';
+import { TextDocument, Range } from 'vscode-languageserver-types';
+import { MistDocument } from './mistDocument';
+import { ComponentHelper } from './componentHelper';
+import { getPropertyNode, parseJson } from './utils/json';
+import { readTextDocument } from './utils/document';
+
+export type PreviewComponents = {
+    // 引用的组件模版，key 为组件的 uri
+    components: { [uri: string]: any };
+    // 每个模版中 `import` 的路径到组件 uri 的映射
+    imports: { [from: string]: { [importPath: string]: string } };
+}
+
+/**
+ * 编译模版为预览使用的 JSON
+ */
+export async function compileTemplate(file: string, text: string) {
+    const result = await compile(file, { minify: true }, text) as string
+    return JSON.parse(result)
+}
+
+function findImportPaths(node: any, paths: string[] = []): string[] {
+    if (!node || typeof(node) !== 'object') return paths;
+    if (typeof(node.import) === 'string' && node.import.indexOf('${') < 0 && paths.indexOf(node.import) < 0) {
+        paths.push(node.import);
+    }
+    if (node.children instanceof Array) {
+        node.children.forEach(c => findImportPaths(c, paths));
+    }
+    return paths;
+}
+
+/**
+ * 加载模版中 `import` 的组件（包括组件中引用的组件），组件中的 `import` 相对于组件所在目录查找
+ */
+export async function loadComponents(uri: string, file: string, template: any): Promise<PreviewComponents> {
+    let components: { [uri: string]: any } = {};
+    let imports: { [from: string]: { [importPath: string]: string } } = {};
+    let queue: { uri: string, file: string, template: any }[] = [{ uri, file, template }];
+    while (queue.length > 0) {
+        let current = queue.shift();
+        let map = imports[current.uri] = {};
+        let dir = current.file ? path.dirname(current.file) : MistDocument.rootPath;
+        for (let importPath of findImportPaths(current.template && current.template.layout)) {
+            let componentFile = ComponentHelper.resolve(importPath, dir);
+            if (!componentFile) continue;
+            let componentUri = URI.file(componentFile).toString();
+            map[importPath] = componentUri;
+            if (componentUri in components || componentUri === uri) continue;
+            let openedDoc = MistDocument.getDocumentByUri(componentUri);
+            let text = openedDoc ? openedDoc.document.getText() : fs.readFileSync(componentFile, 'utf-8');
+            try {
+                components[componentUri] = await compileTemplate(componentFile, text);
+            }
+            catch (e) {
+                // 编译失败的组件不展开
+                console.warn(`failed to compile component '${componentFile}': ${e}`);
+                continue;
+            }
+            queue.push({ uri: componentUri, file: componentFile, template: components[componentUri] });
+        }
+    }
+    return { components, imports };
+}
+
+/**
+ * 模版中每个节点在源文件中的范围，key 为节点的 `node-index`
+ */
+export function nodeRanges(document: TextDocument): { [index: string]: Range } {
+    let ranges: { [index: string]: Range } = {};
+    let visit = (node: json.Node, index: string) => {
+        ranges[index] = Range.create(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+        let children = getPropertyNode(node, 'children');
+        if (children && children.type === 'array') {
+            children.children.forEach((c, i) => visit(c, (index ? index + ',' : '') + i));
+        }
+    };
+    let layout = getPropertyNode(parseJson(document.getText()), 'layout');
+    if (layout) {
+        visit(layout, '');
+    }
+    return ranges;
+}
+
+/**
+ * 模版及其引用的组件中每个节点的源码范围，key 为文件的 uri
+ */
+export function loadSourceRanges(document: TextDocument, components: { [uri: string]: any }) {
+    let sourceRanges: { [uri: string]: { [index: string]: Range } } = { [document.uri]: nodeRanges(document) };
+    Object.keys(components).forEach(uri => {
+        let openedDoc = MistDocument.getDocumentByUri(uri);
+        sourceRanges[uri] = nodeRanges(openedDoc ? openedDoc.document : readTextDocument(URI.parse(uri).fsPath));
+    });
+    return sourceRanges;
+}
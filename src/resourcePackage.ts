@@ -0,0 +1,200 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import URI from 'vscode-uri';
+import { compile } from 'mistc';
+import { MistDocument } from './mistDocument';
+import { ImageHelper } from './imageHelper';
+import { ImageInfo } from './browser/image';
+import { Platform } from './browser/protocol';
+import { parseJson, getNodeValue } from './utils/json';
+import { readTextDocument } from './utils/document';
+import { createZip, ZipEntry } from './utils/zip';
+import { mkdirs } from './utils/file';
+
+export type PackageOptions = {
+    // 资源包中的路径相对于该目录
+    rootDir: string;
+    templates: string[];
+    version: string;
+    // 生成的 zip 文件路径
+    output: string;
+    platforms?: Platform[];
+    // 业务前缀，模版名称为 `bizCode@name`
+    bizCode?: string;
+}
+
+export type PackageTemplate = {
+    name: string;
+    source: string;
+    files: { [platform: string]: { path: string, hash: string } };
+    images: string[];
+}
+
+export type PackageManifest = {
+    version: string;
+    createdAt: string;
+    platforms: Platform[];
+    // 内容哈希的算法
+    hash: string;
+    templates: PackageTemplate[];
+    images: { path: string, hash: string }[];
+}
+
+export type TemplateError = {
+    file: string;
+    platform?: Platform;
+    message: string;
+}
+
+export type PackageResult = {
+    // 有模版编译失败时为 null，不生成资源包
+    output: string;
+    manifest: PackageManifest;
+    errors: TemplateError[];
+}
+
+export type PackageProgress = (message: string, done: number, total: number) => void;
+
+const DEFAULT_PLATFORMS: Platform[] = ['ios', 'android'];
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+
+function hashOf(data: Buffer) {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function zipPath(rootDir: string, file: string) {
+    return path.relative(rootDir, file).split(path.sep).join('/');
+}
+
+/**
+ * 模版中所有的字符串，以及表达式中的字符串字面量，用于判断引用了哪些图片
+ */
+function collectStrings(value: any, strings: Set<string>) {
+    if (typeof(value) === 'string') {
+        strings.add(value);
+        if (value.indexOf('${') >= 0) {
+            let re = /'([^']*)'|"([^"]*)"/g;
+            let match: RegExpExecArray;
+            while (match = re.exec(value)) {
+                strings.add(match[1] !== undefined ? match[1] : match[2]);
+            }
+        }
+    }
+    else if (value instanceof Array) {
+        value.forEach(v => collectStrings(v, strings));
+    }
+    else if (value && typeof(value) === 'object') {
+        Object.keys(value).forEach(key => collectStrings(value[key], strings));
+    }
+}
+
+/**
+ * 模版目录下 `Images` 文件夹中的图片，`name@2x.png` 按倍数归为同一张图片
+ */
+function imagesInDir(dir: string): ImageInfo[] {
+    let imagesDir = path.join(dir, 'Images');
+    let images: ImageInfo[] = [];
+    let files = fs.existsSync(imagesDir) ? fs.readdirSync(imagesDir) : [];
+    files.filter(f => IMAGE_EXTENSIONS.indexOf(path.extname(f).toLowerCase()) >= 0).forEach(f => {
+        let match = f.match(/^(.*?)(?:@(\d)x)?\.\w+$/);
+        let name = path.extname(f).toLowerCase() === '.png' ? match[1] : match[1] + path.extname(f);
+        let info = images.find(i => i.name === name);
+        if (!info) {
+            info = new ImageInfo(name, {});
+            images.push(info);
+        }
+        info.files[parseInt(match[2] || '1')] = path.join(imagesDir, f);
+    });
+    return images;
+}
+
+/**
+ * 模版引用的图片文件，包括所有倍数
+ */
+function referencedImages(mistDoc: MistDocument, template: any): string[] {
+    let strings = new Set<string>();
+    collectStrings(template, strings);
+    let names = new Set<string>();
+    strings.forEach(s => names.add(s.replace(/(@\dx)?\.png$/, '')));
+    let images = [...ImageHelper.getImageFiles(mistDoc), ...imagesInDir(path.dirname(mistDoc.fileName))];
+    let files: string[] = [];
+    images.filter(image => names.has(image.name)).forEach(image => {
+        Object.keys(image.files).forEach(scale => {
+            let file = image.files[scale];
+            if (files.indexOf(file) < 0 && fs.existsSync(file)) files.push(file);
+        });
+    });
+    return files;
+}
+
+/**
+ * 生成资源包：按平台编译模版，收集引用的图片，写入带内容哈希和版本号的 `manifest.json`，打包为 zip。
+ * 模版按 `<平台>/<相对路径>` 存放，图片按 `images/<相对路径>` 存放。有模版编译失败时不生成资源包，返回所有错误
+ */
+export async function buildResourcePackage(options: PackageOptions, progress: PackageProgress = () => {}, isCancelled: () => boolean = () => false): Promise<PackageResult> {
+    let platforms = options.platforms || DEFAULT_PLATFORMS;
+    let manifest: PackageManifest = {
+        version: options.version,
+        createdAt: new Date().toISOString(),
+        platforms,
+        hash: 'sha256',
+        templates: [],
+        images: [],
+    };
+    let entries: ZipEntry[] = [];
+    let errors: TemplateError[] = [];
+    let imageFiles: string[] = [];
+
+    for (let i = 0; i < options.templates.length; i++) {
+        let file = options.templates[i];
+        let relativePath = zipPath(options.rootDir, file);
+        progress(`编译 ${relativePath}`, i, options.templates.length);
+        if (isCancelled()) {
+            throw new Error('已取消生成资源包');
+        }
+
+        let mistDoc = MistDocument.getDocumentByUri(URI.file(file).toString()) || new MistDocument(readTextDocument(file));
+        let text = mistDoc.document.getText();
+        let name = path.basename(file, '.mist');
+        let packageTemplate: PackageTemplate = {
+            name: options.bizCode ? `${options.bizCode}@${name}` : name,
+            source: relativePath,
+            files: {},
+            images: [],
+        };
+        for (let platform of platforms) {
+            try {
+                let output = Buffer.from(await compile(file, { platform, minify: true }, text) as string, 'utf8');
+                let entryPath = `${platform}/${relativePath}`;
+                entries.push({ name: entryPath, data: output });
+                packageTemplate.files[platform] = { path: entryPath, hash: hashOf(output) };
+            }
+            catch (e) {
+                errors.push({ file, platform, message: e.message || String(e) });
+            }
+        }
+        let root = parseJson(text);
+        for (let image of referencedImages(mistDoc, root ? getNodeValue(root) : null)) {
+            let inRoot = !path.relative(options.rootDir, image).startsWith('..');
+            let imagePath = 'images/' + (inRoot ? zipPath(options.rootDir, image) : path.basename(image));
+            packageTemplate.images.push(imagePath);
+            if (imageFiles.indexOf(image) < 0) {
+                imageFiles.push(image);
+                let data = fs.readFileSync(image);
+                entries.push({ name: imagePath, data });
+                manifest.images.push({ path: imagePath, hash: hashOf(data) });
+            }
+        }
+        manifest.templates.push(packageTemplate);
+    }
+
+    if (errors.length > 0) {
+        return { output: null, manifest: null, errors };
+    }
+    progress('生成资源包', options.templates.length, options.templates.length);
+    entries.push({ name: 'manifest.json', data: Buffer.from(JSON.stringify(manifest, null, 2), 'utf8') });
+    mkdirs(path.dirname(options.output));
+    fs.writeFileSync(options.output, createZip(entries));
+    return { output: options.output, manifest, errors };
+}
@@ -0,0 +1,220 @@
+import * as json from 'jsonc-parser'
+import * as fs from 'fs';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver-types';
+import { MistDocument } from './mistDocument';
+import { getPropertyNode, getNodeValue } from './utils/json';
+
+export type RuleSeverity = 'off' | 'error' | 'warning' | 'info' | 'hint';
+
+export type RuleSeverityMap = {
+    [id: string]: RuleSeverity;
+};
+
+/**
+ * 内置检查规则的 id，作为 Diagnostic 的 code
+ */
+export const RuleId = {
+    JsonSyntax: 'json-syntax',
+    DuplicateKey: 'duplicate-key',
+    StringEscape: 'string-escape',
+    UnclosedExpression: 'unclosed-expression',
+    ExpressionSyntax: 'expression-syntax',
+    ExpressionType: 'expression-type',
+    UnusedVariable: 'unused-variable',
+    VarsInSameDict: 'vars-same-dict',
+    InvalidVars: 'invalid-vars',
+    InvalidNode: 'invalid-node',
+    PropertyType: 'property-type',
+    UnknownProperty: 'unknown-property',
+    PropertyInStyle: 'property-in-style',
+    NoExpression: 'no-expression',
+    ImageClip: 'image-clip',
+    AccessibilityConstant: 'a11y-constant',
+    AccessibilityLabelWithoutElement: 'a11y-label-without-element',
+    AccessibilityElementWithoutLabel: 'a11y-element-without-label',
+    AccessibilityNested: 'a11y-nested',
+    AccessibilityOnTap: 'a11y-on-tap',
+    ExpVersion: 'exp-version',
+    ComponentNotFound: 'component-not-found',
+    ImportCycle: 'import-cycle',
+    ComponentParamMissing: 'component-param-missing',
+    ComponentParamUnknown: 'component-param-unknown',
+    ComponentParamType: 'component-param-type',
+    ComponentSlot: 'component-slot',
+    MockData: 'mock-data',
+    DataType: 'data-type',
+};
+
+const BUILTIN_RULE_IDS = Object.keys(RuleId).map(key => RuleId[key] as string);
+
+// 规则 id 的格式，小写字母和数字以 `-` 连接，如 `unused-variable`
+const RULE_ID_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)+$/;
+
+/**
+ * 自定义规则的检查上下文
+ */
+export interface RuleContext {
+    fileName: string;
+    text: string;
+    // 解析后的模板
+    template: any;
+    rootNode: json.Node;
+    // layout 中的所有节点
+    nodes: json.Node[];
+    getProperty(node: json.Node, key: string): json.Node;
+    getValue(node: json.Node): any;
+    report(node: json.Node, message: string, severity?: RuleSeverity): void;
+}
+
+/**
+ * 自定义规则，由 `custom-rules` 中指定的 JS 模块导出（可以导出单个规则或规则数组）
+ */
+export interface CustomRule {
+    id: string;
+    description?: string;
+    severity?: RuleSeverity;
+    check(context: RuleContext): void;
+}
+
+function toDiagnosticSeverity(severity: RuleSeverity): DiagnosticSeverity {
+    switch (severity) {
+        case 'error': return DiagnosticSeverity.Error;
+        case 'warning': return DiagnosticSeverity.Warning;
+        case 'info': return DiagnosticSeverity.Information;
+        case 'hint': return DiagnosticSeverity.Hint;
+        default: return undefined;
+    }
+}
+
+function collectNodes(node: json.Node, nodes: json.Node[]) {
+    if (!node || node.type !== 'object') return;
+    nodes.push(node);
+    let childrenNode = getPropertyNode(node, 'children');
+    if (childrenNode && childrenNode.type === 'array') {
+        childrenNode.children.forEach(c => collectNodes(c, nodes));
+    }
+}
+
+export class MistRules {
+    // 工作区设置中的 `mist.rules`，优先于 mist-extension.json 中的配置
+    private static settings: RuleSeverityMap = {};
+    private static modules: { [file: string]: { mtime: number, rules: CustomRule[] } } = {};
+    // 自定义规则会执行工作区中的代码，用户确认信任后才加载
+    private static trusted = false;
+    private static untrustedListener: (files: string[]) => void = () => {};
+
+    public static setSettings(settings: RuleSeverityMap) {
+        MistRules.settings = settings || {};
+    }
+
+    public static setTrusted(trusted: boolean) {
+        MistRules.trusted = trusted;
+    }
+
+    /**
+     * 未信任时遇到配置的自定义规则，由客户端询问是否信任
+     */
+    public static onUntrusted(listener: (files: string[]) => void) {
+        MistRules.untrustedListener = listener;
+    }
+
+    public static isRuleId(id: string) {
+        return BUILTIN_RULE_IDS.indexOf(id) >= 0 || Object.keys(MistRules.modules).some(file => MistRules.modules[file].rules.some(r => r.id === id));
+    }
+
+    /**
+     * 已知的规则 id，或者符合规则 id 格式的文字。未加载的自定义规则和拼错的 id 也按规则 id 处理
+     */
+    public static looksLikeRuleId(id: string) {
+        return MistRules.isRuleId(id) || RULE_ID_PATTERN.test(id);
+    }
+
+    /**
+     * 按配置修改 Diagnostic 的级别，并去掉关闭的规则
+     */
+    public static applySeverities(diagnostics: Diagnostic[], config: RuleSeverityMap = {}): Diagnostic[] {
+        return diagnostics.filter(d => {
+            let code = d.code as string;
+            let severity = MistRules.settings[code] || config[code];
+            if (severity === 'off') {
+                return false;
+            }
+            if (severity) {
+                d.severity = toDiagnosticSeverity(severity) || d.severity;
+            }
+            return true;
+        });
+    }
+
+    /**
+     * 执行自定义规则，规则执行出错时在模板开头报告错误
+     */
+    public static runCustomRules(mistDoc: MistDocument, files: string[]): Diagnostic[] {
+        let template = mistDoc.getTemplate();
+        let rootNode = mistDoc.getRootNode();
+        if (!template || !rootNode || files.length === 0) {
+            return [];
+        }
+        if (!MistRules.trusted) {
+            MistRules.untrustedListener(files);
+            return [];
+        }
+        let document = mistDoc.document;
+        let nodes: json.Node[] = [];
+        collectNodes(getPropertyNode(rootNode, 'layout'), nodes);
+
+        let diagnostics: Diagnostic[] = [];
+        files.forEach(file => {
+            MistRules.loadModule(file).forEach(rule => {
+                let context: RuleContext = {
+                    fileName: mistDoc.fileName,
+                    text: document.getText(),
+                    template,
+                    rootNode,
+                    nodes,
+                    getProperty: getPropertyNode,
+                    getValue: getNodeValue,
+                    report(node: json.Node, message: string, severity?: RuleSeverity) {
+                        let range = Range.create(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+                        diagnostics.push(Diagnostic.create(range, message, toDiagnosticSeverity(severity || rule.severity) || DiagnosticSeverity.Warning, rule.id));
+                    }
+                };
+                try {
+                    rule.check(context);
+                }
+                catch (e) {
+                    console.error(`custom rule '${rule.id}' failed: ${e.stack || e}`);
+                    diagnostics.push(Diagnostic.create(Range.create(0, 0, 0, 0), `自定义规则 \`${rule.id}\` 执行出错：${e.message || e}`, DiagnosticSeverity.Error, rule.id));
+                }
+            });
+        });
+        return diagnostics;
+    }
+
+    // 规则文件修改后重新加载
+    private static loadModule(file: string): CustomRule[] {
+        let mtime: number;
+        try {
+            mtime = fs.statSync(file).mtime.getTime();
+        }
+        catch (e) {
+            console.error(`custom rule module '${file}' does not exist`);
+            return [];
+        }
+        let cached = MistRules.modules[file];
+        if (cached && cached.mtime === mtime) {
+            return cached.rules;
+        }
+        let rules: CustomRule[] = [];
+        try {
+            delete require.cache[require.resolve(file)];
+            let exported = require(file);
+            rules = (Array.isArray(exported) ? exported : [exported]).filter(r => r && typeof(r.id) === 'string' && typeof(r.check) === 'function');
+        }
+        catch (e) {
+            console.error(`failed to load custom rule module '${file}': ${e.stack || e}`);
+        }
+        MistRules.modules[file] = { mtime, rules };
+        return rules;
+    }
+}
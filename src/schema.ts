@@ -170,7 +170,7 @@ function getValueType(value: any): string {
     return typeof(value);
 }
 
-function getSchemaType(s: Schema): IType {
+export function getSchemaType(s: Schema): IType {
     if (!s || typeof(s) === 'boolean') {
         return Type.Any;
     }
@@ -0,0 +1,197 @@
+import * as json from 'jsonc-parser';
+import * as path from 'path';
+import URI from 'vscode-uri';
+import { compile } from 'mistc';
+import { TextDocument, Position, Range } from 'vscode-languageserver-types';
+import { MistDocument } from './mistDocument';
+import { ComponentHelper } from './componentHelper';
+import { parseJson, getPropertyNode, getNodePath, findNodeAtOffset } from './utils/json';
+import { readTextDocument } from './utils/document';
+
+export type SourceLocation = {
+    uri: string;
+    range: Range;
+}
+
+type SourceFile = {
+    uri: string;
+    file: string;
+    document: TextDocument;
+    root: json.Node;
+}
+
+function loadSourceFile(file: string): SourceFile {
+    let uri = URI.file(file).toString();
+    let mistDoc = MistDocument.getDocumentByUri(uri);
+    let document = mistDoc ? mistDoc.document : readTextDocument(file);
+    return document ? { uri, file, document, root: parseJson(document.getText()) } : null;
+}
+
+function locationOf(source: SourceFile, node: json.Node): SourceLocation {
+    let document = source.document;
+    return { uri: source.uri, range: Range.create(document.positionAt(node.offset), document.positionAt(node.offset + node.length)) };
+}
+
+function findNode(node: json.Node, segments: json.Segment[]): json.Node {
+    for (let segment of segments) {
+        if (!node) return null;
+        node = typeof(segment) === 'number'
+            ? node.type === 'array' ? node.children[segment] : null
+            : getPropertyNode(node, segment);
+    }
+    return node;
+}
+
+/**
+ * 编译结果与模版源码之间的映射。编译时组件被展开、`class` 引用的样式被合并、表达式被改写，
+ * 这里按结构对应：`layout` 中的节点按 `children` 逐级对应（展开的组件对应到组件文件），
+ * 合并的样式对应到节点自身或 `styles` 中定义它的样式，其它属性按相同的路径对应，找不到时使用最近的上级
+ */
+export class TemplateSourceMap {
+    private compiledRoot: json.Node;
+    private source: SourceFile;
+    private components: { [file: string]: SourceFile } = {};
+
+    constructor(compiled: string, file: string, document: TextDocument) {
+        this.compiledRoot = parseJson(compiled);
+        this.source = { uri: document.uri, file, document, root: parseJson(document.getText()) };
+    }
+
+    /**
+     * 编译结果中某个位置对应的源码位置
+     */
+    public sourceAt(offset: number): SourceLocation {
+        let node = findNodeAtOffset(this.compiledRoot, offset);
+        return node ? this.sourceOfPath(getNodePath(node)) : null;
+    }
+
+    /**
+     * 编译结果中 `node-index` 对应的节点在源码中的位置，用于定位设备上报的节点
+     */
+    public sourceOfNodeIndex(nodeIndex: string): SourceLocation {
+        let segments: json.Segment[] = ['layout'];
+        if (nodeIndex) {
+            nodeIndex.split(',').forEach(i => segments.push('children', parseInt(i)));
+        }
+        return this.sourceOfPath(segments);
+    }
+
+    /**
+     * 编译结果中某个 JSON 路径对应的源码位置
+     */
+    public sourceOfPath(segments: json.Segment[]): SourceLocation {
+        if (segments[0] !== 'layout') {
+            for (let i = segments.length; i >= 0; i--) {
+                let node = findNode(this.source.root, segments.slice(0, i));
+                if (node) return locationOf(this.source, node);
+            }
+            return null;
+        }
+
+        let source = this.source;
+        let sourceNode = getPropertyNode(source.root, 'layout');
+        let compiledNode = getPropertyNode(this.compiledRoot, 'layout');
+        if (!sourceNode) return null;
+        let rest = segments.slice(1);
+        while (true) {
+            // 编译结果中没有 `import` 说明组件已经展开，继续在组件中对应
+            let component = this.expandedComponent(source, sourceNode, compiledNode);
+            if (component) {
+                source = component;
+                sourceNode = getPropertyNode(component.root, 'layout');
+            }
+            if (rest.length < 2 || rest[0] !== 'children' || typeof(rest[1]) !== 'number') break;
+            let child = findNode(sourceNode, rest.slice(0, 2));
+            if (!child) break;
+            sourceNode = child;
+            compiledNode = findNode(compiledNode, rest.slice(0, 2));
+            rest = rest.slice(2);
+        }
+        return locationOf(source, this.findProperty(source, sourceNode, rest));
+    }
+
+    private expandedComponent(source: SourceFile, sourceNode: json.Node, compiledNode: json.Node): SourceFile {
+        let importNode = getPropertyNode(sourceNode, 'import');
+        if (!importNode || typeof(importNode.value) !== 'string' || (compiledNode && getPropertyNode(compiledNode, 'import'))) {
+            return null;
+        }
+        let file = ComponentHelper.resolve(importNode.value, path.dirname(source.file));
+        if (!file || file === source.file) {
+            return null;
+        }
+        if (!(file in this.components)) {
+            this.components[file] = loadSourceFile(file);
+        }
+        let component = this.components[file];
+        return component && getPropertyNode(component.root, 'layout') ? component : null;
+    }
+
+    /**
+     * 节点中的属性，样式找不到时查找 `class` 引用的样式，后面的样式优先
+     */
+    private findProperty(source: SourceFile, sourceNode: json.Node, segments: json.Segment[]): json.Node {
+        if (segments[0] === 'style' && segments.length >= 2 && !findNode(sourceNode, segments.slice(0, 2))) {
+            let classNode = getPropertyNode(sourceNode, 'class');
+            let classes = classNode && typeof(classNode.value) === 'string' ? classNode.value.split(' ').filter(s => s.length > 0) : [];
+            let styles = getPropertyNode(source.root, 'styles');
+            for (let name of classes.reverse()) {
+                let node = findNode(styles, [name, ...segments.slice(1)]);
+                if (node) return node;
+            }
+        }
+        for (let i = segments.length; i > 0; i--) {
+            let node = findNode(sourceNode, segments.slice(0, i));
+            if (node) return node;
+        }
+        return sourceNode;
+    }
+}
+
+/**
+ * 编译模版，同时生成编译结果到源码的映射
+ */
+export async function compileWithSourceMap(file: string, text: string, options: any) {
+    const output = await compile(file, options, text) as string;
+    const uri = URI.file(file).toString();
+    const mistDoc = MistDocument.getDocumentByUri(uri);
+    const document = mistDoc ? mistDoc.document : TextDocument.create(uri, 'mist', 0, text);
+    return { output, sourceMap: new TemplateSourceMap(output, file, document) };
+}
+
+/**
+ * 编译错误在源码中的位置。错误信息中带有行列号（如 `line 3 column 5`、`3:5`）或 `layout.children[0]` 形式的节点路径时可以定位，
+ * 否则返回 null
+ */
+export function compileErrorRange(error: any, document: TextDocument): Range {
+    let message = String(error && error.message || error);
+    let line: number, column: number;
+    if (error && typeof(error.line) === 'number') {
+        line = error.line;
+        column = typeof(error.column) === 'number' ? error.column : 1;
+    }
+    else {
+        let match = message.match(/line\s*(\d+)(?:\D{1,10}?(\d+))?/i) || message.match(/(?:^|[\s(])(\d+):(\d+)\b/);
+        if (match) {
+            line = parseInt(match[1]);
+            column = match[2] ? parseInt(match[2]) : 1;
+        }
+    }
+    if (line !== undefined) {
+        let position = Position.create(Math.max(line - 1, 0), Math.max(column - 1, 0));
+        return Range.create(position, position);
+    }
+    let pathMatch = message.match(/\blayout((?:\.children(?:\[\d+\]|\.\d+))*)/);
+    if (pathMatch) {
+        let segments: json.Segment[] = ['layout'];
+        let re = /children\W*(\d+)/g;
+        let match: RegExpExecArray;
+        while (match = re.exec(pathMatch[1])) {
+            segments.push('children', parseInt(match[1]));
+        }
+        let node = findNode(parseJson(document.getText()), segments);
+        if (node) {
+            return Range.create(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
+        }
+    }
+    return null;
+}
@@ -3,6 +3,7 @@ import * as vscode from "vscode";
 import * as path from "path";
 import { MistDocument } from "./mistDocument";
 import { MistContentProvider } from "./previewProvider";
+import { notifyDataSelected } from "./languageClient";
 
 
 export class StatusBarManager {
@@ -13,7 +14,7 @@ export class StatusBarManager {
         this.dataItem.tooltip = "选择模版关联的数据";
         vscode.commands.registerCommand('mist.selectData', () => {
             let editor = vscode.window.activeTextEditor;
-            let doc = MistDocument.getDocumentByUri(editor.document.uri);
+            let doc = MistDocument.getDocumentByUri(editor.document.uri.toString());
             let datas = doc.getDatas();
             let items = datas.map(d => {
                 let item: any = <vscode.QuickPickItem>{label: path.basename(d.file), detail: d.file, description: d.name || (d.index !== undefined ? `#${d.index + 1}` : null)};
@@ -23,7 +24,9 @@ export class StatusBarManager {
             vscode.window.showQuickPick(items).then(r => {
                 if (!r) return;
                 doc.setData(r.data);
+                notifyDataSelected(doc);
                 this.updateDataItemForDocument(doc);
+                vscode.commands.executeCommand('mist.updateInlineValues');
                 MistContentProvider.sharedInstance.send('selectData', {name});
             });
         });
@@ -54,7 +57,7 @@ export class StatusBarManager {
 
     public static onDidChangeActiveTextEditor(editor: vscode.TextEditor) {
         if (editor && editor.document.languageId === 'mist') {
-            let doc = MistDocument.getDocumentByUri(editor.document.uri);
+            let doc = MistDocument.getDocumentByUri(editor.document.uri.toString());
             this.updateDataItemForDocument(doc);
             this.dataItem.show();
         }
@@ -2,9 +2,10 @@ import { Schema, ValidationResult, SchemaFormat, validateJsonNode, ISchema, pars
 import * as json from 'jsonc-parser';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as vscode from 'vscode';
+import URI from 'vscode-uri';
 import { xhr, XHRResponse, getErrorStatusDescription } from 'request-light';
 import { Property, Type } from "./browser/type";
+import { RuleSeverityMap } from "./rules";
 
 type PropertyMap = {
     [name: string]: Schema;
@@ -27,6 +28,9 @@ type MistCustomConfig = {
     actions: {
         [name: string]: Schema;
     };
+    rules?: RuleSeverityMap;
+    // 自定义规则模块的绝对路径
+    customRules?: string[];
 }
 
 const colors = ["black", "darkgray", "lightgray", "white", "gray", "red", "green", "blue", "cyan", "yellow", "magenta", "orange", "purple", "brown", "transparent"];
@@ -149,7 +153,7 @@ export class NodeSchema implements ISchema {
         }
         else {
             if (uri.startsWith('file://')) {
-                uri = vscode.Uri.parse(uri).fsPath;
+                uri = URI.parse(uri).fsPath;
             }
             return new Promise((resolve, reject) => {
                 fs.exists(uri, exists => {
@@ -185,6 +189,8 @@ export class NodeSchema implements ISchema {
                     config.actions = { ...extendsConfig.actions, ...config.actions };
                     config.properties = { ...extendsConfig.properties, ...config.properties };
                     config.styleProperties = { ...extendsConfig.styleProperties, ...config.styleProperties };
+                    config.rules = { ...extendsConfig.rules, ...config.rules };
+                    config.customRules = [...extendsConfig.customRules, ...config.customRules];
                     return config;
                 });
             });
@@ -211,12 +217,16 @@ export class NodeSchema implements ISchema {
         let properties = readTypesPropertiesMap(data['custom-properties']);
         let styleProperties = readTypesPropertiesMap(data['custom-style-properties']);
         let actions = readPropertiesMap(data['custom-actions']);
+        let rules = data['rules'] || {};
+        let customRules = (data['custom-rules'] || []).map((file: string) => path.resolve(dir, file));
 
         return Promise.resolve({
             types,
             properties,
             styleProperties,
-            actions
+            actions,
+            rules,
+            customRules
         });
     }
     private static getConfig() {
@@ -227,6 +237,10 @@ export class NodeSchema implements ISchema {
             types: {}
         };
     }
+    public static getRulesConfig(): { rules: RuleSeverityMap, customRules: string[] } {
+        let config = this.getConfig();
+        return { rules: config.rules || {}, customRules: config.customRules || [] };
+    }
     public static getEventSchema(): Schema {
         let config = this.getConfig();
         const actionScheme = {
@@ -1342,6 +1356,18 @@ export const templateSchema: Schema = parseSchema({
                 }
             }
         },
+        "data-type": {
+            "oneOf": [
+                {
+                    "type": "string"
+                },
+                {
+                    "type": "object",
+                    "additionalProperties": true
+                }
+            ],
+            "description": "声明模版数据的类型，用于检查表达式和 mock 数据。值可以是类似 TypeScript 的类型声明，如 `{ title: string; items: { name: string }[] }`，也可以是 JSON Schema 对象或 `.json` 结尾的 JSON Schema 文件路径"
+        },
         "controller": {
             "type": "string",
             "description": "模版关联的 controller 类名\n\n[查看文档](https://vizzle.github.io/MIST/basics/Property.html#controller)"
@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as WebSocket from 'ws';
+import { spawn, ChildProcess } from 'child_process';
+import { removeDir } from './file';
+
+const CHROME_PATHS: { [platform: string]: string[] } = {
+    darwin: [
+        '/Applications/Google Chrome.app/Contents/MacOS/Google Chrome',
+        '/Applications/Chromium.app/Contents/MacOS/Chromium',
+        '/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge',
+    ],
+    win32: [
+        path.join(process.env['PROGRAMFILES(X86)'] || 'C:\\Program Files (x86)', 'Google\\Chrome\\Application\\chrome.exe'),
+        path.join(process.env['PROGRAMFILES'] || 'C:\\Program Files', 'Google\\Chrome\\Application\\chrome.exe'),
+        path.join(process.env['LOCALAPPDATA'] || '', 'Google\\Chrome\\Application\\chrome.exe'),
+    ],
+    linux: [
+        '/usr/bin/google-chrome',
+        '/usr/bin/google-chrome-stable',
+        '/usr/bin/chromium',
+        '/usr/bin/chromium-browser',
+    ],
+};
+
+const LAUNCH_TIMEOUT = 30000;
+const OPEN_TIMEOUT = 30000;
+
+/**
+ * 查找本机安装的 Chrome，优先使用 `CHROME_PATH` 环境变量
+ */
+export function findChrome(): string {
+    let candidates = [process.env.CHROME_PATH, ...(CHROME_PATHS[process.platform] || [])];
+    return candidates.find(file => !!file && fs.existsSync(file)) || null;
+}
+
+function removeUserDataDir(dir: string) {
+    try {
+        removeDir(dir);
+    }
+    catch (e) {
+        // Chrome 留下的文件不影响使用
+    }
+}
+
+/**
+ * 通过 DevTools 协议控制的无界面 Chrome，只打开一个页面
+ */
+export class HeadlessChrome {
+    private callbacks: { [id: number]: { resolve: (result: any) => void, reject: (error: Error) => void } } = {};
+    private lastId = 0;
+    private sessionId: string;
+    private exited = false;
+
+    private constructor(private process: ChildProcess, private socket: WebSocket, private userDataDir: string) {
+        process.on('exit', () => this.exited = true);
+        socket.on('message', (message: string) => {
+            let data = JSON.parse(message);
+            let callback = this.callbacks[data.id];
+            if (!callback) return;
+            delete this.callbacks[data.id];
+            if (data.error) {
+                callback.reject(new Error(data.error.message));
+            }
+            else {
+                callback.resolve(data.result);
+            }
+        });
+        // 连接断开后不会再收到结果
+        socket.on('close', () => {
+            let callbacks = this.callbacks;
+            this.callbacks = {};
+            Object.keys(callbacks).forEach(id => callbacks[id].reject(new Error('与 Chrome 的连接已断开')));
+        });
+    }
+
+    /**
+     * 启动 Chrome 并打开一个空白页面，启动失败时结束 Chrome 进程并删除临时的用户数据目录
+     */
+    public static async launch(chromePath: string): Promise<HeadlessChrome> {
+        let userDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mist-chrome-'));
+        let chrome: ChildProcess;
+        let socket: WebSocket;
+        // 启动失败时不会触发 exit
+        let exited = false;
+        try {
+            chrome = spawn(chromePath, [
+                '--headless',
+                '--disable-gpu',
+                '--hide-scrollbars',
+                '--no-first-run',
+                '--allow-file-access-from-files',
+                '--remote-debugging-port=0',
+                `--user-data-dir=${userDataDir}`,
+                'about:blank'
+            ]);
+            chrome.on('exit', () => exited = true);
+            chrome.on('error', () => exited = true);
+            socket = await HeadlessChrome.connect(chrome);
+            let browser = new HeadlessChrome(chrome, socket, userDataDir);
+            let { targetId } = await browser.send('Target.createTarget', { url: 'about:blank' });
+            browser.sessionId = (await browser.send('Target.attachToTarget', { targetId, flatten: true })).sessionId;
+            return browser;
+        }
+        catch (e) {
+            if (socket) {
+                socket.terminate();
+            }
+            if (chrome && !exited) {
+                await new Promise(resolve => {
+                    let timer = setTimeout(resolve, LAUNCH_TIMEOUT);
+                    chrome.on('exit', () => {
+                        clearTimeout(timer);
+                        resolve();
+                    });
+                    chrome.kill();
+                });
+            }
+            removeUserDataDir(userDataDir);
+            throw e;
+        }
+    }
+
+    /**
+     * 等待 Chrome 输出 DevTools 的地址并建立连接
+     */
+    private static async connect(chrome: ChildProcess): Promise<WebSocket> {
+        let url = await new Promise<string>((resolve, reject) => {
+            let output = '';
+            let timer = setTimeout(() => reject(new Error('Chrome 启动超时')), LAUNCH_TIMEOUT);
+            chrome.stderr.on('data', data => {
+                output += data;
+                let match = output.match(/DevTools listening on (ws:\/\/\S+)/);
+                if (match) {
+                    clearTimeout(timer);
+                    resolve(match[1]);
+                }
+            });
+            chrome.on('error', e => {
+                clearTimeout(timer);
+                reject(e);
+            });
+            chrome.on('exit', code => {
+                clearTimeout(timer);
+                reject(new Error(`Chrome 异常退出（${code}）：${output}`));
+            });
+        });
+        let socket = new WebSocket(url);
+        await new Promise((resolve, reject) => {
+            socket.on('open', resolve);
+            socket.on('error', reject);
+        });
+        return socket;
+    }
+
+    /**
+     * 发送 DevTools 协议命令，页面打开后命令默认发给页面
+     */
+    public send(method: string, params: any = {}, toBrowser = false): Promise<any> {
+        let id = ++this.lastId;
+        return new Promise((resolve, reject) => {
+            this.callbacks[id] = { resolve, reject };
+            this.socket.send(JSON.stringify({ id, method, params, sessionId: toBrowser ? undefined : this.sessionId }));
+        });
+    }
+
+    /**
+     * 打开页面，等待 `readyExpression` 为真，超时后抛出异常
+     */
+    public async open(url: string, readyExpression: string, timeout = OPEN_TIMEOUT) {
+        let deadline = Date.now() + timeout;
+        await this.send('Page.enable');
+        await this.send('Page.navigate', { url });
+        while (!(await this.evaluate(readyExpression))) {
+            if (Date.now() > deadline) {
+                throw new Error(`页面加载超时：${url}`);
+            }
+            await new Promise(resolve => setTimeout(resolve, 50));
+        }
+    }
+
+    /**
+     * 在页面中计算表达式，表达式的结果为 Promise 时等待其完成
+     */
+    public async evaluate(expression: string): Promise<any> {
+        let { result, exceptionDetails } = await this.send('Runtime.evaluate', { expression, awaitPromise: true, returnByValue: true });
+        if (exceptionDetails) {
+            let description = exceptionDetails.exception && exceptionDetails.exception.description;
+            throw new Error(description || exceptionDetails.text);
+        }
+        return result.value;
+    }
+
+    public async setViewport(width: number, height: number, scale: number) {
+        await this.send('Emulation.setDeviceMetricsOverride', { width, height, deviceScaleFactor: scale, mobile: true });
+    }
+
+    /**
+     * 截取页面左上角指定大小的区域，返回 PNG 数据
+     */
+    public async screenshot(width: number, height: number): Promise<Buffer> {
+        let { data } = await this.send('Page.captureScreenshot', { format: 'png', clip: { x: 0, y: 0, width, height, scale: 1 } });
+        return Buffer.from(data, 'base64');
+    }
+
+    public async close() {
+        try {
+            await this.send('Browser.close', {}, true);
+        }
+        catch (e) {
+            this.process.kill();
+        }
+        this.socket.close();
+        await new Promise(resolve => this.exited ? resolve() : this.process.on('exit', resolve));
+        removeUserDataDir(this.userDataDir);
+    }
+}
@@ -0,0 +1,54 @@
+'use strict';
+
+import { TextDocument, Position, Range } from 'vscode-languageserver-types'
+import URI from 'vscode-uri'
+import * as fs from 'fs'
+
+const DEFAULT_WORD_RE = /[^`~!@#$%^&*()\-=+\[{\]}\\|;:'",.<>\/?\s]+/
+
+export function translate(position: Position, lineDelta: number = 0, characterDelta: number = 0): Position {
+    return Position.create(Math.max(position.line + lineDelta, 0), Math.max(position.character + characterDelta, 0));
+}
+
+export function lineRange(document: TextDocument, line: number): Range {
+    let start = document.offsetAt(Position.create(line, 0));
+    let end = line + 1 < document.lineCount ? document.offsetAt(Position.create(line + 1, 0)) : document.getText().length;
+    let text = document.getText().substring(start, end);
+    let match = text.match(/\r?\n$/);
+    return Range.create(Position.create(line, 0), Position.create(line, text.length - (match ? match[0].length : 0)));
+}
+
+export function lineText(document: TextDocument, line: number): string {
+    return document.getText(lineRange(document, line));
+}
+
+export function getWordRangeAtPosition(document: TextDocument, position: Position, regex: RegExp = DEFAULT_WORD_RE): Range {
+    let text = lineText(document, position.line);
+    let re = new RegExp(regex.source, 'g');
+    let match: RegExpExecArray;
+    while (match = re.exec(text)) {
+        if (match[0].length === 0) {
+            re.lastIndex++;
+            continue;
+        }
+        if (match.index <= position.character && match.index + match[0].length >= position.character) {
+            return Range.create(position.line, match.index, position.line, match.index + match[0].length);
+        }
+        if (match.index > position.character) {
+            break;
+        }
+    }
+    return null;
+}
+
+/**
+ * 文档在磁盘上的路径，未保存的文档返回空字符串
+ */
+export function getFileName(uri: string): string {
+    let parsed = URI.parse(uri);
+    return parsed.scheme === 'file' ? parsed.fsPath : '';
+}
+
+export function readTextDocument(file: string, languageId: string = 'mist'): TextDocument {
+    return TextDocument.create(URI.file(file).toString(), languageId, 0, fs.readFileSync(file, 'utf-8'));
+}
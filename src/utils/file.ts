@@ -0,0 +1,29 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * 创建目录，父目录不存在时一并创建
+ */
+export function mkdirs(dir: string) {
+    if (!fs.existsSync(dir)) {
+        mkdirs(path.dirname(dir));
+        fs.mkdirSync(dir);
+    }
+}
+
+/**
+ * 删除目录及其中的所有文件，目录不存在时忽略
+ */
+export function removeDir(dir: string) {
+    if (!fs.existsSync(dir)) return;
+    fs.readdirSync(dir).forEach(name => {
+        let file = path.join(dir, name);
+        if (fs.lstatSync(file).isDirectory()) {
+            removeDir(file);
+        }
+        else {
+            fs.unlinkSync(file);
+        }
+    });
+    fs.rmdirSync(dir);
+}
@@ -4,7 +4,7 @@
 import * as json from 'jsonc-parser'
 
 export function getPropertyNode(node: json.Node, property: string) {
-    if (node.type === 'object') {
+    if (node && node.type === 'object') {
         let propertyNode = node.children.find(n => n.type === 'property' && n.children[0].value === property);
         if (propertyNode) {
             return propertyNode.children[1];
@@ -129,3 +129,43 @@ export function getNodeValue(node: json.Node): any {
     }
     return node.value;
 }
+
+export function findNodeAtOffset(node: json.Node, offset: number): json.Node {
+    if (!node) {
+        return null;
+    }
+    // parseJson 中值为 object/array 的 property 长度不包含值，只能根据子节点判断
+    if (node.type === 'property') {
+        return node.children.map(c => findNodeAtOffset(c, offset)).find(n => !!n) || null;
+    }
+    if (offset < node.offset || offset > node.offset + node.length) {
+        return null;
+    }
+    if (node.children) {
+        for (let child of node.children) {
+            let found = findNodeAtOffset(child, offset);
+            if (found) {
+                return found;
+            }
+        }
+    }
+    return node;
+}
+
+export function getNodePath(node: json.Node): json.Segment[] {
+    let path: json.Segment[] = [];
+    while (node && node.parent) {
+        let parent = node.parent;
+        if (parent.type === 'property') {
+            path.unshift(parent.children[0].value);
+            node = parent.parent;
+        }
+        else {
+            if (parent.type === 'array') {
+                path.unshift(parent.children.indexOf(node));
+            }
+            node = parent;
+        }
+    }
+    return path;
+}
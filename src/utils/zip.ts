@@ -0,0 +1,87 @@
+import * as zlib from 'zlib';
+
+export type ZipEntry = {
+    // zip 中的路径，使用 `/` 分隔
+    name: string;
+    data: Buffer;
+}
+
+const CRC_TABLE = (() => {
+    let table: number[] = [];
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table.push(c >>> 0);
+    }
+    return table;
+})();
+
+export function crc32(data: Buffer): number {
+    let crc = 0xFFFFFFFF;
+    for (let i = 0; i < data.length; i++) {
+        crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+
+function dosDateTime(date: Date) {
+    let time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+    let day = ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+    return { time, day };
+}
+
+/**
+ * 生成 zip 文件的内容，文件使用 deflate 压缩，文件名使用 UTF-8 编码
+ */
+export function createZip(entries: ZipEntry[], date = new Date()): Buffer {
+    let { time, day } = dosDateTime(date);
+    let parts: Buffer[] = [];
+    let centralParts: Buffer[] = [];
+    let offset = 0;
+    for (let entry of entries) {
+        let name = Buffer.from(entry.name, 'utf8');
+        let compressed = zlib.deflateRawSync(entry.data);
+        let crc = crc32(entry.data);
+
+        let header = Buffer.alloc(30);
+        header.writeUInt32LE(0x04034b50, 0);
+        header.writeUInt16LE(20, 4);
+        header.writeUInt16LE(0x0800, 6);
+        header.writeUInt16LE(8, 8);
+        header.writeUInt16LE(time, 10);
+        header.writeUInt16LE(day, 12);
+        header.writeUInt32LE(crc, 14);
+        header.writeUInt32LE(compressed.length, 18);
+        header.writeUInt32LE(entry.data.length, 22);
+        header.writeUInt16LE(name.length, 26);
+        header.writeUInt16LE(0, 28);
+        parts.push(header, name, compressed);
+
+        let central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(0x0800, 8);
+        central.writeUInt16LE(8, 10);
+        central.writeUInt16LE(time, 12);
+        central.writeUInt16LE(day, 14);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(entry.data.length, 24);
+        central.writeUInt16LE(name.length, 28);
+        central.writeUInt32LE(offset, 42);
+        centralParts.push(central, name);
+
+        offset += header.length + name.length + compressed.length;
+    }
+    let centralSize = centralParts.reduce((size, b) => size + b.length, 0);
+    let end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(entries.length, 8);
+    end.writeUInt16LE(entries.length, 10);
+    end.writeUInt32LE(centralSize, 12);
+    end.writeUInt32LE(offset, 16);
+    return Buffer.concat([...parts, ...centralParts, end]);
+}
@@ -10,10 +10,36 @@ import * as assert from 'assert';
 // as well as import your extension to test it
 import * as vscode from 'vscode';
 import * as myExtension from '../src/mistMain';
-import { getCurrentExpression, getSignatureInfo, getFunctionParamsCount } from '../src/mistDocument';
+import { getCurrentExpression, getSignatureInfo, getFunctionParamsCount, MistDocument, MistData } from '../src/mistDocument';
 import { Lexer } from '../src/browser/lexer';
 import { Parser, ExpressionContext } from '../src/browser/parser';
 import { Type, Property, UnionType, IntersectionType, Method, IType, ObjectType, ArrayType, LiteralType } from '../src/browser/type';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fork } from 'child_process';
+import * as zlib from 'zlib';
+import URI from 'vscode-uri';
+import { createProtocolConnection, StreamMessageReader, StreamMessageWriter, PublishDiagnosticsParams, InitializeRequest, CompletionRequest, HoverRequest } from 'vscode-languageserver';
+import { Diagnostic, DiagnosticSeverity, Range, TextDocument, DocumentHighlightKind, TextEdit } from 'vscode-languageserver-types';
+import { formatText, formatJson, formatSarif, FileDiagnostics } from '../src/mistLint';
+import { readTextDocument } from '../src/utils/document';
+import { ComponentHelper } from '../src/componentHelper';
+import { MistRules, RuleId } from '../src/rules';
+import MistDiagnosticProvider from '../src/diagnosticProvider';
+import { MockDataHelper } from '../src/mockDataHelper';
+import { SchemaObject } from '../src/schema';
+import { parseTypeDeclaration } from '../src/dataContract';
+import { bindData } from '../src/browser/template';
+import { ActionRunner, ActionLog } from '../src/browser/actions';
+import { normalizePageIndex, pageAfterDrag, linearGradient } from '../src/browser/render';
+import { acceptSnapshots, summarize, writeReport, SnapshotResult } from '../src/mistSnapshot';
+import { devices, toggleDevice, DeviceProfile, deviceFromProfile, allDevices } from '../src/browser/previewDevice';
+import { nodeRanges } from '../src/previewTemplate';
+import { encodeMessage, decodeMessage, PROTOCOL_VERSION } from '../src/browser/protocol';
+import { DeviceLogHelper } from '../src/deviceLog';
+import { TemplateSourceMap, compileErrorRange } from '../src/sourceMap';
+import { createZip, crc32 } from '../src/utils/zip';
 
 function XCTAssertExpression(exp, result) {
     let { expression: node, errorMessage: error } = Parser.parse(exp);
@@ -25,6 +51,36 @@ function XCTAssertSameExpression(exp) {
     XCTAssertExpression(exp, eval(exp));
 }
 
+// 在临时目录中创建文件，`files` 的 key 为相对路径，最多包含一级子目录
+function createTempDir(files: { [name: string]: string }) {
+    let dir = fs.mkdtempSync(path.join(os.tmpdir(), 'mist-test-'));
+    Object.keys(files).forEach(name => {
+        let file = path.join(dir, name);
+        if (!fs.existsSync(path.dirname(file))) {
+            fs.mkdirSync(path.dirname(file));
+        }
+        fs.writeFileSync(file, files[name]);
+    });
+    return dir;
+}
+
+function removeTempDir(dir: string) {
+    fs.readdirSync(dir).forEach(name => {
+        let file = path.join(dir, name);
+        if (fs.statSync(file).isDirectory()) {
+            removeTempDir(file);
+        }
+        else {
+            fs.unlinkSync(file);
+        }
+    });
+    fs.rmdirSync(dir);
+}
+
+function createDocument(name: string, text: string) {
+    return TextDocument.create(`file:///test/${name}`, 'mist', 0, text);
+}
+
 suite("Extension Tests", () => {
 
     test("type", () => {
@@ -419,4 +475,971 @@ suite("Extension Tests", () => {
         console.log(result, Type.typeof(data).getName());
     });
 
+    test("language server", async function () {
+        this.timeout(20000);
+        let text = `{
+  "layout": {
+    "type": "text",
+    "style": {
+      "text": "\${'abc'.substring(1)}",
+      "color": "\${1 +}"
+    }
+  },
+  "exp-version": 2
+}`;
+        let dir = createTempDir({ 'a.mist': text, 'b.mist': '{ "layout": { "type": "stack", "style": {} }, "exp-version": 2 }', 'readme.md': '' });
+        let server = fork(path.join(__dirname, '..', 'src', 'languageServer.js'), ['--stdio'], { silent: true });
+        let logger = { error: () => {}, warn: () => {}, info: () => {}, log: () => {} };
+        let connection = createProtocolConnection(new StreamMessageReader(server.stdout), new StreamMessageWriter(server.stdin), logger);
+        try {
+            let published: { [uri: string]: PublishDiagnosticsParams } = {};
+            let waiting: { [uri: string]: () => void } = {};
+            connection.onNotification('textDocument/publishDiagnostics', (params: PublishDiagnosticsParams) => {
+                published[params.uri] = params;
+                if (waiting[params.uri]) {
+                    waiting[params.uri]();
+                }
+            });
+            const diagnosticsOf = (uri: string) => published[uri] ? Promise.resolve(published[uri]) : new Promise<PublishDiagnosticsParams>(resolve => {
+                waiting[uri] = () => resolve(published[uri]);
+            });
+            connection.listen();
+
+            let result = await connection.sendRequest(InitializeRequest.type, { processId: process.pid, rootUri: URI.file(dir).toString(), capabilities: {}, workspaceFolders: null });
+            assert.ok(result.capabilities.completionProvider);
+            assert.ok(result.capabilities.hoverProvider);
+            assert.ok(result.capabilities.definitionProvider);
+            connection.sendNotification('initialized', {});
+
+            let uri = URI.file(path.join(dir, 'a.mist')).toString();
+            connection.sendNotification('textDocument/didOpen', { textDocument: { uri, languageId: 'mist', version: 1, text } });
+            let diagnostics = (await diagnosticsOf(uri)).diagnostics;
+            assert.deepEqual(diagnostics.map(d => [d.range.start.line, d.message]), [[5, 'expression expected']]);
+
+            let completion = await connection.sendRequest(CompletionRequest.type, { textDocument: { uri }, position: { line: 4, character: 23 } });
+            let items = Array.isArray(completion) ? completion : completion.items;
+            assert.ok(items.some(item => item.label === 'length'));
+
+            let hover = await connection.sendRequest(HoverRequest.type, { textDocument: { uri }, position: { line: 4, character: 24 } });
+            assert.ok(hover && JSON.stringify(hover.contents).indexOf('substring') >= 0);
+
+            // 工作区检查只包含根目录下的模板，未打开的模板也会发布诊断信息
+            assert.equal(await connection.sendRequest('mist/validateWorkspace'), 2);
+            assert.deepEqual((await diagnosticsOf(URI.file(path.join(dir, 'b.mist')).toString())).diagnostics, []);
+
+            await connection.sendRequest('shutdown');
+            connection.sendNotification('exit');
+        }
+        finally {
+            connection.dispose();
+            server.kill();
+            removeTempDir(dir);
+        }
+    });
+
+    test("lint formatters", () => {
+        let results: FileDiagnostics[] = [
+            {
+                file: path.join(process.cwd(), 'templates', 'card.mist'),
+                diagnostics: [
+                    Diagnostic.create(Range.create(1, 2, 1, 6), 'unused variable', DiagnosticSeverity.Warning, 'unused-variable'),
+                    Diagnostic.create(Range.create(3, 0, 3, 1), 'syntax error', DiagnosticSeverity.Error, 'json-syntax'),
+                ]
+            },
+            { file: path.join(process.cwd(), 'empty.mist'), diagnostics: [] }
+        ];
+        let file = path.join('templates', 'card.mist');
+
+        assert.equal(formatText(results), [
+            `${file}:2:3 - warning: unused variable (unused-variable)`,
+            `${file}:4:1 - error: syntax error (json-syntax)`,
+            '检查了 2 个模板，1 个错误，1 个警告'
+        ].join('\n'));
+
+        let json = JSON.parse(formatJson(results));
+        assert.equal(json.length, 2);
+        assert.equal(json[0].file, file);
+        assert.deepEqual(json[0].diagnostics[1], { severity: 'error', rule: 'json-syntax', message: 'syntax error', range: Range.create(3, 0, 3, 1) });
+        assert.deepEqual(json[1].diagnostics, []);
+
+        let sarif = JSON.parse(formatSarif(results));
+        assert.equal(sarif.version, '2.1.0');
+        let sarifResults = sarif.runs[0].results;
+        assert.equal(sarifResults.length, 2);
+        assert.equal(sarifResults[0].ruleId, 'unused-variable');
+        assert.equal(sarifResults[0].level, 'warning');
+        assert.equal(sarifResults[0].locations[0].physicalLocation.artifactLocation.uri, 'templates/card.mist');
+        assert.deepEqual(sarifResults[0].locations[0].physicalLocation.region, { startLine: 2, startColumn: 3, endLine: 2, endColumn: 7 });
+        assert.equal(sarifResults[1].level, 'error');
+    });
+
+    test("rename variable scope", () => {
+        let text = `{
+  "layout": {
+    "vars": { "a": "\${title}" },
+    "style": { "text": "\${a + list.map(a -> a + 1).count}" },
+    "children": [
+      { "vars": { "a": 2 }, "style": { "text": "\${a}" } },
+      { "style": { "text": "\${a}" } }
+    ]
+  }
+}`;
+        let document = createDocument('rename.mist', text);
+        let mistDoc = new MistDocument(document);
+        let renamed = (offset: number, newName: string) => {
+            let edit = mistDoc.provideRenameEdits(document.positionAt(offset), newName);
+            return edit ? TextDocument.applyEdits(document, edit.changes[document.uri]) : null;
+        };
+
+        // lambda 的参数和子节点中同名的变量不受影响
+        let expected = text.replace('"a": "${title}"', '"b": "${title}"').replace('${a + list', '${b + list').replace('{ "text": "${a}" } }\n    ]', '{ "text": "${b}" } }\n    ]');
+        assert.equal(renamed(text.indexOf('"a"') + 1, 'b'), expected);
+        assert.equal(renamed(text.indexOf('${a + list') + 2, 'b'), expected);
+
+        let inner = text.replace('"a": 2 }, "style": { "text": "${a}"', '"c": 2 }, "style": { "text": "${c}"');
+        assert.equal(renamed(text.indexOf('"a": 2') + 1, 'c'), inner);
+
+        assert.throws(() => renamed(text.indexOf('"a"') + 1, '1a'), /不是合法的变量名/);
+    });
+
+    test("variable references", () => {
+        let document = createDocument('references.mist', [
+            '{',
+            '  "state": { "count": 0 },',
+            '  "layout": {',
+            '    "vars": { "title": "${name}" },',
+            '    "style": { "text": "${title + state.count}" },',
+            '    "on-tap": { "updateState": { "count": "${state.count + 1}" } },',
+            '    "children": [',
+            '      { "style": { "text": "${title}" } },',
+            '      { "vars": { "title": "${1}" }, "style": { "text": "${title}" } }',
+            '    ]',
+            '  }',
+            '}',
+        ].join('\n'));
+        let mistDoc = new MistDocument(document);
+        let lines = (ranges: { range: Range }[]) => ranges.map(r => [r.range.start.line, r.range.start.character]);
+
+        let references = mistDoc.provideReferences({ line: 7, character: 31 }, true);
+        assert.deepEqual(references.map(r => r.uri), [document.uri, document.uri, document.uri]);
+        assert.deepEqual(lines(references), [[3, 15], [4, 26], [7, 30]]);
+        assert.deepEqual(lines(mistDoc.provideReferences({ line: 3, character: 17 }, false)), [[4, 26], [7, 30]]);
+
+        let highlights = mistDoc.provideDocumentHighlights({ line: 4, character: 40 });
+        // `updateState` 中的 key 修改了状态
+        assert.deepEqual(lines(highlights), [[1, 14], [4, 40], [5, 51], [5, 34]]);
+        assert.deepEqual(highlights.map(h => h.kind), [DocumentHighlightKind.Write, DocumentHighlightKind.Read, DocumentHighlightKind.Read, DocumentHighlightKind.Write]);
+
+        // 数据中的字段不是变量
+        assert.equal(mistDoc.provideDocumentHighlights({ line: 3, character: 28 }), null);
+        assert.equal(mistDoc.provideReferences({ line: 3, character: 28 }, true), null);
+    });
+
+    test("component imports", () => {
+        let button = JSON.stringify({
+            params: {
+                title: { type: 'string', description: '按钮文字' },
+                count: { type: 'number', default: 0 }
+            },
+            layout: {
+                children: [{ type: 'slot' }, { type: 'slot', name: 'icon' }]
+            }
+        }, null, 2);
+        let page = `{
+  "layout": {
+    "children": [
+      {
+        "import": "components/button",
+        "params": { "title": 1, "size": 2 },
+        "children": [{ "slot": "icon" }, { "slot": "footer" }]
+      },
+      { "import": "components/button.mist" },
+      { "import": "components/missing" },
+      { "import": "components/button", "params": { "title": "\${name}", "count": 3 } }
+    ]
+  }
+}`;
+        let dir = createTempDir({ 'components/button.mist': button, 'page.mist': page });
+        try {
+            let document = readTextDocument(path.join(dir, 'page.mist'));
+            let mistDoc = new MistDocument(document);
+            let diagnostics = mistDoc.validate().filter(d => /组件|参数|插槽/.test(d.message));
+            assert.deepEqual(diagnostics.map(d => [d.range.start.line, d.message, d.severity]), [
+                [5, '参数 `title` 的类型应为 `string`，实际为 `number`', DiagnosticSeverity.Error],
+                [5, '组件 `components/button` 中没有声明参数 `size`', DiagnosticSeverity.Warning],
+                [6, '组件 `components/button` 中不存在插槽 `footer`', DiagnosticSeverity.Error],
+                [8, '缺少组件参数 `title`（按钮文字）', DiagnosticSeverity.Error],
+                [9, '找不到组件 `components/missing`', DiagnosticSeverity.Error],
+            ]);
+
+            let definition = mistDoc.provideDefinition({ line: 4, character: 20 });
+            assert.equal(definition.uri, URI.file(path.join(dir, 'components', 'button.mist')).toString());
+        }
+        finally {
+            removeTempDir(dir);
+        }
+    });
+
+    test("component import graph", () => {
+        let template = (...imports: string[]) => JSON.stringify({ layout: { children: imports.map(name => ({ import: name })) } });
+        let dir = createTempDir({
+            'a.mist': template('b'),
+            'b.mist': template('c', 'missing'),
+            'c.mist': template('a'),
+            'd.mist': template('c', 'c'),
+        });
+        let file = (name: string) => path.join(dir, name + '.mist');
+        try {
+            assert.deepEqual(ComponentHelper.getImports(file('d')), [file('c')]);
+            assert.deepEqual(ComponentHelper.getImporters(file('c'), dir), [file('b'), file('d')]);
+            assert.deepEqual(ComponentHelper.getAffectedTemplates(file('c'), dir), [file('b'), file('d'), file('a')]);
+            assert.deepEqual(ComponentHelper.findImportCycle(file('b'), file('a')), [file('b'), file('c'), file('a')]);
+            assert.equal(ComponentHelper.findImportCycle(file('a'), file('d')), null);
+
+            let diagnostics = new MistDocument(readTextDocument(file('a'))).validate().filter(d => d.message.startsWith('组件循环引用'));
+            assert.deepEqual(diagnostics.map(d => d.message), ['组件循环引用：a.mist → b.mist → c.mist → a.mist']);
+            assert.equal(new MistDocument(readTextDocument(file('d'))).validate().filter(d => d.message.startsWith('组件循环引用')).length, 0);
+        }
+        finally {
+            removeTempDir(dir);
+        }
+    });
+
+    test("quick fixes", () => {
+        let text = `{
+  "layout": {
+    "vars": {
+      "unused": 1,
+      "size": 2
+    },
+    "children": [
+      {
+        "type": "image",
+        "style": { "image": "a", "content-mode": "scale-aspect-fill", "width": "\${size}" }
+      },
+      {
+        "type": "text",
+        "color": "red",
+        "style": {
+          "text": "a"
+        }
+      },
+      {
+        "vars": { "a": "x", "b": "\${a + '!'}" },
+        "type": "text",
+        "style": { "text": "\${b}" }
+      }
+    ]
+  }
+}`;
+        let document = createDocument('fixes.mist', text);
+        let mistDoc = new MistDocument(document);
+        let apply = (edits: TextEdit[]) => TextDocument.applyEdits(document, edits);
+        let actions = mistDoc.provideCodeActions(null, mistDoc.validate());
+        assert.deepEqual(actions.map(a => a.title), [
+            '设置 `"clip": true`',
+            '将 `color` 移到 `style` 中',
+            '将 `vars` 拆分为数组，按引用顺序定义变量',
+            '删除未引用的变量 `unused`',
+            '使用新版本表达式 `"exp-version": 2`',
+            '修复文件中所有可自动修复的问题',
+        ]);
+        // 全部修复在选择后才计算
+        assert.deepEqual(actions[5].command, { title: '修复文件中所有可自动修复的问题', command: 'editor.action.sourceAction', arguments: [{ kind: 'source.fixAll.mist', apply: 'first' }] });
+        assert.equal(apply(actions[3].edit.changes[document.uri]), text.replace('      "unused": 1,\n', ''));
+        assert.equal(apply(actions[4].edit.changes[document.uri]), text.replace(/\n}$/, ',\n  "exp-version": 2\n}'));
+
+        // 升级表达式版本需要单独确认，不包含在全部修复中
+        let fixed = `{
+  "layout": {
+    "vars": {
+      "size": 2
+    },
+    "children": [
+      {
+        "type": "image",
+        "style": { "image": "a", "content-mode": "scale-aspect-fill", "width": "\${size}", "clip": true }
+      },
+      {
+        "type": "text",
+        "style": {
+          "text": "a",
+          "color": "red"
+        }
+      },
+      {
+        "vars": [
+          { "a": "x" },
+          { "b": "\${a + '!'}" }
+        ],
+        "type": "text",
+        "style": { "text": "\${b}" }
+      }
+    ]
+  }
+}`;
+        assert.deepEqual(mistDoc.provideCodeActions(null, [], ['source.organizeImports']), []);
+        let fixAll = mistDoc.provideCodeActions(null, [], ['source.fixAll']);
+        assert.deepEqual(fixAll.map(a => [a.title, a.kind]), [['修复文件中所有可自动修复的问题', 'source.fixAll.mist']]);
+        assert.equal(apply(fixAll[0].edit.changes[document.uri]), fixed);
+
+        // 删除同一行中的属性时不留下多余的空格
+        let inline = createDocument('inline.mist', `{
+  "layout": {
+    "vars": { "unused": 1, "size": 2 },
+    "style": { "width": "\${size}" }
+  }
+}`);
+        let inlineDoc = new MistDocument(inline);
+        let remove = inlineDoc.provideCodeActions(null, inlineDoc.validate()).find(a => a.title === '删除未引用的变量 `unused`');
+        assert.equal(TextDocument.applyEdits(inline, remove.edit.changes[inline.uri]).split('\n')[2], '    "vars": { "size": 2 },');
+    });
+
+    test("rule severities", () => {
+        let diagnostics = () => [
+            Diagnostic.create(Range.create(0, 0, 0, 1), 'a', DiagnosticSeverity.Warning, RuleId.UnusedVariable),
+            Diagnostic.create(Range.create(1, 0, 1, 1), 'b', DiagnosticSeverity.Error, RuleId.ImageClip),
+            Diagnostic.create(Range.create(2, 0, 2, 1), 'c', DiagnosticSeverity.Error, RuleId.DuplicateKey),
+        ];
+        let result = MistRules.applySeverities(diagnostics(), { [RuleId.UnusedVariable]: 'off', [RuleId.ImageClip]: 'warning' });
+        assert.deepEqual(result.map(d => [d.code, d.severity]), [[RuleId.ImageClip, DiagnosticSeverity.Warning], [RuleId.DuplicateKey, DiagnosticSeverity.Error]]);
+
+        // 工作区设置优先于 mist-extension.json
+        MistRules.setSettings({ [RuleId.ImageClip]: 'hint', [RuleId.DuplicateKey]: 'off' });
+        try {
+            result = MistRules.applySeverities(diagnostics(), { [RuleId.ImageClip]: 'warning' });
+            assert.deepEqual(result.map(d => [d.code, d.severity]), [[RuleId.UnusedVariable, DiagnosticSeverity.Warning], [RuleId.ImageClip, DiagnosticSeverity.Hint]]);
+        }
+        finally {
+            MistRules.setSettings(null);
+        }
+    });
+
+    test("ignore comments", () => {
+        let document = createDocument('ignore.mist', [
+            '{',
+            '  // @ignore',
+            '  "a": 1,',
+            `  // @ignore ${RuleId.UnusedVariable}, ${RuleId.ImageClip}`,
+            '  "b": 2,',
+            '  // @ignore 旧版本的写法',
+            '  "c": 3,',
+            '  // 普通注释',
+            '  "d": 4',
+            '}',
+        ].join('\n'));
+        let provider = new MistDiagnosticProvider();
+        let ignored = (line: number, code: string) => provider.hasIgnore(document, { line, character: 2 }, code);
+        assert.equal(ignored(0, RuleId.UnusedVariable), false);
+        assert.equal(ignored(2, RuleId.UnusedVariable), true);
+        assert.equal(ignored(4, RuleId.ImageClip), true);
+        assert.equal(ignored(4, RuleId.DuplicateKey), false);
+        assert.equal(ignored(6, RuleId.DuplicateKey), true);
+        assert.equal(ignored(8, RuleId.UnusedVariable), false);
+    });
+
+    test("ignore comments with unknown rules", () => {
+        let document = createDocument('ignore-unknown.mist', [
+            '{',
+            '  // @ignore my-custom-rule',
+            '  "a": 1,',
+            '  // @ignore unused-vra',
+            '  "b": 2,',
+            `  // @ignore 暂时保留 ${RuleId.UnusedVariable}`,
+            '  "c": 3',
+            '}',
+        ].join('\n'));
+        let provider = new MistDiagnosticProvider();
+        let ignored = (line: number, code: string) => provider.hasIgnore(document, { line, character: 2 }, code);
+        // 未加载的自定义规则和拼错的 id 不会忽略所有问题
+        assert.equal(ignored(2, 'my-custom-rule'), true);
+        assert.equal(ignored(2, RuleId.UnusedVariable), false);
+        assert.equal(ignored(4, 'unused-vra'), true);
+        assert.equal(ignored(4, RuleId.UnusedVariable), false);
+        assert.equal(ignored(6, RuleId.UnusedVariable), true);
+        assert.equal(ignored(6, RuleId.DuplicateKey), false);
+    });
+
+    test("infer data schema", () => {
+        let document = createDocument('infer.mist', `{
+  "layout": {
+    "vars": { "user": "\${info.user}" },
+    "children": [
+      { "type": "text", "style": { "text": "\${user.name}" } },
+      { "type": "text", "repeat": "\${list}", "style": { "text": "\${_item_.title}" } },
+      { "type": "text", "style": { "text": "\${desc.length > 0 ? desc : ''}" } }
+    ]
+  },
+  "exp-version": 2
+}`);
+        let schema = new MistDocument(document).inferDataSchema();
+        assert.equal(schema.description, '模板 `infer.mist` 使用的数据');
+        assert.equal((<SchemaObject>schema.properties.list).description, '模板中的使用：\n\n`${list}`');
+        // 只比较结构，忽略说明等字段
+        let structure = JSON.parse(JSON.stringify(schema, (key, value) => ['description', 'required', 'additionalProperties'].indexOf(key) >= 0 ? undefined : value));
+        assert.deepEqual(structure, {
+            type: 'object',
+            properties: {
+                info: { type: 'object', properties: { user: { type: 'object', properties: { name: {} } } } },
+                list: { type: 'array', items: { type: 'object', properties: { title: {} } } },
+                desc: { type: 'string' }
+            }
+        });
+        assert.deepEqual(MockDataHelper.generateSkeleton(schema), { info: { user: { name: '' } }, list: [{ title: '' }], desc: '' });
+    });
+
+    test("infer required data fields", () => {
+        let document = createDocument('required.mist', `{
+  "layout": {
+    "children": [
+      { "type": "text", "gone": "\${!banner}", "style": { "text": "\${banner.title}" } },
+      { "type": "text", "style": { "text": "\${user ? user.name : ''}", "color": "\${theme.color}" } },
+      { "type": "text", "style": { "text": "\${shop.owner.name || ''}" } }
+    ]
+  },
+  "exp-version": 2
+}`);
+        let schema = new MistDocument(document).inferDataSchema();
+        let property = (name: string) => <SchemaObject>schema.properties[name];
+        // 判断过是否为空的数据及其下层数据不要求存在
+        assert.deepEqual(schema.required, ['theme']);
+        assert.deepEqual(property('theme').required, ['color']);
+        assert.deepEqual(['banner', 'user', 'shop'].map(name => property(name).required), [undefined, undefined, undefined]);
+    });
+
+    test("infer data from expression types", () => {
+        let document = createDocument('types.mist', `{
+  "layout": {
+    "children": [
+      { "type": "text", "style": { "text": "\${shop.owner['nick name'] + shop.owner.level}" } },
+      {
+        "repeat": "\${groups}",
+        "children": [
+          { "type": "text", "repeat": "\${_item_.products}", "style": { "text": "\${_item_.price > 0 ? _item_.name : ''}" } }
+        ]
+      },
+      { "type": "text", "style": { "text": "\${title.substring(1) + tags.filter(t -> t.length > 0).join(',')}", "width": "\${size(1, 2).width}" } },
+      { "type": "text", "gone": "\${info.keys().count == 0}" }
+    ]
+  },
+  "exp-version": 2
+}`);
+        let schema = new MistDocument(document).inferDataSchema();
+        let structure = JSON.parse(JSON.stringify(schema, (key, value) => ['description', 'additionalProperties'].indexOf(key) >= 0 ? undefined : value));
+        assert.deepEqual(structure, {
+            type: 'object',
+            properties: {
+                // 多层的属性访问和字符串索引
+                shop: { type: 'object', properties: { owner: { type: 'object', properties: { level: {}, 'nick name': {} }, required: ['level', 'nick name'] } }, required: ['owner'] },
+                // `repeat` 中的 `_item_` 为数组元素，比较运算的操作数为数字
+                groups: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: { products: { type: 'array', items: { type: 'object', properties: { price: { type: 'number' }, name: {} }, required: ['price', 'name'] } } },
+                        required: ['products']
+                    }
+                },
+                // 由调用的方法推断类型，lambda 参数和全局函数不是数据
+                title: { type: 'string' },
+                tags: { type: 'array', items: {} },
+                info: { type: 'object' }
+            },
+            required: ['shop', 'groups', 'title', 'tags']
+        });
+    });
+
+    test("type declaration", () => {
+        let { schema, error } = parseTypeDeclaration("{ title: string; items: { name: string, price?: number }[]; status: 'on' | 'off' }");
+        assert.equal(error, undefined);
+        assert.deepEqual(schema.required, ['title', 'items', 'status']);
+        assert.deepEqual(schema.properties['title'], { type: 'string' });
+        assert.deepEqual(schema.properties['items'], {
+            type: 'array',
+            items: { type: 'object', properties: { name: { type: 'string' }, price: { type: 'number' } }, required: ['name'] }
+        });
+        assert.deepEqual((schema.properties['status'] as SchemaObject).enum, ['on', 'off']);
+
+        assert.deepEqual(parseTypeDeclaration('{ [key: string]: number }').schema.additionalProperties, { type: 'number' });
+        assert.deepEqual(parseTypeDeclaration('{ a: string | null }').schema.properties['a'], { oneOf: [{ type: 'string' }, { type: 'null' }] });
+
+        assert.deepEqual(parseTypeDeclaration('{ a: numbr }').error, { message: '未知的类型 `numbr`', offset: 5, length: 5 });
+        assert.ok(parseTypeDeclaration('{ a: string').error);
+    });
+
+    test("type declaration error range", () => {
+        let document = createDocument('escape.mist', `{
+  "data-type": "{ s: \\"on\\" | numbr }",
+  "layout": {},
+  "exp-version": 2
+}`);
+        let diagnostic = new MistDocument(document).validate().find(d => d.message === '未知的类型 `numbr`');
+        // 错误位置需要跳过字符串中的转义字符
+        assert.deepEqual(diagnostic.range, { start: { line: 1, character: 30 }, end: { line: 1, character: 35 } });
+    });
+
+    test("data-type schema file", () => {
+        let page = `{
+  "data-type": "schema.json",
+  "layout": {}
+}`;
+        // 有 `properties` 时可以省略 `"type": "object"`
+        let dir = createTempDir({ 'schema.json': '{ "properties": { "title": { "type": "string" } }, "required": ["title"] }', 'page.mist': page });
+        try {
+            let mistDoc = new MistDocument(readTextDocument(path.join(dir, 'page.mist')));
+            let contract = mistDoc.getDataContract();
+            assert.deepEqual(contract.errors, []);
+            assert.deepEqual(contract.type.getProperty('title').type, Type.String);
+            // 文件没有变化时使用缓存
+            assert.equal(mistDoc.getDataContract(), contract);
+
+            let file = path.join(dir, 'schema.json');
+            fs.writeFileSync(file, '{ "properties": { "count": { "type": "number" } } }');
+            let time = new Date(Date.now() + 10000);
+            fs.utimesSync(file, time, time);
+            contract = mistDoc.getDataContract();
+            assert.deepEqual(Object.keys(contract.schema.properties), ['count']);
+        }
+        finally {
+            removeTempDir(dir);
+        }
+    });
+
+    test("data binding traces", () => {
+        let template = {
+            layout: {
+                vars: { greeting: '${user.name}' },
+                children: [
+                    { type: 'text', style: { text: '${greeting}' } },
+                    { type: 'text', repeat: '${items}', style: { text: '${_item_}' } },
+                    { type: 'text', gone: '${hidden}', style: { text: 'x' } }
+                ]
+            }
+        };
+        let { layout, traces } = bindData(template, { user: { name: 'Tom' }, items: ['a', 'b'], hidden: true }, {});
+        assert.deepEqual(layout.children.map(c => c.style.text), ['Tom', 'a', 'b']);
+        assert.deepEqual(traces[''][0].expressions, [{ path: ['vars', 'greeting'], value: 'Tom' }]);
+        assert.deepEqual(traces['0'][0].vars, { greeting: 'Tom' });
+        assert.deepEqual(traces['0'][0].expressions, [{ path: ['style', 'text'], value: 'Tom' }]);
+
+        // `repeat` 的每个元素对应一次绑定
+        assert.deepEqual(traces['1'].map(t => [t.item, t.index]), [['a', 0], ['b', 1]]);
+        assert.deepEqual(traces['1'][1].expressions, [{ path: ['repeat'], value: ['a', 'b'] }, { path: ['style', 'text'], value: 'b' }]);
+
+        assert.equal(traces['2'][0].gone, true);
+        assert.deepEqual(traces['2'][0].expressions, [{ path: ['gone'], value: true }]);
+    });
+
+    test("inline expression values", () => {
+        let text = `{
+  "layout": {
+    "vars": { "n": "\${count}" },
+    "children": [
+      { "type": "text", "style": { "text": "\${title}", "width": "\${screenWidth / 2}" } },
+      { "type": "text", "repeat": "\${list}", "style": { "text": "\${_item_}" } }
+    ]
+  }
+}`;
+        let data = JSON.stringify({ template: 'card', data: { count: 2, title: 'Hello', list: ['a', 'b'] } });
+        let dir = createTempDir({ 'card.mist': text, 'card.json': data });
+        try {
+            MistData.openFile(path.join(dir, 'card.json'));
+            let document = readTextDocument(path.join(dir, 'card.mist'));
+            let values = new MistDocument(document).getExpressionValues({ screenWidth: 375 });
+            // 值显示在表达式结束的位置，`repeat` 的节点使用第一个元素
+            assert.deepEqual(values.map(v => {
+                let position = document.positionAt(v.offset);
+                return [position.line, position.character, v.value];
+            }), [
+                [2, 28, 2],
+                [4, 52, 'Hello'],
+                [4, 83, 187.5],
+                [5, 42, ['a', 'b']],
+                [5, 74, 'a']
+            ]);
+        }
+        finally {
+            removeTempDir(dir);
+        }
+    });
+
+    test("event actions", () => {
+        let template = {
+            state: { count: 0 },
+            layout: {
+                vars: { step: 2 },
+                children: [{
+                    type: 'text',
+                    style: { text: '${state.count}' },
+                    'on-tap': [
+                        { updateState: { count: '${state.count + step}' } },
+                        { alert: { title: 'Count', message: '${state.count}' } },
+                        { type: 'openUrl', params: { url: '${url}' } },
+                        { type: 'track', if: '${false}' }
+                    ]
+                }]
+            }
+        };
+        let data = { url: 'https://example.com' };
+        let { layout, state } = bindData(template, data, {});
+        let events = layout.children[0].events;
+        assert.deepEqual(Object.keys(events.actions), ['on-tap']);
+        assert.equal(events.scope.step, 2);
+
+        let alerts: string[][] = [];
+        let logs: ActionLog[] = [];
+        let runner = new ActionRunner(1, {
+            getState: () => state,
+            setState: s => state = s,
+            alert: (title, message) => alerts.push([title, message]),
+            log: entry => logs.push(entry)
+        });
+        runner.run(events, 'on-tap', '0');
+        assert.deepEqual(state, { count: 2 });
+        // `updateState` 之后的 Action 使用新的状态
+        assert.deepEqual(alerts, [['Count', '2']]);
+        assert.deepEqual(logs.map(l => [l.event, l.nodeIndex, l.action, l.status]), [
+            ['on-tap', '0', 'updateState', 'executed'],
+            ['on-tap', '0', 'alert', 'executed'],
+            ['on-tap', '0', 'openUrl', 'unsupported'],
+            ['on-tap', '0', 'track', 'skipped']
+        ]);
+        assert.deepEqual(logs[2].params, { url: 'https://example.com' });
+
+        // 使用更新后的状态重新绑定
+        assert.equal(bindData(template, data, {}, state).layout.children[0].style.text, 2);
+    });
+
+    test("paging", () => {
+        assert.deepEqual([3, -1, 1].map(i => normalizePageIndex(i, 3, false)), [2, 0, 1]);
+        // 循环滚动时首尾相连
+        assert.deepEqual([3, -1, 1].map(i => normalizePageIndex(i, 3, true)), [0, 2, 1]);
+        // 拖动距离超过页面大小的 1/5 才切换
+        assert.deepEqual([-80, 80, -50, 0].map(d => pageAfterDrag(1, d, 375)), [2, 0, 1, 1]);
+    });
+
+    test("linear gradient", () => {
+        assert.equal(linearGradient({ colors: ['#ff0000', '#ff000000'], direction: 'to-bottom' }), 'linear-gradient(to bottom, #ff0000, rgba(0, 0, 0, 1))');
+        assert.equal(linearGradient({ colors: ['red', 'nope'], factors: [0, 0.5] }), 'linear-gradient(to right, red 0%, transparent 50%)');
+        // `start-point` 和 `end-point` 优先于 `direction`
+        assert.equal(linearGradient({ colors: ['#fff'], direction: 'to-top', 'start-point': [0, 0], 'end-point': [1, 1] }), 'linear-gradient(135deg, #fff, #fff)');
+        assert.equal(linearGradient({ colors: [] }), null);
+        assert.equal(linearGradient({}), null);
+    });
+
+    test("component binding", () => {
+        let components = {
+            button: {
+                params: { title: { type: 'string' }, size: { default: 12 } },
+                layout: {
+                    type: 'stack',
+                    children: [
+                        { type: 'text', style: { text: '${title}', 'font-size': '${size}' } },
+                        { type: 'slot', name: 'icon' },
+                        { type: 'slot' }
+                    ]
+                }
+            },
+            loop: { layout: { import: 'loop' } }
+        };
+        let resolved: string[][] = [];
+        let resolveComponent = (importPath: string, from: string) => {
+            resolved.push([importPath, from]);
+            return components[importPath] ? { path: importPath + '.mist', template: components[importPath] } : null;
+        };
+        let template = {
+            layout: {
+                children: [
+                    {
+                        import: 'button',
+                        params: { title: '${name}' },
+                        children: [{ type: 'image', slot: 'icon' }, { type: 'text', style: { text: 'child' } }]
+                    },
+                    { import: 'loop' },
+                    { import: 'missing' }
+                ]
+            }
+        };
+        let { layout, traces } = bindData(template, { name: 'Tom' }, {}, undefined, resolveComponent);
+        assert.deepEqual(resolved, [['button', null], ['loop', null], ['loop', 'loop.mist'], ['missing', null]]);
+
+        // 组件的根节点代替 `import` 节点，没有传入的参数使用默认值
+        let button = layout.children[0];
+        assert.equal(button.type, 'stack');
+        assert.equal(button['node-index'], '0');
+        assert.deepEqual(button['node-source'], { path: 'button.mist', index: '' });
+        assert.deepEqual(button.children.map(c => [c.type, c['node-index'], c['node-source']]), [
+            ['text', '0|0', { path: 'button.mist', index: '0' }],
+            ['image', '0,0', undefined],
+            ['text', '0,1', undefined]
+        ]);
+        assert.deepEqual(button.children[0].style, { text: 'Tom', 'font-size': 12 });
+        assert.deepEqual(traces['0'].map(t => t.source), [{ path: 'button.mist', index: '' }]);
+        assert.deepEqual(traces['0|0'][0].source, { path: 'button.mist', index: '0' });
+
+        // 循环引用和找不到的组件保留 `import` 节点
+        assert.equal(layout.children[1].import, 'loop');
+        assert.deepEqual(layout.children[1]['node-source'], { path: 'loop.mist', index: '' });
+        assert.equal(layout.children[2].import, 'missing');
+        assert.equal(layout.children[2]['node-source'], undefined);
+    });
+
+    test("snapshot report", () => {
+        let dir = createTempDir({ 'current/a.png': 'current', 'baseline/a.png': 'baseline' });
+        try {
+            let results: SnapshotResult[] = [
+                { template: 'a.mist', device: 'iPhone 8', data: 'a.json', name: 'a.png', status: 'changed', changedPixels: 10, totalPixels: 1000 },
+                { template: 'b.mist', device: 'iPhone 8', data: '', name: 'b.png', status: 'unchanged' },
+                { template: 'c.mist', device: 'iPhone 8', data: '', name: 'c.png', status: 'error', message: '<bad>' }
+            ];
+            assert.equal(summarize(results), '生成了 3 个快照，1 个发生变化，0 个新增，0 个已更新，1 个出错');
+
+            // 报告中不包含没有变化的快照
+            let report = writeReport(results, dir);
+            assert.equal(report, path.join(dir, 'report.html'));
+            let html = fs.readFileSync(report, 'utf-8');
+            assert.ok(html.indexOf('10 个像素发生变化（1.00%）') >= 0);
+            assert.ok(html.indexOf('<img src="diff/a.png">') >= 0);
+            assert.ok(html.indexOf('&lt;bad&gt;') >= 0);
+            assert.ok(html.indexOf('b.mist') < 0);
+
+            acceptSnapshots(results, dir);
+            assert.deepEqual(results.map(r => r.status), ['updated', 'unchanged', 'error']);
+            assert.equal(fs.readFileSync(path.join(dir, 'baseline', 'a.png'), 'utf-8'), 'current');
+        }
+        finally {
+            removeTempDir(dir);
+        }
+    });
+
+    test("toggle grid devices", () => {
+        let [a, b, c] = devices;
+        // 按设备列表的顺序排列
+        assert.deepEqual(toggleDevice([c, a], b, devices), [a, b, c]);
+        assert.deepEqual(toggleDevice([a, b], a, devices), [b]);
+        // 至少保留一个设备
+        let selected = [b];
+        assert.equal(toggleDevice(selected, b, devices), selected);
+    });
+
+    test("preview devices", () => {
+        let android = deviceFromProfile({ model: 'Foldable', system: 'Android', width: 600, height: 800, safeArea: { bottom: 20 } });
+        assert.deepEqual([android.system, android.scale, android.statusBarHeight, android.titleBarHeight], ['Android', 2, 24, 48]);
+        assert.deepEqual(android.safeArea, { top: 0, left: 0, bottom: 20, right: 0 });
+        // 没有设置状态栏高度时使用安全区域的顶部
+        let notch = deviceFromProfile({ model: 'Notch', width: 390, height: 844, scale: 3, safeArea: { top: 47, bottom: 34 } });
+        assert.deepEqual([notch.system, notch.scale, notch.statusBarHeight, notch.titleBarHeight], ['iOS', 3, 47, 44]);
+        assert.equal(deviceFromProfile(<DeviceProfile>{ model: 'Broken', width: 0, height: 800 }), null);
+        assert.equal(deviceFromProfile(<DeviceProfile>{ width: 375, height: 667 }), null);
+
+        // 自定义设备排在前面，同名的内置设备被替换，无效的设备被忽略
+        let all = allDevices([
+            { model: 'iPhone 8', width: 375, height: 667, scale: 3 },
+            { model: 'Foldable', system: 'Android', width: 600, height: 800 },
+            <DeviceProfile>{ model: 'Broken' }
+        ]);
+        assert.deepEqual(all.slice(0, 2).map(d => d.model), ['iPhone 8', 'Foldable']);
+        assert.equal(all.length, devices.length + 1);
+        assert.equal(all.filter(d => d.model === 'iPhone 8').length, 1);
+        assert.equal(all[0].scale, 3);
+
+        let device = devices.find(d => d.model === 'iPhone 8');
+        let vars = device.builtinVars({ darkMode: true, fontScale: 1.5 });
+        assert.deepEqual([vars.system.isDarkMode, vars.system.fontScale, vars.screen.width], [true, 1.5, 375]);
+        assert.deepEqual([device.builtinVars().system.isDarkMode, device.builtinVars().system.fontScale], [false, 1]);
+    });
+
+    test("class styles", () => {
+        let template = {
+            styles: {
+                title: { color: 'red', 'font-size': 14 },
+                bold: { 'font-size': 16, 'font-weight': 'bold' }
+            },
+            layout: {
+                children: [
+                    { type: 'text', class: 'title bold missing', style: { color: 'blue' } },
+                    { type: 'text', style: { color: 'blue' } }
+                ]
+            }
+        };
+        let { layout, traces } = bindData(template, {}, {});
+        assert.deepEqual(traces['0'][0].classes, [
+            { name: 'title', style: { color: 'red', 'font-size': 14 }, overridden: ['color', 'font-size'] },
+            { name: 'bold', style: { 'font-size': 16, 'font-weight': 'bold' }, overridden: [] },
+            { name: 'missing', style: null, overridden: [] }
+        ]);
+        assert.deepEqual(layout.children[0].style, { color: 'blue', 'font-size': 16, 'font-weight': 'bold' });
+        assert.equal(traces['1'][0].classes, undefined);
+    });
+
+    test("node ranges", () => {
+        let document = createDocument('ranges.mist', `{
+  "layout": {
+    "children": [
+      { "type": "text" },
+      { "children": [{ "type": "image" }] }
+    ]
+  }
+}`);
+        let ranges = nodeRanges(document);
+        assert.deepEqual(Object.keys(ranges).sort(), ['', '0', '1', '1,0']);
+        assert.deepEqual(ranges['1,0'], { start: { line: 4, character: 21 }, end: { line: 4, character: 40 } });
+        assert.deepEqual(ranges[''].end, { line: 6, character: 3 });
+    });
+
+    test("data file blocks", () => {
+        let feed = JSON.stringify({
+            blocks: [
+                { templateId: 'app@card', data: { title: 'a' } },
+                { list: [{ template: 'banner', data: {} }, { name: 'not a block' }] },
+                { blockId: 'footer', data: null }
+            ]
+        });
+        let dir = createTempDir({ 'feed.json': feed, 'empty.json': '' });
+        try {
+            let file = path.join(dir, 'feed.json');
+            let datas = MistData.getFileDatas(file);
+            // 按在文件中出现的顺序排列，模版名称去掉 `@` 之前的部分
+            assert.deepEqual(datas.map(d => d.template), ['card', 'banner', 'footer']);
+            assert.deepEqual(datas.map(d => d.data), [{ title: 'a' }, {}, null]);
+            assert.ok(datas.every(d => d.file === file));
+            assert.deepEqual(MistData.getFileDatas(path.join(dir, 'empty.json')), []);
+        }
+        finally {
+            removeTempDir(dir);
+        }
+    });
+
+    test("live reload protocol", () => {
+        let message = decodeMessage(encodeMessage('refresh', { path: '/home/card.mist' }));
+        assert.deepEqual(message, { version: PROTOCOL_VERSION, type: 'refresh', path: '/home/card.mist' });
+
+        assert.throws(() => decodeMessage('{"version": 1'));
+        assert.throws(() => decodeMessage('null'), /消息格式错误/);
+        assert.throws(() => decodeMessage(JSON.stringify({ version: PROTOCOL_VERSION })), /消息格式错误/);
+        assert.throws(() => decodeMessage(JSON.stringify({ version: PROTOCOL_VERSION + 1, type: 'hello' })), /不支持的协议版本/);
+        assert.throws(() => decodeMessage(JSON.stringify({ type: 'hello' })), /不支持的协议版本/);
+    });
+
+    test("device log location", () => {
+        assert.equal(DeviceLogHelper.nodeIndex(''), '');
+        assert.equal(DeviceLogHelper.nodeIndex('0, 1,2'), '0,1,2');
+        assert.equal(DeviceLogHelper.nodeIndex('layout'), '');
+        assert.equal(DeviceLogHelper.nodeIndex('layout.children[0].children[1]'), '0,1');
+        assert.equal(DeviceLogHelper.nodeIndex('children/0/children/2'), '0,2');
+        assert.equal(DeviceLogHelper.nodeIndex('style.color'), null);
+        assert.equal(DeviceLogHelper.nodeIndex(undefined), null);
+
+        let text = '{ "text": "${ item.title + 1 }", "other": "${item.title}" }';
+        assert.deepEqual(DeviceLogHelper.findExpression(text, '${item.title+1}'), { offset: text.indexOf('item.title + 1'), length: 'item.title + 1'.length });
+        assert.deepEqual(DeviceLogHelper.findExpression(text, 'item.title', text.indexOf('"other"')), { offset: text.lastIndexOf('item.title'), length: 10 });
+        assert.equal(DeviceLogHelper.findExpression(text, 'item.title', 0, text.indexOf('item.title') + 5), null);
+        assert.equal(DeviceLogHelper.findExpression(text, '${}'), null);
+
+        let document = createDocument('log.mist', [
+            '{',
+            '  "layout": {',
+            '    "children": [',
+            '      { "type": "text", "style": { "text": "${item.title}" } },',
+            '      {',
+            '        "type": "image",',
+            '        "style": { "image": "${item.icon}" }',
+            '      }',
+            '    ]',
+            '  }',
+            '}',
+        ].join('\n'));
+        let report = (nodePath: string, expression?: string) => ({ level: 'error' as 'error', path: '/log.mist', message: 'error', nodePath, expression });
+        // 有表达式时定位到节点中的表达式
+        assert.deepEqual(DeviceLogHelper.rangeOf(document, report('0', 'item.title')), Range.create(3, 46, 3, 56));
+        // 节点跨多行时定位到节点的第一行
+        assert.deepEqual(DeviceLogHelper.rangeOf(document, report('layout.children[1]')), Range.create(4, 6, 4, 7));
+        // 表达式不在节点中时在整个模板中查找
+        assert.deepEqual(DeviceLogHelper.rangeOf(document, report('1', 'item.title')), Range.create(3, 46, 3, 56));
+        assert.equal(DeviceLogHelper.rangeOf(document, report('5')), null);
+    });
+
+    test("template source map", () => {
+        let source = `{
+  "styles": { "title": { "color": "red" } },
+  "data": { "count": 1 },
+  "layout": {
+    "children": [
+      { "class": "title", "style": { "lines": 1 } },
+      { "type": "text", "style": { "text": "\${count}" } }
+    ]
+  }
+}`;
+        let compiled = JSON.stringify({
+            data: { count: 1 },
+            layout: {
+                children: [
+                    { style: { lines: 1, color: 'red' } },
+                    { type: 'text', style: { text: '${count}' } }
+                ]
+            }
+        }, null, 2);
+        let document = createDocument('source.mist', source);
+        let sourceMap = new TemplateSourceMap(compiled, '/test/source.mist', document);
+        let textOf = (location: { range: Range }) => source.substring(document.offsetAt(location.range.start), document.offsetAt(location.range.end));
+
+        // 合并的样式对应到 `styles` 中的定义
+        assert.equal(textOf(sourceMap.sourceOfPath(['layout', 'children', 0, 'style', 'color'])), '"red"');
+        assert.equal(textOf(sourceMap.sourceOfPath(['layout', 'children', 0, 'style', 'lines'])), '1');
+        assert.equal(textOf(sourceMap.sourceOfPath(['layout', 'children', 1, 'style', 'text'])), '"${count}"');
+        assert.equal(textOf(sourceMap.sourceOfPath(['data', 'count'])), '1');
+        // 找不到时使用最近的上级
+        assert.equal(textOf(sourceMap.sourceOfPath(['data', 'missing'])), '{ "count": 1 }');
+        assert.equal(textOf(sourceMap.sourceOfNodeIndex('1')), '{ "type": "text", "style": { "text": "${count}" } }');
+        assert.equal(sourceMap.sourceOfNodeIndex('1').uri, document.uri);
+
+        let offset = compiled.indexOf('"red"');
+        assert.equal(textOf(sourceMap.sourceAt(offset + 1)), '"red"');
+    });
+
+    test("compile error range", () => {
+        let document = createDocument('error.mist', '{\n  "layout": {\n    "children": [\n      { "type": "text" }\n    ]\n  }\n}');
+        assert.deepEqual(compileErrorRange({ message: 'error', line: 2, column: 3 }, document), Range.create(1, 2, 1, 2));
+        assert.deepEqual(compileErrorRange(new Error('Unexpected token at line 3 column 5'), document), Range.create(2, 4, 2, 4));
+        assert.deepEqual(compileErrorRange('4:7 unknown property', document), Range.create(3, 6, 3, 6));
+        assert.deepEqual(compileErrorRange(new Error('invalid node at layout.children[0]'), document), Range.create(3, 6, 3, 24));
+        assert.equal(compileErrorRange(new Error('invalid node at layout.children[3]'), document), null);
+        assert.equal(compileErrorRange(new Error('unknown error'), document), null);
+    });
+
+    test("zip", () => {
+        assert.equal(crc32(Buffer.from('123456789')), 0xCBF43926);
+        assert.equal(crc32(Buffer.alloc(0)), 0);
+
+        let date = new Date(2020, 0, 2, 3, 4, 6);
+        let entries = [
+            { name: 'ios/home/卡片.mist', data: Buffer.from('{"layout":{}}') },
+            { name: 'manifest.json', data: Buffer.from('{}') },
+        ];
+        let zip = createZip(entries, date);
+        assert.ok(zip.equals(createZip(entries, date)));
+
+        // 按本地文件头依次读取每个文件
+        let offset = 0;
+        entries.forEach(entry => {
+            assert.equal(zip.readUInt32LE(offset), 0x04034b50);
+            assert.equal(zip.readUInt16LE(offset + 6) & 0x0800, 0x0800);
+            assert.equal(zip.readUInt32LE(offset + 14), crc32(entry.data));
+            let compressedSize = zip.readUInt32LE(offset + 18);
+            assert.equal(zip.readUInt32LE(offset + 22), entry.data.length);
+            let nameLength = zip.readUInt16LE(offset + 26);
+            let start = offset + 30 + nameLength;
+            assert.equal(zip.slice(offset + 30, start).toString('utf8'), entry.name);
+            assert.ok(zlib.inflateRawSync(zip.slice(start, start + compressedSize)).equals(entry.data));
+            offset = start + compressedSize;
+        });
+
+        assert.equal(zip.readUInt32LE(offset), 0x02014b50);
+        let end = zip.length - 22;
+        assert.equal(zip.readUInt32LE(end), 0x06054b50);
+        assert.equal(zip.readUInt16LE(end + 10), entries.length);
+        assert.equal(zip.readUInt32LE(end + 16), offset);
+        assert.equal(zip.readUInt32LE(end + 12), end - offset);
+    });
+
 });
\ No newline at end of file